@@ -3,11 +3,24 @@ const withPWA = require('next-pwa')({
   register: true,
   skipWaiting: true,
   disable: process.env.NODE_ENV === 'development',
-  // Exclude build manifests from precaching (they don't exist in static export)
-  buildExcludes: [/app-build-manifest\.json$/],
+  // Exclude build manifests from precaching (they don't exist in static export),
+  // and the ~2 MB HEIC decoder, which only users who upload a HEIC should download
+  buildExcludes: [/app-build-manifest\.json$/, /chunks\/heic-decoder\.[^/]*\.js$/],
   // Network-First strategy: Always try network first, fallback to cache
   // This ensures users always get the latest version when online
   runtimeCaching: [
+    {
+      // HEIC decoder - Cache First once fetched, so HEIC uploads keep working offline
+      urlPattern: /\/chunks\/heic-decoder\.[^/]*\.js$/i,
+      handler: 'CacheFirst',
+      options: {
+        cacheName: 'heic-decoder',
+        expiration: {
+          maxEntries: 2,
+          maxAgeSeconds: 30 * 24 * 60 * 60, // 30 days
+        },
+      },
+    },
     {
       // HTML pages - Network First (always get fresh content)
       urlPattern: /^https?.*\/$/,
@@ -114,6 +127,29 @@ const nextConfig = {
   // assetPrefix: isGitHubPages ? `/${repoName}/` : '',
   basePath: '',
   assetPrefix: '',
+  webpack: (config, { isServer }) => {
+    // Keep the HEIC decoder in one predictably named chunk, so the service
+    // worker can leave it out of the precache (see buildExcludes above)
+    if (!isServer && config.optimization.splitChunks) {
+      config.optimization.splitChunks.cacheGroups = {
+        ...config.optimization.splitChunks.cacheGroups,
+        heicDecoder: {
+          test: /[\\/]node_modules[\\/]libheif-js[\\/]/,
+          name: 'heic-decoder',
+          chunks: 'async',
+          priority: 50,
+          enforce: true,
+        },
+      };
+    }
+    // libheif's Emscripten bundle wraps `require` for its Node.js code path,
+    // which webpack can't analyse; that path never runs in the browser
+    config.ignoreWarnings = [
+      ...(config.ignoreWarnings || []),
+      { module: /libheif-js/, message: /Critical dependency/ },
+    ];
+    return config;
+  },
 };
 
 module.exports = withPWA(nextConfig);
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useCallback, useState, useEffect } from 'react';
-import { Shield, Zap, Wifi, WifiOff, Download, Moon, Sun } from 'lucide-react';
+import React, { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { Shield, Zap, Wifi, WifiOff, Download, Moon, Sun, Users, Upload, PenLine, Camera } from 'lucide-react';
 import { useAppStore } from '@/store/useAppStore';
 import { useStaticProcessor } from '@/hooks/useStaticProcessor';
 import {
@@ -12,8 +12,33 @@ import {
   ProcessingOverlay,
   SignatureColorPicker,
   QualitySlider,
+  CaptionSettingsPanel,
+  BatchQueue,
+  FileNameTemplateInput,
+  CandidateWorkspace,
+  UserPresetManager,
+  JpegEncoderSettings,
+  FitModeSettings,
+  ResamplingSettings,
+  ToneAdjustmentPanel,
+  SignaturePad,
+  CameraCapture,
 } from '@/components';
-import type { CropArea, ImageSpec, ExamPreset } from '@/types';
+import type { CropArea, ImageSpec, ExamPreset, ImageMetadata, BatchItem, CandidateRecord, CandidateDocument } from '@/types';
+import { parseBackgroundColor } from '@/lib/backgroundReplacer';
+import { buildCaption } from '@/lib/captionBand';
+import { DEFAULT_FACE_FRAMING } from '@/lib/faceFraming';
+import { getImageAspect } from '@/lib/fitGeometry';
+import { FORMAT_INFO, parseOutputFormat } from '@/lib/outputFormats';
+import { formatFileName, createExportBundle, downloadBlob, type ExportAsset } from '@/lib/exportBundle';
+import { createBatchItems } from '@/lib/batchQueue';
+import { DEFAULT_TONE_ADJUSTMENTS } from '@/lib/toneAdjust';
+import { revokeProcessedResult } from '@/lib/processOptions';
+import { isAbortError } from '@/lib/workerProcessor';
+import { customDimensionsToSpec } from '@/lib/physicalUnits';
+import type { ExportedSignature } from '@/lib/signatureStrokes';
+import { useBatchProcessor } from '@/hooks/useBatchProcessor';
+import { createCandidateId, getCandidate, saveCandidate, purgeExpiredCandidates, supportsWorkspace } from '@/lib/candidateWorkspace';
 
 export default function HomePage() {
   const {
@@ -28,25 +53,70 @@ export default function HomePage() {
     customDimensions,
     isCustomMode,
     signatureColor,
+    signatureCleanup,
+    signatureTrimPadding,
     lastCropArea,
+    toneAdjustments,
+    sourceMetadata,
     outputQuality,
+    jpegSettings,
+    fitSettings,
+    resampleSettings,
+    replaceBackground,
+    backgroundTolerance,
+    candidateName,
+    captionSettings,
+    isBatchMode,
+    batchItems,
+    fileNameTemplate,
+    applicationNumber,
+    activeCandidateId,
+    workspaceRetentionDays,
+    userPresets,
     setPreset,
     setType,
     setUploadedFile,
     setProcessedResult,
     setLastCropArea,
+    setToneAdjustments,
+    resetToneAdjustments,
     setShowCropper,
     setAddDate,
     setDarkMode,
     setCustomDimensions,
     setSignatureColor,
+    setSignatureCleanup,
+    setSignatureTrimPadding,
     setOutputQuality,
+    setJpegSettings,
+    setFitSettings,
+    setResampleSettings,
+    setReplaceBackground,
+    setBackgroundTolerance,
+    setCandidateName,
+    setCaptionSettings,
+    setBatchMode,
+    setBatchItems,
+    updateBatchItem,
+    setFileNameTemplate,
+    setApplicationNumber,
+    setActiveCandidateId,
+    setWorkspaceRetentionDays,
+    saveUserPreset,
+    deleteUserPreset,
+    importUserPresets,
     reset,
   } = useAppStore();
 
   const [isOnline, setIsOnline] = useState(true);
   const [mounted, setMounted] = useState(false);
   const [isReprocessing, setIsReprocessing] = useState(false);
+  const [batchCropItemId, setBatchCropItemId] = useState<string | null>(null);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  const [signatureInput, setSignatureInput] = useState<'upload' | 'draw'>('upload');
+  const [photoInput, setPhotoInput] = useState<'upload' | 'camera'>('upload');
+  // Workspace record whose documents fill the next batch queue
+  const pendingRestoreRef = useRef<CandidateRecord | null>(null);
 
   // Handle hydration
   useEffect(() => {
@@ -61,28 +131,127 @@ export default function HomePage() {
   }, [darkMode, mounted]);
 
   // Get current spec - use custom dimensions if in custom mode
-  const currentSpec: ImageSpec | null = isCustomMode
-    ? {
-        widthPx: customDimensions.width,
-        heightPx: customDimensions.height,
-        minSizeKB: customDimensions.minKB,
-        maxSizeKB: customDimensions.maxKB,
-        dateFormat: false,
-      }
-    : selectedPreset
+  // (memoized so effects keyed on the spec don't re-run every render)
+  const customSpec: ImageSpec | null = useMemo(() => isCustomMode
+    ? customDimensionsToSpec(customDimensions)
+    : null,
+    [isCustomMode, customDimensions]
+  );
+  const currentSpec: ImageSpec | null = useMemo(() => customSpec
+    ?? (selectedPreset
       ? selectedType === 'photo'
         ? selectedPreset.specs.photo
         : selectedPreset.specs.signature
-      : null;
+      : null),
+    [customSpec, selectedPreset, selectedType]
+  );
+  // Starting point for a new user preset (the custom inputs, even off custom mode)
+  const seedSpec = useMemo(() => customDimensionsToSpec(customDimensions), [customDimensions]);
+
+  // Backdrop colour the preset demands (only offered for photos)
+  const presetBackgroundColor = selectedType === 'photo' ? parseBackgroundColor(currentSpec?.background) : null;
+  const activeBackgroundColor = replaceBackground ? presetBackgroundColor : null;
+
+  // Resolve the caption band text (name/date) from the current settings
+  const captureDate = sourceMetadata?.captureDate ?? null;
+  const captureDateValue = useMemo(() => (captureDate ? new Date(captureDate) : null), [captureDate]);
+  const caption = useMemo(
+    () => buildCaption(captionSettings, candidateName, captureDateValue),
+    [captionSettings, candidateName, captureDateValue]
+  );
+
+  // Signatures drawn on the pad are already clean: scan cleanup (thresholding,
+  // line removal, deskew) would only damage them
+  const [drawnSignatureFile, setDrawnSignatureFile] = useState<File | null>(null);
+  const isDrawnSignature = !!uploadedFile && uploadedFile === drawnSignatureFile;
 
   // Initialize processor hook
   const { processImage, state: processorState } = useStaticProcessor({
     spec: currentSpec || { widthPx: 200, heightPx: 200, minSizeKB: 10, maxSizeKB: 100 },
     addDate: addDate && selectedType === 'photo',
+    caption,
     signatureColor: selectedType === 'signature' ? signatureColor : null,
+    signatureCleanup: selectedType === 'signature' && !isDrawnSignature ? signatureCleanup : null,
     qualityPreference: outputQuality,
+    replaceBackground: !!activeBackgroundColor,
+    backgroundTolerance,
+    jpeg: jpegSettings,
+    fit: fitSettings,
+    resample: resampleSettings,
+    documentType: selectedType,
+    tone: toneAdjustments,
   });
 
+  // Batch mode: one queue item per document the preset asks for
+  useEffect(() => {
+    const previous = useAppStore.getState().batchItems;
+    previous.forEach((item) => {
+      if (item.imageUrl) URL.revokeObjectURL(item.imageUrl);
+      if (item.result) revokeProcessedResult(item.result);
+    });
+    // Quality only seeds a new queue; each item keeps its own afterwards
+    const quality = useAppStore.getState().outputQuality;
+    const items = isBatchMode && selectedPreset ? createBatchItems(selectedPreset, customSpec, quality) : [];
+
+    // Re-opened candidate: put the saved originals back for re-cropping
+    const restore = pendingRestoreRef.current;
+    if (restore && selectedPreset && restore.preset.id === selectedPreset.id) {
+      pendingRestoreRef.current = null;
+      items.forEach((item, index) => {
+        const doc = restore.documents.find((d) => d.type === item.id);
+        if (!doc) return;
+        items[index] = {
+          ...item,
+          file: new File([doc.original], doc.originalName, { type: doc.original.type }),
+          imageUrl: URL.createObjectURL(doc.original),
+          sourceMetadata: doc.sourceMetadata,
+          cropArea: doc.cropArea,
+          signatureColor: doc.signatureColor,
+          tone: doc.tone ?? DEFAULT_TONE_ADJUSTMENTS,
+          quality: doc.quality,
+          status: 'ready',
+        };
+      });
+    }
+
+    setBatchItems(items);
+    setBatchCropItemId(null);
+  }, [isBatchMode, selectedPreset, customSpec, setBatchItems]);
+
+  // Photo settings shared by the batch photo item (spec comes from the item)
+  const batchPhotoBackground = parseBackgroundColor(selectedPreset?.specs.photo?.background);
+  const backgroundToggleColor = isBatchMode ? batchPhotoBackground : presetBackgroundColor;
+  const batchPhotoSettings = useMemo(() => ({
+    addDate,
+    caption,
+    replaceBackground: !!batchPhotoBackground && replaceBackground,
+    backgroundTolerance,
+  }), [addDate, caption, batchPhotoBackground, replaceBackground, backgroundTolerance]);
+
+  const {
+    processAll: processBatch,
+    cancelAll: cancelBatch,
+    isProcessing: isBatchProcessing,
+  } = useBatchProcessor({
+    items: batchItems,
+    updateItem: updateBatchItem,
+    photoSettings: batchPhotoSettings,
+    jpeg: jpegSettings,
+    signatureCleanup,
+    fit: fitSettings,
+    resample: resampleSettings,
+  });
+
+  const batchCropItem = batchItems.find((item) => item.id === batchCropItemId) ?? null;
+
+  // Expire old workspace records even if the workspace is never opened
+  useEffect(() => {
+    if (!supportsWorkspace()) return;
+    purgeExpiredCandidates(workspaceRetentionDays).catch((error) => {
+      console.warn('⚠️ Workspace cleanup failed:', error);
+    });
+  }, [workspaceRetentionDays]);
+
   // Online/Offline detection
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -99,8 +268,9 @@ export default function HomePage() {
   }, []);
 
   // Handle file upload
-  const handleFileSelect = useCallback((file: File, imageUrl: string) => {
-    setUploadedFile(file, imageUrl);
+  // Metadata feeds the "Photo Taken" caption date and the result's stripped badge
+  const handleFileSelect = useCallback((file: File, imageUrl: string, metadata: ImageMetadata) => {
+    setUploadedFile(file, imageUrl, metadata);
   }, [setUploadedFile]);
 
   // Handle crop complete
@@ -112,38 +282,300 @@ export default function HomePage() {
       const result = await processImage(uploadedFile, cropArea);
       setProcessedResult(result);
     } catch (error) {
+      if (isAbortError(error)) return; // A newer job took over
       console.error('Processing failed:', error);
     }
   }, [uploadedFile, currentSpec, processImage, setProcessedResult, setLastCropArea]);
 
-  // Handle reprocessing (when color changes)
-  const handleReprocess = useCallback(async () => {
+  // Drawn signatures already have the spec's aspect ratio: process the whole drawing
+  const handleSignatureDrawn = useCallback(async ({ file, width, height }: ExportedSignature) => {
+    if (!currentSpec) return;
+    const cropArea: CropArea = { x: 0, y: 0, width, height, rotation: 0 };
+    setDrawnSignatureFile(file);
+    setUploadedFile(file, URL.createObjectURL(file), null);
+    setShowCropper(false);
+    
+    try {
+      setLastCropArea(cropArea); // Save for reprocessing
+      // No cleanup on this first run either (the hook only sees the drawn file after a re-render)
+      const result = await processImage(file, cropArea, undefined, undefined, null);
+      setProcessedResult(result);
+    } catch (error) {
+      if (isAbortError(error)) return; // A newer job took over
+      console.error('Processing failed:', error);
+    }
+  }, [currentSpec, processImage, setUploadedFile, setShowCropper, setProcessedResult, setLastCropArea]);
+
+  // Handle reprocessing (when color, quality or adjustments change)
+  // Overrides go straight to the processor to avoid stale closures; only the
+  // latest job clears the busy flag, since a newer one aborts the older
+  const reprocessJobRef = useRef(0);
+  const handleReprocess = useCallback(async (colorOverride?: string | null, qualityOverride?: number) => {
     if (!uploadedFile || !currentSpec || !lastCropArea) return;
     
+    const job = ++reprocessJobRef.current;
     setIsReprocessing(true);
     try {
-      const result = await processImage(uploadedFile, lastCropArea);
+      const result = await processImage(uploadedFile, lastCropArea, colorOverride, qualityOverride);
       setProcessedResult(result);
     } catch (error) {
-      console.error('Reprocessing failed:', error);
+      if (!isAbortError(error)) console.error('Reprocessing failed:', error);
     } finally {
-      setIsReprocessing(false);
+      if (job === reprocessJobRef.current) setIsReprocessing(false);
     }
   }, [uploadedFile, currentSpec, lastCropArea, processImage, setProcessedResult]);
 
+  // Re-run a finished signature when the cleanup settings change
+  // (debounced so dragging the sensitivity slider doesn't queue a job per step)
+  const cleanupSettingsRef = useRef(signatureCleanup);
+  const cleanupTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    if (cleanupSettingsRef.current === signatureCleanup) return;
+    cleanupSettingsRef.current = signatureCleanup;
+    if (!processedResult || selectedType !== 'signature' || isBatchMode || isDrawnSignature) return;
+
+    if (cleanupTimerRef.current) clearTimeout(cleanupTimerRef.current);
+    cleanupTimerRef.current = setTimeout(() => {
+      cleanupTimerRef.current = null;
+      handleReprocess();
+    }, 300);
+  }, [signatureCleanup, processedResult, selectedType, isBatchMode, isDrawnSignature, handleReprocess]);
+
+  useEffect(() => () => {
+    if (cleanupTimerRef.current) clearTimeout(cleanupTimerRef.current);
+  }, []);
+
+  // Re-run a finished image when its adjustments change (sliders commit on release)
+  const toneRef = useRef(toneAdjustments);
+  useEffect(() => {
+    if (toneRef.current === toneAdjustments) return;
+    toneRef.current = toneAdjustments;
+    if (!processedResult || isBatchMode) return;
+    handleReprocess();
+  }, [toneAdjustments, processedResult, isBatchMode, handleReprocess]);
+
   // Handle reset
   const handleReset = useCallback(() => {
     if (uploadedImageUrl) {
       URL.revokeObjectURL(uploadedImageUrl);
     }
-    if (processedResult?.dataUrl) {
-      URL.revokeObjectURL(processedResult.dataUrl);
+    if (processedResult) {
+      revokeProcessedResult(processedResult);
     }
+    batchItems.forEach((item) => {
+      if (item.imageUrl) URL.revokeObjectURL(item.imageUrl);
+      if (item.result) revokeProcessedResult(item.result);
+    });
     reset();
-  }, [uploadedImageUrl, processedResult, reset]);
+  }, [uploadedImageUrl, processedResult, batchItems, reset]);
+
+  // New upload for a batch item - replaces its file and opens the cropper
+  const handleBatchUpload = useCallback((id: string, file: File, imageUrl: string, metadata: ImageMetadata) => {
+    const item = useAppStore.getState().batchItems.find((entry) => entry.id === id);
+    if (item?.imageUrl) URL.revokeObjectURL(item.imageUrl);
+    if (item?.result) revokeProcessedResult(item.result);
+    updateBatchItem(id, {
+      file,
+      imageUrl,
+      sourceMetadata: metadata,
+      cropArea: null,
+      tone: DEFAULT_TONE_ADJUSTMENTS, // A new image starts uncorrected
+      result: null,
+      status: 'ready',
+      error: null,
+    });
+    setBatchCropItemId(id);
+  }, [updateBatchItem]);
+
+  const handleBatchCropComplete = useCallback((cropArea: CropArea) => {
+    if (!batchCropItemId) return;
+    updateBatchItem(batchCropItemId, { cropArea, status: 'ready' });
+    setBatchCropItemId(null);
+  }, [batchCropItemId, updateBatchItem]);
+
+  // Download names follow the user's template, e.g. {name}_{preset}_{type}
+  const getDownloadName = useCallback((type: string) => formatFileName(fileNameTemplate, {
+    name: candidateName,
+    preset: selectedPreset?.id ?? 'custom',
+    type,
+  }), [fileNameTemplate, candidateName, selectedPreset]);
 
-  // Calculate aspect ratio
-  const aspectRatio = currentSpec ? currentSpec.widthPx / currentSpec.heightPx : 1;
+  // Bundle the outputs with a manifest.json into a single ZIP
+  const downloadBundle = useCallback(async (assets: ExportAsset[]) => {
+    try {
+      const zip = await createExportBundle(assets, {
+        presetId: selectedPreset?.id ?? 'custom',
+        presetName: selectedPreset?.label ?? 'Custom',
+        candidateName,
+        template: fileNameTemplate,
+      });
+      const bundleName = formatFileName('{name}_{preset}_{date}', {
+        name: candidateName,
+        preset: selectedPreset?.id ?? 'custom',
+        type: 'documents',
+      });
+      downloadBlob(zip, `${bundleName}.zip`);
+      console.log(`📦 ZIP ready: ${assets.length} file(s), ${(zip.size / 1024).toFixed(1)} KB`);
+    } catch (error) {
+      console.error('ZIP export failed:', error);
+    }
+  }, [selectedPreset, candidateName, fileNameTemplate]);
+
+  const handleBatchDownload = useCallback((item: BatchItem) => {
+    if (!item.result) return;
+    const link = document.createElement('a');
+    link.href = item.result.dataUrl;
+    link.download = `${getDownloadName(item.id)}.${FORMAT_INFO[item.result.format].extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }, [getDownloadName]);
+
+  const handleBatchDownloadAll = useCallback(() => {
+    const assets = batchItems.flatMap((item): ExportAsset[] => item.status === 'done' && item.result
+      ? [{
+          type: item.id,
+          label: item.label,
+          spec: item.spec,
+          result: item.result,
+          dateBand: item.kind === 'photo' && addDate ? caption.lines : null,
+        }]
+      : []);
+    if (assets.length > 0) downloadBundle(assets);
+  }, [batchItems, addDate, caption, downloadBundle]);
+
+  const handleDownloadZip = useCallback(() => {
+    if (!processedResult || !currentSpec) return;
+    downloadBundle([{
+      type: selectedType,
+      label: selectedType === 'photo' ? 'Photo' : 'Signature',
+      spec: currentSpec,
+      result: processedResult,
+      dateBand: selectedType === 'photo' && addDate ? caption.lines : null,
+    }]);
+  }, [processedResult, currentSpec, selectedType, addDate, caption, downloadBundle]);
+
+  // Example name shown under the template field
+  const previewType = isBatchMode ? 'photo' : selectedType;
+  const previewSpec = isBatchMode ? batchItems[0]?.spec : currentSpec;
+  const fileNamePreview = `${getDownloadName(previewType)}.${FORMAT_INFO[parseOutputFormat(previewSpec?.format)].extension}`;
+
+  // Save the current candidate (single upload or whole batch) to the workspace
+  const handleSaveCandidate = useCallback(async () => {
+    if (!selectedPreset) return;
+
+    const documents: CandidateDocument[] = isBatchMode
+      ? batchItems.flatMap((item): CandidateDocument[] => item.file
+          ? [{
+              type: item.id,
+              kind: item.kind,
+              label: item.label,
+              spec: item.spec,
+              original: item.file,
+              originalName: item.file.name,
+              sourceMetadata: item.sourceMetadata,
+              cropArea: item.cropArea,
+              signatureColor: item.signatureColor,
+              tone: item.tone,
+              quality: item.quality,
+              processed: item.result?.blob ?? null,
+              processedFormat: item.result?.format ?? null,
+              processedSizeKB: item.result?.sizeKB ?? null,
+            }]
+          : [])
+      : uploadedFile && currentSpec
+        ? [{
+            type: selectedType,
+            kind: selectedType,
+            label: selectedType === 'photo' ? 'Photo' : 'Signature',
+            spec: currentSpec,
+            original: uploadedFile,
+            originalName: uploadedFile.name,
+            sourceMetadata,
+            cropArea: lastCropArea,
+            signatureColor: selectedType === 'signature' ? signatureColor : null,
+            tone: toneAdjustments,
+            quality: outputQuality,
+            processed: processedResult?.blob ?? null,
+            processedFormat: processedResult?.format ?? null,
+            processedSizeKB: processedResult?.sizeKB ?? null,
+          }]
+        : [];
+    if (documents.length === 0) throw new Error('Upload a photo or signature first');
+
+    const existing = activeCandidateId ? await getCandidate(activeCandidateId) : null;
+    const id = existing?.id ?? createCandidateId();
+    await saveCandidate({
+      id,
+      name: candidateName.trim(),
+      applicationNumber: applicationNumber.trim(),
+      preset: selectedPreset,
+      documents,
+      createdAt: existing?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+    });
+    setActiveCandidateId(id);
+    console.log(`💾 Saved ${candidateName.trim()} (${documents.length} file(s)) to the workspace`);
+  }, [
+    selectedPreset, isBatchMode, batchItems, uploadedFile, currentSpec, selectedType, sourceMetadata,
+    lastCropArea, signatureColor, toneAdjustments, outputQuality, processedResult, activeCandidateId, candidateName,
+    applicationNumber, setActiveCandidateId,
+  ]);
+
+  // Re-open a saved candidate: restore its preset and originals for re-cropping
+  const handleOpenCandidate = useCallback((record: CandidateRecord) => {
+    const [first] = record.documents;
+    if (!first) return;
+
+    handleReset();
+    setPreset(record.preset);
+    if (record.preset.id === 'custom') {
+      setCustomDimensions({
+        width: first.spec.widthPx,
+        height: first.spec.heightPx,
+        minKB: first.spec.minSizeKB,
+        maxKB: first.spec.maxSizeKB,
+        unit: first.spec.physicalSize?.unit ?? 'px',
+        ...(first.spec.physicalSize && {
+          physicalWidth: first.spec.physicalSize.width,
+          physicalHeight: first.spec.physicalSize.height,
+        }),
+        dpi: first.spec.dpi ?? null,
+      });
+    }
+    setCandidateName(record.name);
+    setApplicationNumber(record.applicationNumber);
+    setActiveCandidateId(record.id);
+
+    if (record.documents.length > 1 || first.kind === 'extra') {
+      // The batch effect picks these up once the queue is rebuilt
+      pendingRestoreRef.current = record;
+      setBatchMode(true);
+    } else {
+      const type = first.kind === 'signature' ? 'signature' : 'photo';
+      setBatchMode(false);
+      setType(type);
+      setSignatureColor(first.signatureColor);
+      setOutputQuality(first.quality);
+      setLastCropArea(first.cropArea);
+      setUploadedFile(
+        new File([first.original], first.originalName, { type: first.original.type }),
+        URL.createObjectURL(first.original),
+        first.sourceMetadata
+      );
+      setToneAdjustments(first.tone ?? DEFAULT_TONE_ADJUSTMENTS); // After the upload, which resets them
+    }
+    setShowWorkspace(false);
+  }, [
+    handleReset, setPreset, setCustomDimensions, setCandidateName, setApplicationNumber, setActiveCandidateId,
+    setBatchMode, setType, setSignatureColor, setOutputQuality, setLastCropArea, setUploadedFile, setToneAdjustments,
+  ]);
+
+  // Cropper aspect ratio: the photo area left beside the name/date band
+  const captionLineCount = addDate ? caption.lines.length : 0;
+  const aspectRatio = currentSpec
+    ? getImageAspect(currentSpec.widthPx, currentSpec.heightPx, selectedType === 'photo' ? captionLineCount : 0)
+    : 1;
 
   // Prevent hydration mismatch
   if (!mounted) {
@@ -239,6 +671,16 @@ export default function HomePage() {
           </div>
           
           <div className="flex items-center gap-2">
+            {/* Candidate Workspace */}
+            <button
+              onClick={() => setShowWorkspace(true)}
+              className="relative p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/80 hover:bg-slate-200 dark:hover:bg-slate-700/80 transition-all duration-300 hover:scale-110 active:scale-95 dark:ring-1 dark:ring-white/10"
+              aria-label="Open candidate workspace"
+              title="Candidate workspace"
+            >
+              <Users className={`w-5 h-5 ${activeCandidateId ? 'text-blue-500 dark:text-blue-400' : 'text-slate-500 dark:text-slate-400'}`} />
+            </button>
+
             {/* Dark Mode Toggle */}
             <button
               onClick={() => setDarkMode(!darkMode)}
@@ -317,15 +759,56 @@ export default function HomePage() {
               customDimensions={customDimensions}
               onCustomDimensionsChange={setCustomDimensions}
               isCustomMode={isCustomMode}
+              userPresets={userPresets}
             />
+
+            {/* User preset library - save a new notification's specs once */}
+            <div className="mt-5">
+              <UserPresetManager
+                presets={userPresets}
+                selectedPresetId={selectedPreset?.id ?? null}
+                seedSpec={seedSpec}
+                onSelect={setPreset}
+                onSave={saveUserPreset}
+                onDelete={deleteUserPreset}
+                onImport={importUserPresets}
+              />
+            </div>
             
+            {/* Batch Mode Toggle - every document of the preset in one go */}
+            {selectedPreset && (
+              <div className="mt-5 flex items-center justify-between p-4 bg-gradient-to-r from-violet-50 to-indigo-50 dark:from-violet-500/10 dark:to-indigo-500/10 rounded-xl border border-violet-100/80 dark:border-violet-400/20 transition-all duration-300 hover:border-violet-200 dark:hover:border-violet-400/30">
+                <div>
+                  <p className="font-semibold text-slate-800 dark:text-white">Batch Mode</p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5">
+                    Prepare the photo, signature and other documents together
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={isBatchMode}
+                  onClick={() => setBatchMode(!isBatchMode)}
+                  className={`relative inline-flex h-7 w-12 items-center rounded-full transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 ${
+                    isBatchMode ? 'bg-gradient-to-r from-violet-500 to-indigo-500 shadow-lg shadow-violet-500/30' : 'bg-slate-300 dark:bg-slate-600'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform duration-300 ${
+                      isBatchMode ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            )}
+
             {/* Date Toggle - always show for photos */}
-            {selectedType === 'photo' && (
+            {(selectedType === 'photo' || isBatchMode) && (
               <div className="mt-5 flex items-center justify-between p-4 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-500/10 dark:to-indigo-500/10 rounded-xl border border-blue-100/80 dark:border-blue-400/20 transition-all duration-300 hover:border-blue-200 dark:hover:border-blue-400/30">
                 <div>
-                  <p className="font-semibold text-slate-800 dark:text-white">Add Date Stamp</p>
+                  <p className="font-semibold text-slate-800 dark:text-white">Add Name / Date Band</p>
                   <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5">
-                    Adds current date to photo {currentSpec?.dateFormat && <span className="text-blue-600 dark:text-blue-400 font-medium">(recommended)</span>}
+                    Prints your name and photo date on the photo {currentSpec?.dateFormat && <span className="text-blue-600 dark:text-blue-400 font-medium">(recommended)</span>}
                   </p>
                 </div>
                 <button
@@ -346,18 +829,63 @@ export default function HomePage() {
               </div>
             )}
 
+            {/* Caption Settings - shown while the band is enabled */}
+            {(selectedType === 'photo' || isBatchMode) && addDate && (
+              <div className="mt-3 p-4 bg-gradient-to-r from-blue-50/60 to-indigo-50/60 dark:from-blue-500/5 dark:to-indigo-500/5 rounded-xl border border-blue-100/60 dark:border-blue-400/10 animate-fade-in">
+                <CaptionSettingsPanel
+                  settings={captionSettings}
+                  onChange={setCaptionSettings}
+                  candidateName={candidateName}
+                  onCandidateNameChange={setCandidateName}
+                  captureDate={captureDateValue}
+                  previewLines={caption.lines}
+                />
+              </div>
+            )}
+
+            {/* Background Toggle - photos whose preset specifies a background */}
+            {backgroundToggleColor && (
+              <div className="mt-5 flex items-center justify-between p-4 bg-gradient-to-r from-sky-50 to-cyan-50 dark:from-sky-500/10 dark:to-cyan-500/10 rounded-xl border border-sky-100/80 dark:border-sky-400/20 transition-all duration-300 hover:border-sky-200 dark:hover:border-sky-400/30">
+                <div>
+                  <p className="font-semibold text-slate-800 dark:text-white">Replace Background</p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5">
+                    Repaints the wall behind you <span className="text-sky-600 dark:text-sky-400 font-medium">{isBatchMode ? selectedPreset?.specs.photo?.background : currentSpec?.background}</span>, as the exam requires
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={replaceBackground}
+                  onClick={() => setReplaceBackground(!replaceBackground)}
+                  className={`relative inline-flex h-7 w-12 items-center rounded-full transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 ${
+                    replaceBackground ? 'bg-gradient-to-r from-sky-500 to-cyan-500 shadow-lg shadow-sky-500/30' : 'bg-slate-300 dark:bg-slate-600'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform duration-300 ${
+                      replaceBackground ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            )}
+
             {/* Signature Color Picker - show for signatures (hide if result exists, shown in result section instead) */}
-            {selectedType === 'signature' && !processedResult && (
+            {selectedType === 'signature' && !processedResult && !isBatchMode && (
               <div className="mt-5 p-4 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-500/10 dark:to-pink-500/10 rounded-xl border border-purple-100/80 dark:border-purple-400/20 transition-all duration-300 hover:border-purple-200 dark:hover:border-purple-400/30 animate-fade-in">
                 <SignatureColorPicker
                   selectedColor={signatureColor}
                   onColorChange={setSignatureColor}
+                  cleanup={signatureCleanup}
+                  onCleanupChange={setSignatureCleanup}
+                  previewImageUrl={uploadedImageUrl}
+                  previewCropArea={lastCropArea}
                 />
               </div>
             )}
 
             {/* Quality Slider - show when preset is selected and no result yet */}
-            {selectedPreset && !processedResult && (
+            {selectedPreset && !processedResult && !isBatchMode && (
               <div className="mt-5">
                 <QualitySlider
                   value={outputQuality}
@@ -365,70 +893,176 @@ export default function HomePage() {
                 />
               </div>
             )}
+
+            {/* Fit Mode - how the crop fills the photo area, single and batch */}
+            {selectedPreset && !processedResult && (
+              <div className="mt-5">
+                <FitModeSettings
+                  settings={fitSettings}
+                  onChange={setFitSettings}
+                  disabled={isBatchProcessing}
+                />
+              </div>
+            )}
+
+            {/* Resizing - downscaling filter and sharpening, single and batch */}
+            {selectedPreset && !processedResult && (
+              <div className="mt-5">
+                <ResamplingSettings
+                  settings={resampleSettings}
+                  onChange={setResampleSettings}
+                  documentType={isBatchMode ? 'photo' : selectedType}
+                  disabled={isBatchProcessing}
+                />
+              </div>
+            )}
+
+            {/* JPEG Encoder - applies to JPEG and PDF outputs, single and batch */}
+            {selectedPreset && !processedResult && (
+              <div className="mt-5">
+                <JpegEncoderSettings
+                  settings={jpegSettings}
+                  onChange={setJpegSettings}
+                  disabled={isBatchProcessing}
+                />
+              </div>
+            )}
           </section>
 
+          {/* Batch Queue - replaces the single upload/result flow */}
+          {selectedPreset && isBatchMode && (
+            <section className="card relative z-10 animate-slide-up delay-150 dark:bg-slate-800/50 dark:border-slate-700/30 dark:ring-1 dark:ring-white/5">
+              <BatchQueue
+                items={batchItems}
+                onUpload={handleBatchUpload}
+                onCrop={setBatchCropItemId}
+                onItemChange={updateBatchItem}
+                onProcessAll={processBatch}
+                onCancel={cancelBatch}
+                onDownloadItem={handleBatchDownload}
+                onDownloadAll={handleBatchDownloadAll}
+                isProcessing={isBatchProcessing}
+                exportSettings={
+                  <FileNameTemplateInput
+                    value={fileNameTemplate}
+                    onChange={setFileNameTemplate}
+                    preview={fileNamePreview}
+                  />
+                }
+              />
+            </section>
+          )}
+
           {/* Upload Section */}
-          {selectedPreset && !processedResult && (
+          {selectedPreset && !processedResult && !isBatchMode && (
             <section className="card relative z-10 animate-slide-up delay-150 dark:bg-slate-800/50 dark:border-slate-700/30 dark:ring-1 dark:ring-white/5">
               <h2 className="text-lg font-semibold text-slate-800 dark:text-white mb-5 flex items-center gap-2">
                 <span className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-500 flex items-center justify-center text-white text-sm font-bold shadow-lg shadow-blue-500/25">2</span>
-                Upload Your {selectedType === 'photo' ? 'Photo' : 'Signature'}
+                {selectedType === 'photo'
+                  ? photoInput === 'camera' ? 'Take Your Photo' : 'Upload Your Photo'
+                  : signatureInput === 'draw' ? 'Draw Your Signature' : 'Upload Your Signature'}
               </h2>
-              <FileUpload onFileSelect={handleFileSelect} />
+              {selectedType === 'photo' && (
+                <div className="flex gap-1 p-1 mb-5 bg-slate-100 dark:bg-slate-800/60 rounded-lg border border-slate-200 dark:border-slate-700/50">
+                  {(['upload', 'camera'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setPhotoInput(mode)}
+                      className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-md transition-all duration-200 ${
+                        photoInput === mode
+                          ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+                          : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+                      }`}
+                    >
+                      {mode === 'upload' ? <Upload className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+                      {mode === 'upload' ? 'Upload Image' : 'Use Camera'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedType === 'signature' && (
+                <div className="flex gap-1 p-1 mb-5 bg-slate-100 dark:bg-slate-800/60 rounded-lg border border-slate-200 dark:border-slate-700/50">
+                  {(['upload', 'draw'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setSignatureInput(mode)}
+                      className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-md transition-all duration-200 ${
+                        signatureInput === mode
+                          ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+                          : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+                      }`}
+                    >
+                      {mode === 'upload' ? <Upload className="w-4 h-4" /> : <PenLine className="w-4 h-4" />}
+                      {mode === 'upload' ? 'Upload Image' : 'Draw Signature'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedType === 'signature' && signatureInput === 'draw' && currentSpec ? (
+                <SignaturePad
+                  aspectRatio={currentSpec.widthPx / currentSpec.heightPx}
+                  onComplete={handleSignatureDrawn}
+                />
+              ) : selectedType === 'photo' && photoInput === 'camera' && currentSpec ? (
+                <CameraCapture
+                  spec={currentSpec}
+                  framing={currentSpec.faceFraming ?? DEFAULT_FACE_FRAMING}
+                  onCapture={handleFileSelect}
+                />
+              ) : (
+                <FileUpload onFileSelect={handleFileSelect} />
+              )}
             </section>
           )}
 
           {/* Result Section */}
-          {processedResult && currentSpec && uploadedFile && (
+          {processedResult && currentSpec && uploadedFile && !isBatchMode && (
             <section className="card animate-fade-in-scale dark:bg-slate-800/50 dark:border-slate-700/30 dark:ring-1 dark:ring-white/5">
               {/* Show color picker for signatures even after processing */}
               {selectedType === 'signature' && (
                 <div className="mb-6 p-4 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-500/10 dark:to-pink-500/10 rounded-xl border border-purple-100/80 dark:border-purple-400/20">
                   <SignatureColorPicker
                     selectedColor={signatureColor}
-                    onColorChange={async (color) => {
+                    onColorChange={(color) => {
                       setSignatureColor(color);
                       // Reprocess with new color (pass color directly to avoid stale closure)
-                      if (lastCropArea && uploadedFile && currentSpec) {
-                        setIsReprocessing(true);
-                        try {
-                          // Pass the new color directly as 3rd argument to avoid state lag
-                          const result = await processImage(uploadedFile, lastCropArea, color);
-                          setProcessedResult(result);
-                        } catch (error) {
-                          console.error('Reprocessing failed:', error);
-                        } finally {
-                          setIsReprocessing(false);
-                        }
-                      }
+                      handleReprocess(color);
                     }}
+                    cleanup={isDrawnSignature ? undefined : signatureCleanup}
+                    onCleanupChange={setSignatureCleanup}
+                    previewImageUrl={uploadedImageUrl}
+                    previewCropArea={lastCropArea}
                   />
                   {isReprocessing && (
                     <p className="text-xs text-purple-600 dark:text-purple-400 mt-2 animate-pulse">
-                      ⏳ Reprocessing with new color...
+                      ⏳ Reprocessing signature...
                     </p>
                   )}
                 </div>
               )}
 
+              {/* Tonal adjustments - kept with the crop, so reprocessing keeps them */}
+              <div className="mb-6 p-4 bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800/50 dark:to-slate-700/30 rounded-xl border border-slate-200/80 dark:border-slate-600/30">
+                <ToneAdjustmentPanel
+                  adjustments={toneAdjustments}
+                  onChange={setToneAdjustments}
+                  onReset={resetToneAdjustments}
+                  previewImageUrl={uploadedImageUrl}
+                  previewCropArea={lastCropArea}
+                  disabled={isReprocessing}
+                />
+              </div>
+
               {/* Quality Slider - always show in result section for adjustments */}
               <div className="mb-6">
                 <QualitySlider
                   value={outputQuality}
-                  onChange={async (quality) => {
+                  onChange={(quality) => {
                     setOutputQuality(quality);
                     // Reprocess with new quality (pass quality directly to avoid stale closure)
-                    if (lastCropArea && uploadedFile && currentSpec) {
-                      setIsReprocessing(true);
-                      try {
-                        const result = await processImage(uploadedFile, lastCropArea, signatureColor, quality);
-                        setProcessedResult(result);
-                      } catch (error) {
-                        console.error('Reprocessing failed:', error);
-                      } finally {
-                        setIsReprocessing(false);
-                      }
-                    }
+                    handleReprocess(signatureColor, quality);
                   }}
                 />
                 {isReprocessing && (
@@ -438,11 +1072,23 @@ export default function HomePage() {
                 )}
               </div>
 
+              <div className="mb-6">
+                <FileNameTemplateInput
+                  value={fileNameTemplate}
+                  onChange={setFileNameTemplate}
+                  preview={fileNamePreview}
+                />
+              </div>
+
               <ResultDisplay
                 result={processedResult}
                 spec={currentSpec}
                 fileName={uploadedFile.name}
+                downloadName={getDownloadName(selectedType)}
+                sourceMetadata={sourceMetadata}
+                imageType={selectedType}
                 onReset={handleReset}
+                onDownloadZip={handleDownloadZip}
               />
             </section>
           )}
@@ -475,6 +1121,12 @@ export default function HomePage() {
         <ImageCropper
           imageUrl={uploadedImageUrl}
           aspectRatio={aspectRatio}
+          backgroundColor={activeBackgroundColor}
+          backgroundTolerance={backgroundTolerance}
+          onBackgroundToleranceChange={setBackgroundTolerance}
+          faceFraming={selectedType === 'photo' ? currentSpec?.faceFraming ?? DEFAULT_FACE_FRAMING : null}
+          trimPadding={selectedType === 'signature' ? signatureTrimPadding : null}
+          onTrimPaddingChange={setSignatureTrimPadding}
           onCropComplete={handleCropComplete}
           onCancel={() => {
             setShowCropper(false);
@@ -483,6 +1135,43 @@ export default function HomePage() {
         />
       )}
 
+      {/* Batch Cropper - aspect and framing come from the item's own spec */}
+      {batchCropItem?.imageUrl && (
+        <ImageCropper
+          imageUrl={batchCropItem.imageUrl}
+          aspectRatio={getImageAspect(
+            batchCropItem.spec.widthPx,
+            batchCropItem.spec.heightPx,
+            batchCropItem.kind === 'photo' ? captionLineCount : 0
+          )}
+          backgroundColor={batchCropItem.kind === 'photo' && batchPhotoSettings.replaceBackground ? batchPhotoBackground : null}
+          backgroundTolerance={backgroundTolerance}
+          onBackgroundToleranceChange={setBackgroundTolerance}
+          faceFraming={batchCropItem.kind === 'photo' ? batchCropItem.spec.faceFraming ?? DEFAULT_FACE_FRAMING : null}
+          trimPadding={batchCropItem.kind === 'signature' ? signatureTrimPadding : null}
+          onTrimPaddingChange={setSignatureTrimPadding}
+          onCropComplete={handleBatchCropComplete}
+          onCancel={() => setBatchCropItemId(null)}
+        />
+      )}
+
+      {/* Candidate Workspace */}
+      {showWorkspace && (
+        <CandidateWorkspace
+          candidateName={candidateName}
+          applicationNumber={applicationNumber}
+          onCandidateNameChange={setCandidateName}
+          onApplicationNumberChange={setApplicationNumber}
+          activeCandidateId={activeCandidateId}
+          canSave={!!selectedPreset && (isBatchMode ? batchItems.some((item) => item.file) : !!uploadedFile)}
+          onSave={handleSaveCandidate}
+          onOpen={handleOpenCandidate}
+          retentionDays={workspaceRetentionDays}
+          onRetentionChange={setWorkspaceRetentionDays}
+          onClose={() => setShowWorkspace(false)}
+        />
+      )}
+
       {/* Processing Overlay */}
       {processorState.step === 'processing' && (
         <ProcessingOverlay progress={processorState.progress} />
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Upload, Crop, Download, Loader2, CheckCircle, XCircle, Layers, Play, Square, FileArchive, Wand2 } from 'lucide-react';
+import type { BatchItem, ImageMetadata } from '@/types';
+import { prepareUpload } from '@/lib/orientation';
+import { ACCEPTED_IMAGE_TYPES } from '@/lib/imageDecoder';
+import { FORMAT_INFO } from '@/lib/outputFormats';
+import { SIGNATURE_COLORS } from './SignatureColorPicker';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onUpload: (id: string, file: File, imageUrl: string, metadata: ImageMetadata) => void;
+  onCrop: (id: string) => void;
+  onItemChange: (id: string, changes: Partial<BatchItem>) => void;
+  onProcessAll: () => void;
+  onCancel: () => void;
+  onDownloadItem: (item: BatchItem) => void;
+  onDownloadAll: () => void;
+  isProcessing: boolean;
+  exportSettings?: React.ReactNode; // Rendered above the actions (file name template)
+}
+
+function BatchItemCard({
+  item,
+  onUpload,
+  onCrop,
+  onItemChange,
+  onDownloadItem,
+}: {
+  item: BatchItem;
+  onUpload: BatchQueueProps['onUpload'];
+  onCrop: BatchQueueProps['onCrop'];
+  onItemChange: BatchQueueProps['onItemChange'];
+  onDownloadItem: BatchQueueProps['onDownloadItem'];
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { spec, result } = item;
+  const isWithinSizeRange = result ? result.sizeKB >= spec.minSizeKB && result.sizeKB <= spec.maxSizeKB : false;
+  const thumbnail = result?.previewUrl ?? item.imageUrl;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // Multi-page TIFFs use their first page here
+      const upload = await prepareUpload(file);
+      onUpload(item.id, upload.file, upload.imageUrl, upload.metadata);
+    } catch (error) {
+      onItemChange(item.id, { status: 'error', error: error instanceof Error ? error.message : 'Could not read this image' });
+    }
+  };
+
+  return (
+    <div className="flex gap-4 p-4 bg-white dark:bg-slate-800/80 rounded-xl border border-slate-100 dark:border-slate-700/50">
+      {/* Thumbnail / upload target */}
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="relative w-20 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-700/60 flex items-center justify-center ring-1 ring-slate-200 dark:ring-white/10 hover:ring-blue-400 transition-all"
+        title={item.file ? 'Replace file' : 'Upload file'}
+      >
+        {thumbnail ? (
+          <img src={thumbnail} alt={item.label} className="w-full h-full object-contain bg-white" />
+        ) : (
+          <Upload className="w-6 h-6 text-slate-400" />
+        )}
+        {item.status === 'processing' && (
+          <div className="absolute inset-0 bg-slate-900/60 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 text-white animate-spin" />
+          </div>
+        )}
+      </button>
+      <input ref={inputRef} type="file" accept={ACCEPTED_IMAGE_TYPES} onChange={handleFile} className="hidden" />
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-semibold text-slate-800 dark:text-white truncate">{item.label}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {spec.widthPx} × {spec.heightPx} px • {spec.minSizeKB}-{spec.maxSizeKB} KB
+            </p>
+          </div>
+          {item.status === 'done' && result && (
+            <span className={`flex items-center gap-1 text-xs font-semibold ${isWithinSizeRange ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+              {isWithinSizeRange ? <CheckCircle className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
+              {result.sizeKB.toFixed(1)} KB
+            </span>
+          )}
+        </div>
+
+        {item.status === 'processing' && (
+          <div className="h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all duration-300" style={{ width: `${item.progress}%` }} />
+          </div>
+        )}
+        {item.status === 'error' && item.error && (
+          <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>
+        )}
+
+        {item.file && (
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => onCrop(item.id)}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-lg bg-slate-100 dark:bg-slate-700/60 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 transition-colors"
+            >
+              <Crop className="w-3.5 h-3.5" />
+              {item.cropArea ? 'Adjust Crop' : 'Crop'}
+            </button>
+
+            {/* Ink colour for signatures and handwritten extras */}
+            {item.kind !== 'photo' && (
+              <div className="flex items-center gap-1">
+                {SIGNATURE_COLORS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    title={option.label}
+                    onClick={() => onItemChange(item.id, { signatureColor: option.color })}
+                    className={`w-5 h-5 rounded-full ring-2 transition-all ${
+                      item.signatureColor === option.color ? 'ring-blue-500 scale-110' : 'ring-transparent hover:ring-slate-300'
+                    } ${option.color ? '' : 'bg-gradient-to-br from-slate-200 to-slate-400'}`}
+                    style={option.color ? { backgroundColor: option.color } : undefined}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* One-click tone fixes; sliders set in the single flow travel with saved records */}
+            {([
+              { key: 'autoLevels', label: 'Levels', title: 'Auto levels' },
+              { key: 'autoWhiteBalance', label: 'WB', title: 'Auto white balance' },
+            ] as const).map(({ key, label, title }) => (
+              <button
+                key={key}
+                type="button"
+                title={title}
+                aria-pressed={item.tone[key]}
+                onClick={() => onItemChange(item.id, { tone: { ...item.tone, [key]: !item.tone[key] } })}
+                className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-lg transition-colors ${
+                  item.tone[key]
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-slate-100 dark:bg-slate-700/60 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60'
+                }`}
+              >
+                <Wand2 className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            ))}
+
+            <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+              Quality
+              <input
+                type="range"
+                min={30}
+                max={100}
+                step={5}
+                value={item.quality}
+                onChange={(e) => onItemChange(item.id, { quality: Number(e.target.value) })}
+                className="w-20 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+              <span className="w-6 text-right font-medium">{item.quality}</span>
+            </label>
+
+            {item.status === 'done' && result && (
+              <button
+                type="button"
+                onClick={() => onDownloadItem(item)}
+                className="ml-auto flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-lg bg-blue-50 dark:bg-blue-500/15 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-500/25 transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" />
+                {FORMAT_INFO[result.format].label}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function BatchQueue({
+  items,
+  onUpload,
+  onCrop,
+  onItemChange,
+  onProcessAll,
+  onCancel,
+  onDownloadItem,
+  onDownloadAll,
+  isProcessing,
+  exportSettings,
+}: BatchQueueProps) {
+  const uploadedCount = items.filter((item) => item.file).length;
+  const doneCount = items.filter((item) => item.status === 'done').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+          <span className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-500 flex items-center justify-center text-white shadow-lg shadow-blue-500/25">
+            <Layers className="w-4 h-4" />
+          </span>
+          Batch Queue
+        </h2>
+        <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+          {uploadedCount}/{items.length} uploaded • {doneCount} ready
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item) => (
+          <BatchItemCard
+            key={item.id}
+            item={item}
+            onUpload={onUpload}
+            onCrop={onCrop}
+            onItemChange={onItemChange}
+            onDownloadItem={onDownloadItem}
+          />
+        ))}
+      </div>
+
+      {exportSettings}
+
+      <div className="flex gap-3 pt-2">
+        {isProcessing ? (
+          <button
+            onClick={onCancel}
+            className="flex-1 flex items-center justify-center gap-2 p-3.5 bg-slate-100 dark:bg-slate-800/60 text-slate-700 dark:text-slate-300 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-700/60 transition-all duration-300 font-semibold dark:ring-1 dark:ring-white/10"
+          >
+            <Square className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={onProcessAll}
+            disabled={uploadedCount === 0}
+            className="flex-1 flex items-center justify-center gap-2 p-3.5 bg-slate-100 dark:bg-slate-800/60 text-slate-700 dark:text-slate-300 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-700/60 transition-all duration-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed dark:ring-1 dark:ring-white/10"
+          >
+            <Play className="w-4 h-4" />
+            <span>Process All</span>
+          </button>
+        )}
+        <button
+          onClick={onDownloadAll}
+          disabled={doneCount === 0 || isProcessing}
+          className="flex-1 flex items-center justify-center gap-2 p-3.5 bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white rounded-xl transition-all duration-300 font-semibold shadow-lg shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
+        >
+          <FileArchive className="w-4 h-4" />
+          <span>Download ZIP</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BatchQueue;
@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, CheckCircle2, AlertTriangle, XCircle, ImagePlus, RefreshCw } from 'lucide-react';
+import type { ComplianceCheck, ComplianceStatus, FaceFraming, ImageMetadata, ImageSpec } from '@/types';
+import { checkBackground, checkExposure, clampRegion } from '@/lib/complianceChecker';
+import { DEFAULT_FACE_FRAMING, getFramingGuide, type FramingGuide } from '@/lib/faceFraming';
+import { prepareUpload } from '@/lib/orientation';
+
+interface CameraCaptureProps {
+  spec: ImageSpec; // Frame aspect ratio and background rule
+  framing?: FaceFraming;
+  onCapture: (file: File, imageUrl: string, metadata: ImageMetadata) => void;
+}
+
+type CameraState = 'starting' | 'live' | 'stopped' | 'unavailable';
+type Countdown = 0 | 3 | 5;
+
+const COUNTDOWN_OPTIONS: { value: Countdown; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 3, label: '3s' },
+  { value: 5, label: '5s' },
+];
+
+const FEEDBACK_INTERVAL = 300; // ms between live checks
+const FEEDBACK_WIDTH = 160; // Width the frame is analysed at
+const CAPTURE_QUALITY = 0.95;
+
+const STATUS_STYLES: Record<ComplianceStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-emerald-400' },
+  warn: { icon: AlertTriangle, className: 'text-amber-400' },
+  fail: { icon: XCircle, className: 'text-red-400' },
+};
+
+/**
+ * Part of the video shown by an object-cover box with the frame's aspect ratio
+ */
+function getVisibleRegion(video: HTMLVideoElement, aspectRatio: number) {
+  const { videoWidth, videoHeight } = video;
+  if (videoWidth / videoHeight > aspectRatio) {
+    const width = videoHeight * aspectRatio;
+    return { x: (videoWidth - width) / 2, y: 0, width, height: videoHeight };
+  }
+  const height = videoWidth / aspectRatio;
+  return { x: 0, y: (videoHeight - height) / 2, width: videoWidth, height };
+}
+
+/**
+ * Head-and-shoulders outline in a 0-1 box (x in frame widths, y in frame heights)
+ */
+function silhouettePath(guide: FramingGuide, aspectRatio: number): string {
+  const headRx = guide.headWidth / aspectRatio / 2;
+  const headRy = (guide.chinY - guide.crownY) / 2;
+  const headCy = guide.crownY + headRy;
+  const neckTop = guide.chinY - headRy * 0.15;
+  const neckHalf = headRx * 0.55;
+  const shoulderY = guide.chinY + headRy * 0.35;
+  const shoulderHalf = headRx * 2.6;
+
+  return [
+    `M ${0.5 - headRx} ${headCy}`,
+    `a ${headRx} ${headRy} 0 1 1 ${headRx * 2} 0`,
+    `a ${headRx} ${headRy} 0 1 1 ${-headRx * 2} 0`,
+    `M ${0.5 - neckHalf} ${neckTop}`,
+    `L ${0.5 - neckHalf} ${shoulderY}`,
+    `Q ${0.5 - shoulderHalf} ${shoulderY} ${0.5 - shoulderHalf} 1.05`,
+    `M ${0.5 + neckHalf} ${neckTop}`,
+    `L ${0.5 + neckHalf} ${shoulderY}`,
+    `Q ${0.5 + shoulderHalf} ${shoulderY} ${0.5 + shoulderHalf} 1.05`,
+  ].join(' ');
+}
+
+/**
+ * Live camera capture for photos
+ * Shows a head-and-shoulders guide placed by the preset's face framing,
+ * checks brightness and the backdrop a few times a second and takes the shot
+ * after an optional countdown. The full camera frame goes to the cropper;
+ * devices without a usable camera get the system camera / file picker instead.
+ */
+export function CameraCapture({ spec, framing = DEFAULT_FACE_FRAMING, onCapture }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+  const [cameraState, setCameraState] = useState<CameraState>('starting');
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<ComplianceCheck[]>([]);
+  const [countdownSetting, setCountdownSetting] = useState<Countdown>(3);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [session, setSession] = useState(0); // Bumped to reopen the camera after a shot
+
+  const aspectRatio = spec.widthPx / spec.heightPx;
+  const guide = getFramingGuide(framing);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // Start the front camera; release it when leaving camera mode
+  useEffect(() => {
+    let cancelled = false;
+    setCameraState('starting');
+    setCameraError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraState('unavailable');
+      setCameraError('This browser cannot open the camera here');
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(async (stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = stream;
+          await video.play().catch(() => undefined);
+        }
+        setCameraState('live');
+        console.log('📷 Camera started:', stream.getVideoTracks()[0]?.label);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.warn('📷 Camera unavailable:', err);
+        setCameraState('unavailable');
+        setCameraError(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'Camera access was blocked'
+            : 'No camera could be opened'
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [session, stopStream]);
+
+  // Live brightness and backdrop checks on the framed area
+  useEffect(() => {
+    if (cameraState !== 'live') return;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+
+      const region = getVisibleRegion(video, aspectRatio);
+      canvas.width = FEEDBACK_WIDTH;
+      canvas.height = Math.max(1, Math.round(FEEDBACK_WIDTH / aspectRatio));
+      ctx.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+      const headWidth = guide.headWidth * canvas.height;
+      const headRegion = clampRegion({
+        x: (canvas.width - headWidth) / 2,
+        y: Math.max(0, guide.crownY * canvas.height),
+        width: headWidth,
+        height: (guide.chinY - Math.max(0, guide.crownY)) * canvas.height,
+      }, canvas.width, canvas.height);
+      setFeedback([checkExposure(imageData, headRegion), checkBackground(imageData, spec)]);
+    }, FEEDBACK_INTERVAL);
+
+    return () => window.clearInterval(timer);
+  }, [cameraState, aspectRatio, guide.headWidth, guide.crownY, guide.chinY, spec]);
+
+  const capture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setIsCapturing(true);
+
+    try {
+      // The preview is mirrored; the capture is not, so text and partings read correctly
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not capture the photo');
+      ctx.drawImage(video, 0, 0);
+
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', CAPTURE_QUALITY));
+      if (!blob) throw new Error('Could not capture the photo');
+
+      const now = new Date();
+      const file = new File([blob], `camera-${now.getTime()}.jpg`, { type: 'image/jpeg', lastModified: now.getTime() });
+      const metadata: ImageMetadata = {
+        hasExif: false,
+        orientation: 1,
+        captureDate: now.toISOString(),
+        camera: streamRef.current?.getVideoTracks()[0]?.label || null,
+        hasGps: false,
+      };
+      console.log(`📸 Captured ${canvas.width}x${canvas.height} from camera`);
+      // Release the camera while the shot is cropped
+      stopStream();
+      setCameraState('stopped');
+      setFeedback([]);
+      onCapture(file, URL.createObjectURL(file), metadata);
+    } catch (err) {
+      setCameraError(err instanceof Error ? err.message : 'Could not capture the photo');
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [onCapture, stopStream]);
+
+  // Countdown shutter: tick once a second, fire at zero
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      capture();
+      return;
+    }
+    const timer = window.setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [countdown, capture]);
+
+  const handleShutter = () => {
+    if (countdown !== null) {
+      setCountdown(null);
+      return;
+    }
+    if (countdownSetting === 0) capture();
+    else setCountdown(countdownSetting);
+  };
+
+  const handleFallbackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsCapturing(true);
+    try {
+      const upload = await prepareUpload(file);
+      onCapture(upload.file, upload.imageUrl, upload.metadata);
+    } catch (err) {
+      setCameraError(err instanceof Error ? err.message : 'Could not read this image');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  if (cameraState === 'unavailable') {
+    return (
+      <div className="w-full flex flex-col items-center gap-4 p-8 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700/50 text-center">
+        <div className="w-14 h-14 rounded-2xl bg-slate-100 dark:bg-slate-800/60 flex items-center justify-center">
+          <Camera className="w-7 h-7 text-slate-400" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">{cameraError}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            Take the photo with your device camera instead
+          </p>
+        </div>
+        <input
+          ref={fallbackInputRef}
+          type="file"
+          accept="image/*"
+          capture="user"
+          onChange={handleFallbackFile}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fallbackInputRef.current?.click()}
+          disabled={isCapturing}
+          className="flex items-center gap-2 px-5 py-2.5 text-sm font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-500 rounded-xl shadow-lg shadow-blue-500/25 hover:from-blue-600 hover:to-indigo-600 transition-all disabled:opacity-50"
+        >
+          {isCapturing ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+          Take or Choose Photo
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full space-y-4">
+      <div
+        className="relative mx-auto w-full max-w-sm overflow-hidden rounded-2xl bg-slate-900"
+        style={{ aspectRatio: `${aspectRatio}` }}
+      >
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className="absolute inset-0 w-full h-full object-cover -scale-x-100"
+        />
+
+        {/* Framing guide: silhouette and eye line from the preset's face framing */}
+        <svg
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          className="pointer-events-none absolute inset-0 w-full h-full"
+        >
+          <path
+            d={silhouettePath(guide, aspectRatio)}
+            fill="none"
+            stroke="white"
+            strokeOpacity={0.85}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+          <line
+            x1={0.08}
+            x2={0.92}
+            y1={guide.eyeY}
+            y2={guide.eyeY}
+            stroke="#38bdf8"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        <span
+          className="pointer-events-none absolute right-2 -translate-y-full text-[10px] font-semibold text-sky-300"
+          style={{ top: `${guide.eyeY * 100}%` }}
+        >
+          Eyes
+        </span>
+
+        {cameraState === 'starting' && (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 text-slate-300">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span className="text-sm font-medium">Starting camera...</span>
+          </div>
+        )}
+
+        {cameraState === 'stopped' && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <button
+              type="button"
+              onClick={() => setSession((current) => current + 1)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-white/15 rounded-xl backdrop-blur-sm hover:bg-white/25 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Retake
+            </button>
+          </div>
+        )}
+
+        {countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+            <span key={countdown} className="text-7xl font-bold text-white drop-shadow-lg animate-fade-in-scale">
+              {countdown}
+            </span>
+          </div>
+        )}
+
+        {feedback.length > 0 && (
+          <div className="absolute inset-x-2 bottom-2 space-y-1">
+            {feedback.map((check) => {
+              const { icon: Icon, className } = STATUS_STYLES[check.status];
+              return (
+                <div
+                  key={check.id}
+                  className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-black/55 backdrop-blur-sm text-[11px] text-white"
+                >
+                  <Icon className={`w-3.5 h-3.5 flex-shrink-0 ${className}`} />
+                  <span className="font-semibold">{check.label}:</span>
+                  <span className="truncate opacity-90">{check.detail}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-3">
+        <div className="flex gap-1 p-1 bg-white/70 dark:bg-slate-800/60 rounded-lg border border-slate-200 dark:border-slate-700/50">
+          {COUNTDOWN_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setCountdownSetting(option.value)}
+              disabled={countdown !== null}
+              className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all duration-200 disabled:opacity-50 ${
+                countdownSetting === option.value
+                  ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={handleShutter}
+          disabled={cameraState !== 'live' || isCapturing}
+          className="flex items-center gap-2 px-5 py-2.5 text-sm font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-500 rounded-xl shadow-lg shadow-blue-500/25 hover:from-blue-600 hover:to-indigo-600 transition-all disabled:opacity-50"
+        >
+          {isCapturing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+          {countdown !== null ? 'Cancel' : 'Take Photo'}
+        </button>
+      </div>
+
+      {cameraError && (
+        <p className="text-sm text-red-600 dark:text-red-400 font-medium text-center">{cameraError}</p>
+      )}
+    </div>
+  );
+}
+
+export default CameraCapture;
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Users, X, Search, Save, Trash2, FolderOpen, Loader2, User, Hash, Clock } from 'lucide-react';
+import type { CandidateRecord } from '@/types';
+import {
+  listCandidates,
+  deleteCandidates,
+  purgeExpiredCandidates,
+  matchesCandidate,
+  supportsWorkspace,
+  RETENTION_OPTIONS,
+} from '@/lib/candidateWorkspace';
+
+interface CandidateWorkspaceProps {
+  candidateName: string;
+  applicationNumber: string;
+  onCandidateNameChange: (name: string) => void;
+  onApplicationNumberChange: (value: string) => void;
+  activeCandidateId: string | null;
+  canSave: boolean; // Something uploaded to save
+  onSave: () => Promise<void>;
+  onOpen: (record: CandidateRecord) => void;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onClose: () => void;
+}
+
+function formatUpdated(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Prefer the processed output; PDFs can't be shown in an <img>
+function getThumbnailBlob(record: CandidateRecord): Blob | null {
+  const doc = record.documents.find((d) => d.kind === 'photo') ?? record.documents[0];
+  if (!doc) return null;
+  return doc.processed && doc.processedFormat !== 'pdf' ? doc.processed : doc.original;
+}
+
+export function CandidateWorkspace({
+  candidateName,
+  applicationNumber,
+  onCandidateNameChange,
+  onApplicationNumberChange,
+  activeCandidateId,
+  canSave,
+  onSave,
+  onOpen,
+  retentionDays,
+  onRetentionChange,
+  onClose,
+}: CandidateWorkspaceProps) {
+  const [records, setRecords] = useState<CandidateRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  const refresh = useCallback(async () => {
+    if (!supportsWorkspace()) {
+      setError('This browser does not allow local storage of candidates');
+      setIsLoading(false);
+      return;
+    }
+    try {
+      await purgeExpiredCandidates(retentionDays);
+      const list = await listCandidates();
+      setRecords(list);
+      setSelected((current) => new Set(Array.from(current).filter((id) => list.some((r) => r.id === id))));
+      setError(null);
+    } catch (err) {
+      console.error('Workspace load failed:', err);
+      setError('Could not open the candidate workspace');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [retentionDays]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Object URLs for the list thumbnails, released when the list changes
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    records.forEach((record) => {
+      const blob = getThumbnailBlob(record);
+      if (blob) urls[record.id] = URL.createObjectURL(blob);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach((url) => URL.revokeObjectURL(url));
+  }, [records]);
+
+  const filtered = useMemo(() => records.filter((record) => matchesCandidate(record, query)), [records, query]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filtered.length > 0 && filtered.every((record) => selected.has(record.id));
+  const toggleAll = () => {
+    setSelected(allFilteredSelected ? new Set() : new Set(filtered.map((record) => record.id)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave();
+      await refresh();
+    } catch (err) {
+      console.error('Saving candidate failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not save this candidate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const ids = Array.from(selected);
+    if (ids.length === 0 || !window.confirm(`Delete ${ids.length} candidate(s) and their photos from this device?`)) return;
+    try {
+      await deleteCandidates(ids);
+      setSelected(new Set());
+      await refresh();
+    } catch (err) {
+      console.error('Deleting candidates failed:', err);
+      setError('Could not delete the selected candidates');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl ring-1 ring-slate-200 dark:ring-white/10 overflow-hidden animate-fade-in-scale"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-white/[0.06]">
+          <h2 className="text-lg font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+            <Users className="w-5 h-5 text-blue-500" />
+            Candidate Workspace
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            aria-label="Close workspace"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Current candidate */}
+        <div className="px-6 py-4 space-y-3 border-b border-slate-100 dark:border-white/[0.06] bg-slate-50/60 dark:bg-slate-800/30">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                value={candidateName}
+                onChange={(e) => onCandidateNameChange(e.target.value)}
+                placeholder="Candidate name"
+                className="w-full pl-10 pr-4 py-2.5 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+              />
+            </div>
+            <div className="relative">
+              <Hash className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                value={applicationNumber}
+                onChange={(e) => onApplicationNumberChange(e.target.value)}
+                placeholder="Application number"
+                className="w-full pl-10 pr-4 py-2.5 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+              />
+            </div>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isSaving || !candidateName.trim()}
+            className="w-full flex items-center justify-center gap-2 p-3 bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white rounded-xl transition-all duration-300 font-semibold shadow-lg shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>{activeCandidateId ? 'Update Candidate' : 'Save Current Candidate'}</span>
+          </button>
+          {!canSave && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">Upload a photo or signature to save this candidate.</p>
+          )}
+        </div>
+
+        {/* Search + bulk actions */}
+        <div className="px-6 pt-4 pb-3 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search name, application no. or exam..."
+              className="w-full pl-10 pr-4 py-2 text-sm rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+            />
+          </div>
+          <button
+            onClick={handleDelete}
+            disabled={selected.size === 0}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm font-semibold rounded-xl text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 hover:bg-red-100 dark:hover:bg-red-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete{selected.size > 0 ? ` (${selected.size})` : ''}
+          </button>
+        </div>
+
+        <div className="px-6 pb-3 flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={allFilteredSelected} onChange={toggleAll} className="accent-blue-500" />
+            Select all ({filtered.length})
+          </label>
+          <label className="flex items-center gap-2">
+            <Clock className="w-3.5 h-3.5" />
+            Auto-delete after
+            <select
+              value={retentionDays}
+              onChange={(e) => onRetentionChange(Number(e.target.value))}
+              className="px-2 py-1 text-xs font-medium rounded-lg border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error && (
+          <p className="mx-6 mb-3 p-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 rounded-xl">{error}</p>
+        )}
+
+        {/* Candidate list */}
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-2">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10 text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="py-10 text-center text-sm text-slate-500 dark:text-slate-400">
+              {records.length === 0 ? 'No saved candidates yet' : 'No candidates match your search'}
+            </p>
+          ) : (
+            filtered.map((record) => (
+              <div
+                key={record.id}
+                className={`flex items-center gap-3 p-3 rounded-xl border transition-colors ${
+                  record.id === activeCandidateId
+                    ? 'border-blue-300 dark:border-blue-500/40 bg-blue-50/60 dark:bg-blue-500/10'
+                    : 'border-slate-100 dark:border-slate-700/50 bg-white dark:bg-slate-800/60'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(record.id)}
+                  onChange={() => toggleSelected(record.id)}
+                  className="accent-blue-500"
+                  aria-label={`Select ${record.name}`}
+                />
+                <div className="w-10 h-12 flex-shrink-0 rounded-md overflow-hidden bg-slate-100 dark:bg-slate-700/60">
+                  {thumbnails[record.id] && (
+                    <img src={thumbnails[record.id]} alt="" className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-sm text-slate-800 dark:text-white truncate">{record.name || 'Unnamed'}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                    {record.applicationNumber && <span className="font-mono">{record.applicationNumber} • </span>}
+                    {record.preset.label} • {record.documents.length} file(s)
+                  </p>
+                  <p className="text-[11px] text-slate-400 dark:text-slate-500">Updated {formatUpdated(record.updatedAt)}</p>
+                </div>
+                <button
+                  onClick={() => onOpen(record)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-slate-100 dark:bg-slate-700/60 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 transition-colors"
+                >
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Open
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CandidateWorkspace;
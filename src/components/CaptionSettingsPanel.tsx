@@ -0,0 +1,177 @@
+'use client';
+
+import React from 'react';
+import { CalendarDays, User } from 'lucide-react';
+import type { CaptionSettings, CaptionLines, CaptionPosition, CaptionDateSource } from '@/types';
+import { CAPTION_DATE_FORMATS } from '@/lib/captionBand';
+
+interface CaptionSettingsPanelProps {
+  settings: CaptionSettings;
+  onChange: (settings: Partial<CaptionSettings>) => void;
+  candidateName: string;
+  onCandidateNameChange: (name: string) => void;
+  captureDate: Date | null;
+  previewLines: string[];
+}
+
+const POSITION_OPTIONS: { value: CaptionPosition; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+const LINE_OPTIONS: { value: CaptionLines; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'name', label: 'Name' },
+  { value: 'name-date', label: 'Name + Date' },
+];
+
+const DATE_SOURCE_OPTIONS: { value: CaptionDateSource; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'exif', label: 'Photo Taken' },
+  { value: 'manual', label: 'Manual' },
+];
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex gap-1 p-1 bg-white/70 dark:bg-slate-800/60 rounded-lg border border-slate-200 dark:border-slate-700/50">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={`flex-1 px-2 py-1.5 text-xs font-semibold rounded-md transition-all duration-200 ${
+            value === option.value
+              ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+              : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function CaptionSettingsPanel({
+  settings,
+  onChange,
+  candidateName,
+  onCandidateNameChange,
+  captureDate,
+  previewLines,
+}: CaptionSettingsPanelProps) {
+  const needsName = settings.lines !== 'date';
+  const needsDate = settings.lines !== 'name';
+
+  return (
+    <div className="space-y-4">
+      {needsName && (
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+            Candidate Name
+          </label>
+          <div className="relative">
+            <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              value={candidateName}
+              onChange={(e) => onCandidateNameChange(e.target.value)}
+              placeholder="As printed in your application"
+              className="w-full pl-10 pr-4 py-2.5 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+            Position
+          </label>
+          <SegmentedControl
+            options={POSITION_OPTIONS}
+            value={settings.position}
+            onChange={(position) => onChange({ position })}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+            Show
+          </label>
+          <SegmentedControl
+            options={LINE_OPTIONS}
+            value={settings.lines}
+            onChange={(lines) => onChange({ lines })}
+          />
+        </div>
+      </div>
+
+      {needsDate && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+              Date Format
+            </label>
+            <select
+              value={settings.dateFormat}
+              onChange={(e) => onChange({ dateFormat: e.target.value as CaptionSettings['dateFormat'] })}
+              className="w-full px-3 py-2 text-sm font-medium rounded-lg border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {CAPTION_DATE_FORMATS.map((format) => (
+                <option key={format} value={format}>{format}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+              Date Source
+            </label>
+            <SegmentedControl
+              options={DATE_SOURCE_OPTIONS}
+              value={settings.dateSource}
+              onChange={(dateSource) => onChange({ dateSource })}
+            />
+          </div>
+        </div>
+      )}
+
+      {needsDate && settings.dateSource === 'manual' && (
+        <input
+          type="date"
+          value={settings.manualDate ?? ''}
+          onChange={(e) => onChange({ manualDate: e.target.value || null })}
+          className="w-full px-4 py-2.5 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+        />
+      )}
+
+      {needsDate && settings.dateSource === 'exif' && !captureDate && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          No capture date found in the photo yet - today's date will be used.
+        </p>
+      )}
+
+      {/* Band Preview */}
+      <div className="flex items-center gap-3 p-3 bg-white dark:bg-slate-800/80 rounded-xl border border-slate-100 dark:border-slate-700/50">
+        <CalendarDays className="w-4 h-4 text-blue-500 flex-shrink-0" />
+        <div className="flex-1 text-center font-bold text-sm text-slate-800 dark:text-slate-200 leading-tight">
+          {previewLines.length > 0
+            ? previewLines.map((line, index) => <div key={index}>{line}</div>)
+            : <span className="text-xs font-medium text-slate-400">Enter your name to fill the band</span>}
+        </div>
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-400">
+          {settings.position}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default CaptionSettingsPanel;
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { FileText } from 'lucide-react';
+
+interface FileNameTemplateInputProps {
+  value: string;
+  onChange: (template: string) => void;
+  preview: string; // Resolved name of the first file, with extension
+}
+
+const PLACEHOLDERS = ['{name}', '{preset}', '{type}', '{date}'];
+
+export function FileNameTemplateInput({ value, onChange, preview }: FileNameTemplateInputProps) {
+  return (
+    <div>
+      <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+        File Name Template
+      </label>
+      <div className="relative">
+        <FileText className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          spellCheck={false}
+          className="w-full pl-10 pr-4 py-2.5 text-sm font-mono rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+        />
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-1.5">
+        {PLACEHOLDERS.map((placeholder) => (
+          <button
+            key={placeholder}
+            type="button"
+            onClick={() => onChange(`${value}${value && !/[_\-. ]$/.test(value) ? '_' : ''}${placeholder}`)}
+            className="px-2 py-0.5 text-xs font-mono rounded-md bg-slate-100 dark:bg-slate-700/60 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 transition-colors"
+          >
+            {placeholder}
+          </button>
+        ))}
+        <span className="ml-auto text-xs text-slate-500 dark:text-slate-400 truncate">
+          e.g. <span className="font-mono font-medium text-slate-700 dark:text-slate-300">{preview}</span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default FileNameTemplateInput;
@@ -1,32 +1,56 @@
 'use client';
 
 import React, { useCallback } from 'react';
-import { Upload, Image as ImageIcon } from 'lucide-react';
+import { Upload, Image as ImageIcon, Loader2 } from 'lucide-react';
 import { useAppStore } from '@/store/useAppStore';
+import type { ImageMetadata } from '@/types';
+import { prepareUpload } from '@/lib/orientation';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  detectImageFormat,
+  listImagePages,
+  type ImageFormat,
+  type ImagePage,
+  type PageRegion,
+} from '@/lib/imageDecoder';
+import { PagePicker } from './PagePicker';
+import { RegionPicker } from './RegionPicker';
 
 interface FileUploadProps {
-  onFileSelect: (file: File, imageUrl: string) => void;
+  onFileSelect: (file: File, imageUrl: string, metadata: ImageMetadata) => void;
   accept?: string;
   maxSizeMB?: number;
 }
 
 export function FileUpload({ 
   onFileSelect, 
-  accept = 'image/jpeg,image/png,image/webp',
+  accept = ACCEPTED_IMAGE_TYPES,
   maxSizeMB = 10 
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = React.useState(false);
+  const [pageChoice, setPageChoice] = React.useState<{ file: File; pages: ImagePage[]; format: ImageFormat } | null>(null);
+  const [regionPage, setRegionPage] = React.useState<ImagePage | null>(null);
   const inputRef = React.useRef<HTMLInputElement>(null);
 
-  const validateAndProcessFile = useCallback((file: File) => {
-    setError(null);
-    
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      setError('Please upload an image file (JPEG, PNG, or WebP)');
-      return;
+  // Decode other formats, read EXIF and rotate sideways phone photos upright before cropping
+  const prepareFile = useCallback(async (file: File, page: number, region: PageRegion | null = null) => {
+    setIsPreparing(true);
+    try {
+      const upload = await prepareUpload(file, page, region);
+      setPageChoice(null);
+      setRegionPage(null);
+      onFileSelect(upload.file, upload.imageUrl, upload.metadata);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this image');
+    } finally {
+      setIsPreparing(false);
     }
+  }, [onFileSelect]);
+
+  const validateAndProcessFile = useCallback(async (file: File) => {
+    setError(null);
     
     // Validate file size
     if (file.size > maxSizeMB * 1024 * 1024) {
@@ -34,10 +58,50 @@ export function FileUpload({
       return;
     }
     
-    // Create object URL for preview
-    const imageUrl = URL.createObjectURL(file);
-    onFileSelect(file, imageUrl);
-  }, [maxSizeMB, onFileSelect]);
+    // The format is checked by content (HEIC often arrives without a MIME type)
+    let pages: ImagePage[];
+    let format: ImageFormat | null;
+    try {
+      setIsPreparing(true);
+      [pages, format] = await Promise.all([listImagePages(file), detectImageFormat(file)]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this image');
+      return;
+    } finally {
+      setIsPreparing(false);
+    }
+
+    // PDFs: pick the page, then the region holding the photo or signature
+    if (format === 'pdf') {
+      setPageChoice({ file, pages, format });
+      setRegionPage(pages.length === 1 ? pages[0] : null);
+      return;
+    }
+    // Multi-page scans: let the user pick the page first
+    if (pages.length > 1 && format) {
+      setPageChoice({ file, pages, format });
+      return;
+    }
+    await prepareFile(file, 0);
+  }, [maxSizeMB, prepareFile]);
+
+  const handlePageSelect = useCallback((index: number) => {
+    if (!pageChoice) return;
+    if (pageChoice.format === 'pdf') {
+      setRegionPage(pageChoice.pages[index] ?? null);
+    } else {
+      prepareFile(pageChoice.file, index);
+    }
+  }, [pageChoice, prepareFile]);
+
+  const handleRegionBack = useCallback(() => {
+    if (pageChoice && pageChoice.pages.length > 1) {
+      setRegionPage(null);
+    } else {
+      setPageChoice(null);
+      setRegionPage(null);
+    }
+  }, [pageChoice]);
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -59,6 +123,7 @@ export function FileUpload({
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (file) validateAndProcessFile(file);
   }, [validateAndProcessFile]);
 
@@ -68,56 +133,84 @@ export function FileUpload({
 
   return (
     <div className="w-full">
-      <div
-        onClick={handleClick}
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        className={`
-          relative border-2 border-dashed rounded-2xl p-10 md:p-14
-          transition-all duration-500 cursor-pointer group overflow-hidden
-          ${isDragging 
-            ? 'border-blue-500 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-500/15 dark:to-indigo-500/15 scale-[1.02] shadow-xl shadow-blue-500/20' 
-            : 'border-slate-200 dark:border-slate-700/50 hover:border-blue-400 dark:hover:border-blue-500/50 hover:bg-slate-50/50 dark:hover:bg-slate-800/30 dark:ring-1 dark:ring-white/5 dark:hover:ring-blue-500/20'
-          }
-        `}
-      >
-        {/* Animated gradient background on hover */}
-        <div className="absolute inset-0 bg-gradient-to-br from-blue-500/0 via-indigo-500/0 to-violet-500/0 group-hover:from-blue-500/5 group-hover:via-indigo-500/5 group-hover:to-violet-500/5 dark:group-hover:from-blue-500/10 dark:group-hover:via-indigo-500/10 dark:group-hover:to-violet-500/10 transition-all duration-500" />
-        
-        <input
-          ref={inputRef}
-          type="file"
-          accept={accept}
-          onChange={handleFileInput}
-          className="hidden"
+      {pageChoice && regionPage ? (
+        <RegionPicker
+          file={pageChoice.file}
+          page={regionPage}
+          onConfirm={(region) => prepareFile(pageChoice.file, regionPage.index, region)}
+          onBack={handleRegionBack}
+          isBusy={isPreparing}
         />
-        
-        <div className="relative flex flex-col items-center justify-center text-center">
-          <div className={`
-            w-20 h-20 rounded-2xl flex items-center justify-center mb-5 transition-all duration-500
+      ) : pageChoice ? (
+        <div className="relative">
+          <PagePicker
+            file={pageChoice.file}
+            pages={pageChoice.pages}
+            onSelect={handlePageSelect}
+            onCancel={() => setPageChoice(null)}
+          />
+          {isPreparing && (
+            <div className="absolute inset-0 flex items-center justify-center rounded-xl bg-white/70 dark:bg-slate-900/70">
+              <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+            </div>
+          )}
+        </div>
+      ) : (
+        <div
+          onClick={handleClick}
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          className={`
+            relative border-2 border-dashed rounded-2xl p-10 md:p-14
+            transition-all duration-500 cursor-pointer group overflow-hidden
             ${isDragging 
-              ? 'bg-gradient-to-br from-blue-500 to-indigo-500 shadow-xl shadow-blue-500/40 rotate-3 scale-110' 
-              : 'bg-gradient-to-br from-slate-100 to-slate-50 dark:from-slate-700/80 dark:to-slate-800/80 group-hover:from-blue-500 group-hover:to-indigo-500 group-hover:shadow-xl group-hover:shadow-blue-500/30 group-hover:scale-110 group-hover:rotate-3'
+              ? 'border-blue-500 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-500/15 dark:to-indigo-500/15 scale-[1.02] shadow-xl shadow-blue-500/20' 
+              : 'border-slate-200 dark:border-slate-700/50 hover:border-blue-400 dark:hover:border-blue-500/50 hover:bg-slate-50/50 dark:hover:bg-slate-800/30 dark:ring-1 dark:ring-white/5 dark:hover:ring-blue-500/20'
             }
-          `}>
-            <Upload className={`w-9 h-9 transition-all duration-500 ${isDragging ? 'text-white animate-bounce' : 'text-slate-400 dark:text-slate-500 group-hover:text-white'}`} />
-          </div>
+          `}
+        >
+          {/* Animated gradient background on hover */}
+          <div className="absolute inset-0 bg-gradient-to-br from-blue-500/0 via-indigo-500/0 to-violet-500/0 group-hover:from-blue-500/5 group-hover:via-indigo-500/5 group-hover:to-violet-500/5 dark:group-hover:from-blue-500/10 dark:group-hover:via-indigo-500/10 dark:group-hover:to-violet-500/10 transition-all duration-500" />
+        
+          <input
+            ref={inputRef}
+            type="file"
+            accept={accept}
+            onChange={handleFileInput}
+            className="hidden"
+          />
+        
+          <div className="relative flex flex-col items-center justify-center text-center">
+            <div className={`
+              w-20 h-20 rounded-2xl flex items-center justify-center mb-5 transition-all duration-500
+              ${isDragging 
+                ? 'bg-gradient-to-br from-blue-500 to-indigo-500 shadow-xl shadow-blue-500/40 rotate-3 scale-110' 
+                : 'bg-gradient-to-br from-slate-100 to-slate-50 dark:from-slate-700/80 dark:to-slate-800/80 group-hover:from-blue-500 group-hover:to-indigo-500 group-hover:shadow-xl group-hover:shadow-blue-500/30 group-hover:scale-110 group-hover:rotate-3'
+              }
+            `}>
+              {isPreparing ? (
+                <Loader2 className="w-9 h-9 text-slate-400 dark:text-slate-500 animate-spin" />
+              ) : (
+                <Upload className={`w-9 h-9 transition-all duration-500 ${isDragging ? 'text-white animate-bounce' : 'text-slate-400 dark:text-slate-500 group-hover:text-white'}`} />
+              )}
+            </div>
           
-          <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-2 transition-colors">
-            {isDragging ? 'Drop your image here' : 'Upload your image'}
-          </h3>
+            <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-2 transition-colors">
+              {isPreparing ? 'Preparing image...' : isDragging ? 'Drop your image here' : 'Upload your image'}
+            </h3>
           
-          <p className="text-sm text-slate-500 dark:text-slate-400 mb-5">
-            Drag and drop or <span className="text-blue-600 dark:text-blue-400 font-medium hover:underline">browse files</span>
-          </p>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-5">
+              Drag and drop or <span className="text-blue-600 dark:text-blue-400 font-medium hover:underline">browse files</span>
+            </p>
           
-          <div className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-800/60 rounded-lg dark:ring-1 dark:ring-white/10">
-            <ImageIcon className="w-4 h-4 text-slate-400" />
-            <span className="text-xs text-slate-500 dark:text-slate-400 font-medium">JPEG, PNG, WebP • Max {maxSizeMB}MB</span>
+            <div className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-800/60 rounded-lg dark:ring-1 dark:ring-white/10">
+              <ImageIcon className="w-4 h-4 text-slate-400" />
+              <span className="text-xs text-slate-500 dark:text-slate-400 font-medium">JPEG, PNG, WebP, HEIC, TIFF, BMP, PDF • Max {maxSizeMB}MB</span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
       
       {error && (
         <div className="mt-4 p-4 bg-red-50 dark:bg-red-500/15 border border-red-200 dark:border-red-400/30 rounded-xl flex items-center gap-3 animate-fade-in">
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { Frame } from 'lucide-react';
+import type { FitSettings, FitMode } from '@/types';
+
+interface FitModeSettingsProps {
+  settings: FitSettings;
+  onChange: (settings: Partial<FitSettings>) => void;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS: { value: FitMode; label: string; hint: string }[] = [
+  { value: 'cover', label: 'Cover', hint: 'Fills the frame, trimming any edge that does not fit' },
+  { value: 'contain', label: 'Contain', hint: 'Keeps the whole crop and pads the rest of the frame' },
+  { value: 'stretch', label: 'Stretch', hint: 'Fills the frame exactly - may distort the photo' },
+];
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex gap-1 p-1 bg-white/70 dark:bg-slate-800/60 rounded-lg border border-slate-200 dark:border-slate-700/50">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          disabled={disabled}
+          className={`flex-1 px-2 py-1.5 text-xs font-semibold rounded-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+            value === option.value
+              ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+              : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * How the crop fills the output's photo area (beside any name/date band)
+ * Matters when the crop and the frame differ: whole-page PDFs, batch items
+ * without a crop, or crops saved before the band was switched on
+ */
+export function FitModeSettings({ settings, onChange, disabled = false }: FitModeSettingsProps) {
+  const active = MODE_OPTIONS.find((option) => option.value === settings.mode) ?? MODE_OPTIONS[0];
+
+  return (
+    <div className="p-4 bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800/50 dark:to-slate-700/30 rounded-xl border border-slate-200/80 dark:border-slate-600/30 space-y-4">
+      <div className="flex items-center gap-2">
+        <Frame className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+        <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">Fit To Frame</span>
+      </div>
+
+      <div>
+        <SegmentedControl
+          options={MODE_OPTIONS}
+          value={settings.mode}
+          onChange={(mode) => onChange({ mode })}
+          disabled={disabled}
+        />
+        <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1.5">{active.hint}</p>
+      </div>
+
+      {settings.mode === 'contain' && (
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">Padding Colour</p>
+            <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-0.5 uppercase">{settings.padColor}</p>
+          </div>
+          <input
+            type="color"
+            value={settings.padColor}
+            onChange={(e) => onChange({ padColor: e.target.value.toUpperCase() })}
+            disabled={disabled}
+            className="h-9 w-12 cursor-pointer rounded-lg border border-slate-200 dark:border-slate-700/50 bg-white dark:bg-slate-800 p-1 disabled:opacity-50"
+            title="Padding colour"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FitModeSettings;
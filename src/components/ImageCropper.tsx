@@ -1,9 +1,16 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Cropper from 'react-easy-crop';
-import { Crop, ZoomIn, ZoomOut, RotateCw, Check, X } from 'lucide-react';
-import type { CropArea } from '@/types';
+import { Crop, ZoomIn, ZoomOut, RotateCw, Check, X, Eraser, ScanFace, Scissors, Ruler, ScanLine } from 'lucide-react';
+import type { CropArea, FaceFraming, Quad } from '@/types';
+import { replaceBackground } from '@/lib/backgroundReplacer';
+import { detectFace } from '@/lib/faceDetector';
+import { proposeFaceCrop } from '@/lib/faceFraming';
+import { detectSignatureBounds, proposeSignatureCrop, MAX_TRIM_PADDING, type InkBounds } from '@/lib/signatureTrim';
+import { estimateTilt, fitCropToRotation, MAX_FINE_ROTATION, FINE_ROTATION_STEP } from '@/lib/straighten';
+import { createFlattenedImageUrl, isFullImageQuad } from '@/lib/perspective';
+import { PerspectiveCorrector } from './PerspectiveCorrector';
 
 interface Point {
   x: number;
@@ -15,6 +22,49 @@ interface ImageCropperProps {
   aspectRatio: number;
   onCropComplete: (croppedArea: CropArea) => void;
   onCancel: () => void;
+  // Background replacement preview (null = stage disabled)
+  backgroundColor?: string | null;
+  backgroundTolerance?: number;
+  onBackgroundToleranceChange?: (tolerance: number) => void;
+  // Face auto-framing rules (null = disabled, e.g. signatures)
+  faceFraming?: FaceFraming | null;
+  // Signature auto-trim margin in % of the ink box (null = disabled, e.g. photos)
+  trimPadding?: number | null;
+  onTrimPaddingChange?: (padding: number) => void;
+}
+
+type FramingStatus = 'idle' | 'detecting' | 'framed' | 'no-face' | 'no-ink';
+type StraightenStatus = 'idle' | 'detecting' | 'straightened' | 'no-tilt';
+
+const PREVIEW_HEIGHT = 120;
+
+/**
+ * Draw the crop region (after rotation, like processImageWASM) into a small canvas
+ * Rotation is applied at preview scale so large photos stay cheap to redraw
+ */
+function renderCropPreview(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  area: CropArea,
+  rotation: number
+): void {
+  const scale = PREVIEW_HEIGHT / area.height;
+  canvas.width = Math.max(1, Math.round(area.width * scale));
+  canvas.height = PREVIEW_HEIGHT;
+  
+  const radians = (rotation * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const rotatedWidth = image.naturalWidth * cos + image.naturalHeight * sin;
+  const rotatedHeight = image.naturalWidth * sin + image.naturalHeight * cos;
+  
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-area.x + rotatedWidth / 2, -area.y + rotatedHeight / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
 }
 
 export function ImageCropper({
@@ -22,25 +72,209 @@ export function ImageCropper({
   aspectRatio,
   onCropComplete,
   onCancel,
+  backgroundColor = null,
+  backgroundTolerance = 50,
+  onBackgroundToleranceChange,
+  faceFraming = null,
+  trimPadding = null,
+  onTrimPaddingChange,
 }: ImageCropperProps) {
   const [crop, setCrop] = useState<Point>({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
-  const [rotation, setRotation] = useState(0);
+  const [rotation, setRotation] = useState(0); // Quarter turns
+  const [fineRotation, setFineRotation] = useState(0); // ±MAX_FINE_ROTATION on top
+  const [straightenStatus, setStraightenStatus] = useState<StraightenStatus>('idle');
   const [croppedAreaPixels, setCroppedAreaPixels] = useState<CropArea | null>(null);
+  
+  // Perspective mode: the crop is made on a flattened copy, the corners go out with it
+  const [showPerspective, setShowPerspective] = useState(false);
+  const [perspective, setPerspective] = useState<Quad | null>(null);
+  const [flattenedUrl, setFlattenedUrl] = useState<string | null>(null);
+  const sourceUrl = flattenedUrl ?? imageUrl;
+  
+  // The cropper reports crops during commit, so tag them with the rotation they were made at
+  const totalRotation = rotation + fineRotation;
+  const totalRotationRef = useRef(totalRotation);
+  totalRotationRef.current = totalRotation;
+  
+  // Auto-framing: a proposal remounts the cropper at that crop
+  const [initialCropArea, setInitialCropArea] = useState<CropArea | undefined>(undefined);
+  const [cropperKey, setCropperKey] = useState(0);
+  const [framingStatus, setFramingStatus] = useState<FramingStatus>('idle');
+  
+  // Decoded image shared by the background preview and face detection
+  const [previewImage, setPreviewImage] = useState<HTMLImageElement | null>(null);
+  const beforeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const afterCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Ink box of the signature, found once per image
+  const inkBoundsRef = useRef<{ image: HTMLImageElement; bounds: InkBounds | null } | null>(null);
+  const trimEnabled = trimPadding !== null;
+
+  // Always decoded: straightening needs the pixels even without the other stages
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setPreviewImage(img);
+    img.src = sourceUrl;
+  }, [sourceUrl]);
+
+  useEffect(() => () => {
+    if (flattenedUrl) URL.revokeObjectURL(flattenedUrl);
+  }, [flattenedUrl]);
+
+  const applyPerspective = useCallback(async (quad: Quad) => {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to load image'));
+      image.src = imageUrl;
+    });
+    // Corners on the image outline = no correction
+    const next = isFullImageQuad(quad, image.naturalWidth, image.naturalHeight) ? null : quad;
+    setFlattenedUrl(next ? await createFlattenedImageUrl(imageUrl, next) : null);
+    setPerspective(next);
+    // The crop starts over on the new image (framing / trim re-run once it decodes)
+    setFineRotation(0);
+    setInitialCropArea(undefined);
+    setCroppedAreaPixels(null);
+    setCropperKey((key) => key + 1);
+    setShowPerspective(false);
+  }, [imageUrl]);
+
+  const autoFrame = useCallback(async (image: HTMLImageElement, isCurrent: () => boolean = () => true) => {
+    if (!faceFraming) return;
+    setFramingStatus('detecting');
+    
+    const face = await detectFace(image);
+    if (!isCurrent()) return;
+    if (!face) {
+      console.log('🎯 No face found, leaving the crop centred');
+      setFramingStatus('no-face');
+      return;
+    }
+    
+    const proposal = proposeFaceCrop(face, image.naturalWidth, image.naturalHeight, aspectRatio, faceFraming);
+    console.log(`🎯 Face found (${face.method}), framing at`, proposal);
+    setRotation(0);
+    setFineRotation(0);
+    setInitialCropArea(proposal);
+    setCropperKey((key) => key + 1);
+    setFramingStatus('framed');
+  }, [faceFraming, aspectRatio]);
+
+  const applyTrim = useCallback((image: HTMLImageElement, bounds: InkBounds, padding: number) => {
+    const proposal = proposeSignatureCrop(bounds, image.naturalWidth, image.naturalHeight, aspectRatio, padding);
+    setRotation(0);
+    setFineRotation(0);
+    setInitialCropArea(proposal);
+    setCropperKey((key) => key + 1);
+    setFramingStatus('framed');
+    return proposal;
+  }, [aspectRatio]);
+
+  const autoTrim = useCallback((image: HTMLImageElement, padding: number) => {
+    const bounds = detectSignatureBounds(image);
+    inkBoundsRef.current = { image, bounds };
+    if (!bounds) {
+      console.log('✂️ No ink found, leaving the crop centred');
+      setFramingStatus('no-ink');
+      return;
+    }
+    const proposal = applyTrim(image, bounds, padding);
+    console.log('✂️ Signature found, trimming to', proposal);
+  }, [applyTrim]);
+
+  // Trim to the signature once the image is ready; margin changes re-apply
+  // the cached ink box (debounced for the slider) instead of re-detecting
+  useEffect(() => {
+    if (trimPadding === null || !previewImage) return;
+    const cached = inkBoundsRef.current;
+    if (cached?.image !== previewImage) {
+      autoTrim(previewImage, trimPadding);
+      return;
+    }
+    const bounds = cached.bounds;
+    if (!bounds) return;
+    const timer = setTimeout(() => applyTrim(previewImage, bounds, trimPadding), 150);
+    return () => clearTimeout(timer);
+  }, [trimPadding, previewImage, autoTrim, applyTrim]);
+
+  // Frame the face once when the image is ready
+  useEffect(() => {
+    if (!faceFraming || !previewImage) return;
+    let current = true;
+    autoFrame(previewImage, () => current);
+    return () => {
+      current = false;
+    };
+  }, [faceFraming, previewImage, autoFrame]);
+
+  // Pull the crop in from the corners a fine rotation leaves empty
+  // (keeps its centre; only remounts the cropper when it had to shrink or move)
+  const fitCropToImage = useCallback((nextRotation: number) => {
+    if (!previewImage || !croppedAreaPixels) return;
+    const fitted = fitCropToRotation(croppedAreaPixels, previewImage.naturalWidth, previewImage.naturalHeight, nextRotation);
+    if (croppedAreaPixels.rotation === nextRotation && Math.abs(fitted.width - croppedAreaPixels.width) < 0.5) return;
+    setInitialCropArea(fitted);
+    setCropperKey((key) => key + 1);
+  }, [previewImage, croppedAreaPixels]);
+
+  const rotateQuarter = (delta: number) => {
+    const next = (rotation + delta) % 360;
+    setRotation(next);
+    if (fineRotation !== 0) fitCropToImage(next + fineRotation);
+  };
+
+  const autoStraighten = useCallback(async () => {
+    if (!previewImage) return;
+    setStraightenStatus('detecting');
+    const tilt = await estimateTilt(previewImage, rotation, faceFraming ? 'photo' : 'document');
+    if (!tilt) {
+      console.log('📐 No clear horizon found, leaving the angle');
+      setStraightenStatus('no-tilt');
+      return;
+    }
+    const correction = Math.round(Math.max(-MAX_FINE_ROTATION, Math.min(MAX_FINE_ROTATION, -tilt.angle)) * 10) / 10;
+    console.log(`📐 Tilt ${tilt.angle.toFixed(1)}° from ${tilt.source}, rotating ${correction}°`);
+    setFineRotation(correction);
+    fitCropToImage(rotation + correction);
+    setStraightenStatus('straightened');
+  }, [previewImage, rotation, faceFraming, fitCropToImage]);
+
+  useEffect(() => {
+    const before = beforeCanvasRef.current;
+    const after = afterCanvasRef.current;
+    if (!backgroundColor || !previewImage || !croppedAreaPixels || !before || !after) return;
+    
+    // Debounce so dragging the tolerance slider stays smooth
+    const timer = setTimeout(() => {
+      renderCropPreview(before, previewImage, croppedAreaPixels, croppedAreaPixels.rotation ?? 0);
+      
+      after.width = before.width;
+      after.height = before.height;
+      const ctx = after.getContext('2d')!;
+      const imageData = before.getContext('2d')!.getImageData(0, 0, before.width, before.height);
+      replaceBackground(imageData, backgroundColor, backgroundTolerance);
+      ctx.putImageData(imageData, 0, 0);
+    }, 120);
+    
+    return () => clearTimeout(timer);
+  }, [backgroundColor, backgroundTolerance, previewImage, croppedAreaPixels]);
 
   const handleCropComplete = useCallback(
     (_: any, croppedAreaPixels: CropArea) => {
-      setCroppedAreaPixels(croppedAreaPixels);
+      setCroppedAreaPixels({ ...croppedAreaPixels, rotation: totalRotationRef.current });
     },
     []
   );
 
   const handleConfirm = () => {
     if (croppedAreaPixels) {
-      // Include rotation in the crop area
+      // Include rotation (quarter turns plus fine angle) and the sheet corners in the crop area
       onCropComplete({
         ...croppedAreaPixels,
-        rotation,
+        rotation: totalRotation,
+        ...(perspective ? { perspective } : {}),
       });
     }
   };
@@ -60,10 +294,12 @@ export function ImageCropper({
           }} 
         />
         <Cropper
-          image={imageUrl}
+          key={cropperKey}
+          image={sourceUrl}
+          initialCroppedAreaPixels={initialCropArea}
           crop={crop}
           zoom={zoom}
-          rotation={rotation}
+          rotation={totalRotation}
           aspect={aspectRatio}
           onCropChange={setCrop}
           onZoomChange={setZoom}
@@ -80,6 +316,64 @@ export function ImageCropper({
 
       {/* Controls */}
       <div className="bg-slate-900/95 backdrop-blur-lg p-4 space-y-4 border-t border-slate-700/50">
+        {/* Background Replacement Preview */}
+        {backgroundColor && (
+          <div className="flex flex-col sm:flex-row items-center gap-4 p-3 bg-slate-800/80 rounded-xl ring-1 ring-white/10">
+            <div className="flex gap-3">
+              <figure className="text-center">
+                <canvas ref={beforeCanvasRef} className="h-[120px] rounded-lg ring-1 ring-white/10 bg-white" />
+                <figcaption className="text-[10px] text-slate-400 mt-1 uppercase tracking-wider">Before</figcaption>
+              </figure>
+              <figure className="text-center">
+                <canvas ref={afterCanvasRef} className="h-[120px] rounded-lg ring-1 ring-white/10 bg-white" />
+                <figcaption className="text-[10px] text-slate-400 mt-1 uppercase tracking-wider">After</figcaption>
+              </figure>
+            </div>
+            <div className="flex-1 w-full space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-sm font-medium text-white">
+                  <Eraser className="w-4 h-4 text-blue-400" />
+                  Background Tolerance
+                </span>
+                <span className="text-xs text-slate-300 font-medium bg-slate-700 px-2 py-0.5 rounded-full">
+                  {backgroundTolerance}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={backgroundTolerance}
+                onChange={(e) => onBackgroundToleranceChange?.(Number(e.target.value))}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+              <p className="text-[11px] text-slate-400">
+                Raise if patches of the wall remain, lower if hair or clothing gets whitened.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Signature auto-trim margin */}
+        {trimEnabled && (
+          <div className="flex items-center gap-4">
+            <span className="text-xs font-medium text-slate-300 whitespace-nowrap">Margin</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_TRIM_PADDING}
+              step={1}
+              value={trimPadding ?? 0}
+              onChange={(e) => onTrimPaddingChange?.(Number(e.target.value))}
+              className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+            <span className="text-xs text-slate-300 font-medium bg-slate-700 px-2 py-0.5 rounded-full min-w-[44px] text-center">
+              {trimPadding}%
+            </span>
+          </div>
+        )}
+
         {/* Zoom Control */}
         <div className="flex items-center gap-4">
           <ZoomOut className="w-5 h-5 text-slate-400" />
@@ -95,10 +389,34 @@ export function ImageCropper({
           <ZoomIn className="w-5 h-5 text-slate-400" />
         </div>
 
+        {/* Fine rotation (the crop is pulled in from the empty corners on release) */}
+        <div className="flex items-center gap-4">
+          <Ruler className="w-5 h-5 text-slate-400" />
+          <input
+            type="range"
+            min={-MAX_FINE_ROTATION}
+            max={MAX_FINE_ROTATION}
+            step={FINE_ROTATION_STEP}
+            value={fineRotation}
+            onChange={(e) => setFineRotation(Number(e.target.value))}
+            onPointerUp={() => fitCropToImage(totalRotation)}
+            onKeyUp={() => fitCropToImage(totalRotation)}
+            onDoubleClick={() => {
+              setFineRotation(0);
+              fitCropToImage(rotation);
+            }}
+            className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            title="Double-click to level"
+          />
+          <span className="text-xs text-slate-300 font-medium bg-slate-700 px-2 py-0.5 rounded-full min-w-[52px] text-center">
+            {fineRotation > 0 ? '+' : ''}{fineRotation.toFixed(1)}°
+          </span>
+        </div>
+
         {/* Rotation */}
-        <div className="flex items-center justify-center gap-4">
+        <div className="flex flex-wrap items-center justify-center gap-4">
           <button
-            onClick={() => setRotation((r) => (r - 90) % 360)}
+            onClick={() => rotateQuarter(-90)}
             className="p-2.5 bg-slate-800 rounded-xl hover:bg-slate-700 transition-all duration-200 hover:scale-105 active:scale-95"
             title="Rotate Left"
           >
@@ -108,12 +426,61 @@ export function ImageCropper({
             {rotation}°
           </span>
           <button
-            onClick={() => setRotation((r) => (r + 90) % 360)}
+            onClick={() => rotateQuarter(90)}
             className="p-2.5 bg-slate-800 rounded-xl hover:bg-slate-700 transition-all duration-200 hover:scale-105 active:scale-95"
             title="Rotate Right"
           >
             <RotateCw className="w-5 h-5 text-white" />
           </button>
+          <button
+            onClick={autoStraighten}
+            disabled={!previewImage || straightenStatus === 'detecting'}
+            className="flex items-center gap-2 px-3 py-2.5 bg-slate-800 rounded-xl hover:bg-slate-700 transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
+            title={faceFraming ? 'Level the eye line' : 'Level the writing and page edges'}
+          >
+            <Ruler className={`w-5 h-5 ${straightenStatus === 'straightened' ? 'text-emerald-400' : 'text-white'}`} />
+            <span className="text-xs font-medium text-white">
+              {straightenStatus === 'detecting' ? 'Measuring...' :
+               straightenStatus === 'no-tilt' ? 'No horizon found' :
+               'Auto-straighten'}
+            </span>
+          </button>
+          <button
+            onClick={() => setShowPerspective(true)}
+            className="flex items-center gap-2 px-3 py-2.5 bg-slate-800 rounded-xl hover:bg-slate-700 transition-all duration-200 hover:scale-105 active:scale-95"
+            title="Flatten a sheet photographed at an angle"
+          >
+            <ScanLine className={`w-5 h-5 ${perspective ? 'text-emerald-400' : 'text-white'}`} />
+            <span className="text-xs font-medium text-white">Perspective</span>
+          </button>
+          {trimEnabled && (
+            <button
+              onClick={() => previewImage && trimPadding !== null && autoTrim(previewImage, trimPadding)}
+              disabled={!previewImage}
+              className="flex items-center gap-2 px-3 py-2.5 bg-slate-800 rounded-xl hover:bg-slate-700 transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
+              title="Crop tightly around the signature"
+            >
+              <Scissors className={`w-5 h-5 ${framingStatus === 'framed' ? 'text-emerald-400' : 'text-white'}`} />
+              <span className="text-xs font-medium text-white">
+                {framingStatus === 'no-ink' ? 'No ink found' : 'Auto-trim'}
+              </span>
+            </button>
+          )}
+          {faceFraming && (
+            <button
+              onClick={() => previewImage && autoFrame(previewImage)}
+              disabled={!previewImage || framingStatus === 'detecting'}
+              className="flex items-center gap-2 px-3 py-2.5 bg-slate-800 rounded-xl hover:bg-slate-700 transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
+              title="Frame the face per exam rules"
+            >
+              <ScanFace className={`w-5 h-5 ${framingStatus === 'framed' ? 'text-emerald-400' : 'text-white'}`} />
+              <span className="text-xs font-medium text-white">
+                {framingStatus === 'detecting' ? 'Finding face...' :
+                 framingStatus === 'no-face' ? 'No face found' :
+                 'Auto-frame'}
+              </span>
+            </button>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -134,6 +501,16 @@ export function ImageCropper({
           </button>
         </div>
       </div>
+
+      {/* Perspective mode: corners are always set on the original image, so they can be revisited */}
+      {showPerspective && (
+        <PerspectiveCorrector
+          imageUrl={imageUrl}
+          initialQuad={perspective}
+          onApply={applyPerspective}
+          onCancel={() => setShowPerspective(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,135 @@
+'use client';
+
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import type { JpegSettings, JpegEngine, ChromaSubsampling } from '@/types';
+
+interface JpegEncoderSettingsProps {
+  settings: JpegSettings;
+  onChange: (settings: Partial<JpegSettings>) => void;
+  disabled?: boolean;
+}
+
+const ENGINE_OPTIONS: { value: JpegEngine; label: string }[] = [
+  { value: 'builtin', label: 'Built-in' },
+  { value: 'browser', label: 'Browser' },
+];
+
+const SUBSAMPLING_OPTIONS: { value: ChromaSubsampling; label: string }[] = [
+  { value: '4:2:0', label: '4:2:0' },
+  { value: '4:2:2', label: '4:2:2' },
+  { value: '4:4:4', label: '4:4:4' },
+];
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex gap-1 p-1 bg-white/70 dark:bg-slate-800/60 rounded-lg border border-slate-200 dark:border-slate-700/50">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          disabled={disabled}
+          className={`flex-1 px-2 py-1.5 text-xs font-semibold rounded-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+            value === option.value
+              ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+              : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * JPEG encoder choice for JPEG and PDF outputs
+ * The built-in encoder gives the same bytes in every browser and exposes
+ * chroma subsampling and baseline / progressive
+ */
+export function JpegEncoderSettings({ settings, onChange, disabled = false }: JpegEncoderSettingsProps) {
+  const isBuiltin = settings.engine === 'builtin';
+
+  return (
+    <div className="p-4 bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800/50 dark:to-slate-700/30 rounded-xl border border-slate-200/80 dark:border-slate-600/30 space-y-4">
+      <div className="flex items-center gap-2">
+        <Cpu className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+        <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">JPEG Encoder</span>
+      </div>
+
+      <div>
+        <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+          Engine
+        </label>
+        <SegmentedControl
+          options={ENGINE_OPTIONS}
+          value={settings.engine}
+          onChange={(engine) => onChange({ engine })}
+          disabled={disabled}
+        />
+        <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1.5">
+          {isBuiltin
+            ? 'Identical files in every browser, lands closer to the KB target'
+            : "Uses this browser's encoder (output differs between browsers)"}
+        </p>
+      </div>
+
+      {isBuiltin && (
+        <>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+              Chroma Subsampling
+            </label>
+            <SegmentedControl
+              options={SUBSAMPLING_OPTIONS}
+              value={settings.subsampling}
+              onChange={(subsampling) => onChange({ subsampling })}
+              disabled={disabled}
+            />
+            <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1.5">
+              4:4:4 keeps colour edges crisp (coloured ink); 4:2:0 makes the smallest files
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">Progressive</p>
+              <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-0.5">
+                Leave off unless needed - some portals reject progressive JPEGs
+              </p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={settings.progressive}
+              onClick={() => onChange({ progressive: !settings.progressive })}
+              disabled={disabled}
+              className={`relative inline-flex h-7 w-12 flex-shrink-0 items-center rounded-full transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 disabled:opacity-50 ${
+                settings.progressive ? 'bg-gradient-to-r from-blue-500 to-indigo-500 shadow-lg shadow-blue-500/30' : 'bg-slate-300 dark:bg-slate-600'
+              }`}
+            >
+              <span
+                className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform duration-300 ${
+                  settings.progressive ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default JpegEncoderSettings;
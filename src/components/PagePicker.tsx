@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { FileStack, Loader2, X } from 'lucide-react';
+import { renderPageThumbnail, type ImagePage } from '@/lib/imageDecoder';
+
+interface PagePickerProps {
+  file: File;
+  pages: ImagePage[];
+  onSelect: (page: number) => void;
+  onCancel: () => void;
+}
+
+const THUMBNAIL_SIZE = 240;
+
+/**
+ * Page choice for multi-page uploads (scanned TIFFs and PDFs)
+ * Thumbnails render one page at a time so large scans don't block the UI
+ */
+export function PagePicker({ file, pages, onSelect, onCancel }: PagePickerProps) {
+  const [thumbnails, setThumbnails] = useState<Record<number, string | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setThumbnails({});
+
+    (async () => {
+      for (const page of pages) {
+        if (cancelled) return;
+        let url: string | null = null;
+        try {
+          url = await renderPageThumbnail(file, page.index, THUMBNAIL_SIZE);
+        } catch (err) {
+          console.warn(`🧩 Page ${page.index + 1} preview failed:`, err);
+        }
+        if (!cancelled) setThumbnails((current) => ({ ...current, [page.index]: url }));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, pages]);
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileStack className="w-5 h-5 text-blue-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-800 dark:text-white truncate">{file.name}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{pages.length} pages - choose the one to use</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800/60 transition-colors"
+          title="Choose another file"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-[28rem] overflow-y-auto p-1">
+        {pages.map((page) => {
+          const thumbnail = thumbnails[page.index];
+          return (
+            <button
+              key={page.index}
+              type="button"
+              onClick={() => onSelect(page.index)}
+              className="group flex flex-col rounded-xl overflow-hidden bg-white dark:bg-slate-800/80 ring-1 ring-slate-200 dark:ring-white/10 hover:ring-2 hover:ring-blue-500 transition-all"
+            >
+              <div className="aspect-[3/4] flex items-center justify-center bg-slate-100 dark:bg-slate-700/60">
+                {thumbnail ? (
+                  <img src={thumbnail} alt={`Page ${page.index + 1}`} className="w-full h-full object-contain bg-white" />
+                ) : thumbnail === null ? (
+                  <span className="text-xs text-slate-400">No preview</span>
+                ) : (
+                  <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
+                )}
+              </div>
+              <div className="px-2 py-1.5 text-left">
+                <p className="text-xs font-semibold text-slate-700 dark:text-slate-200 group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                  Page {page.index + 1}
+                </p>
+                {page.width > 0 && (
+                  <p className="text-[10px] text-slate-500 dark:text-slate-400">{page.width} × {page.height} px</p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default PagePicker;
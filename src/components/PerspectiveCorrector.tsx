@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Check, Loader2, Maximize, ScanLine } from 'lucide-react';
+import type { Quad } from '@/types';
+import { detectPaperQuad, fullImageQuad, isValidQuad } from '@/lib/perspective';
+
+interface PerspectiveCorrectorProps {
+  imageUrl: string;
+  initialQuad?: Quad | null; // Corners set earlier (null = detect)
+  onApply: (quad: Quad) => Promise<void>;
+  onCancel: () => void;
+}
+
+type DetectionStatus = 'detecting' | 'found' | 'not-found';
+
+/**
+ * Corners on the paper edge, or the whole image when no edge is found
+ */
+function detectCorners(img: HTMLImageElement): { quad: Quad; status: DetectionStatus } {
+  const detected = detectPaperQuad(img);
+  console.log(detected ? '📐 Paper edge found' : '📐 No paper edge found, using the whole image');
+  return detected
+    ? { quad: detected, status: 'found' }
+    : { quad: fullImageQuad(img.naturalWidth, img.naturalHeight), status: 'not-found' };
+}
+
+/**
+ * Four-corner perspective correction for sheets shot at an angle
+ * Corners start on the detected paper edge (or where they were last left) and
+ * can be dragged; the cropper then works on the flattened sheet.
+ */
+export function PerspectiveCorrector({ imageUrl, initialQuad = null, onApply, onCancel }: PerspectiveCorrectorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragCornerRef = useRef<number | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [status, setStatus] = useState<DetectionStatus>('detecting');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only seeds the corners when the image loads; later drags live in `quad`
+  const initialQuadRef = useRef(initialQuad);
+
+  const autoDetect = (img: HTMLImageElement) => {
+    const detected = detectCorners(img);
+    setQuad(detected.quad);
+    setStatus(detected.status);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (cancelled) return;
+      setImage(img);
+      const seeded = initialQuadRef.current;
+      const detected = seeded ? { quad: seeded, status: 'found' as const } : detectCorners(img);
+      setQuad(detected.quad);
+      setStatus(detected.status);
+    };
+    img.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * image!.naturalWidth,
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)) * image!.naturalHeight,
+    };
+  };
+
+  const handlePointerDown = (corner: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragCornerRef.current = corner;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const corner = dragCornerRef.current;
+    if (corner === null || !quad) return;
+    const next = [...quad] as Quad;
+    next[corner] = toImagePoint(e);
+    setQuad(next);
+  };
+
+  const handlePointerUp = () => {
+    dragCornerRef.current = null;
+  };
+
+  const handleApply = async () => {
+    if (!quad) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(quad);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not correct the perspective');
+      setIsApplying(false);
+    }
+  };
+
+  const width = image?.naturalWidth ?? 1;
+  const height = image?.naturalHeight ?? 1;
+  const valid = !!quad && isValidQuad(quad);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/90 flex flex-col">
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        {image && quad ? (
+          <div
+            ref={containerRef}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative touch-none select-none"
+          >
+            <img src={imageUrl} alt="Sheet to flatten" draggable={false} className="block max-h-[calc(100vh-12rem)] max-w-full w-auto bg-white" />
+            <svg
+              viewBox={`0 0 ${width} ${height}`}
+              preserveAspectRatio="none"
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            >
+              <polygon
+                points={quad.map((point) => `${point.x},${point.y}`).join(' ')}
+                fill="rgba(59,130,246,0.15)"
+                stroke={valid ? '#3b82f6' : '#ef4444'}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            {quad.map((point, corner) => (
+              <div
+                key={corner}
+                onPointerDown={handlePointerDown(corner)}
+                className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-white border-2 border-blue-500 shadow-lg cursor-grab active:cursor-grabbing"
+                style={{ left: `${(point.x / width) * 100}%`, top: `${(point.y / height) * 100}%` }}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-slate-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span className="text-sm font-medium">Finding the paper edge...</span>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-900/95 backdrop-blur-lg p-4 space-y-3 border-t border-slate-700/50">
+        <p className="text-xs text-center text-slate-400">
+          {!valid && quad ? 'Corners cross over - drag them back into a four-sided shape' :
+           status === 'found' ? 'Paper edge found - drag the corners to adjust' :
+           status === 'not-found' ? 'No paper edge found - drag the corners onto the sheet' :
+           'Drag the corners onto the sheet'}
+        </p>
+        {error && <p className="text-xs text-center text-red-400 font-medium">{error}</p>}
+        <div className="flex flex-wrap gap-2 justify-between">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isApplying}
+            className="flex items-center gap-1.5 px-3 py-2.5 text-xs font-semibold text-white bg-slate-800 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => image && autoDetect(image)}
+              disabled={!image || isApplying}
+              className="flex items-center gap-1.5 px-3 py-2.5 text-xs font-semibold text-white bg-slate-800 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-50"
+            >
+              <ScanLine className="w-4 h-4" />
+              Auto-detect
+            </button>
+            <button
+              type="button"
+              onClick={() => image && setQuad(fullImageQuad(image.naturalWidth, image.naturalHeight))}
+              disabled={!image || isApplying}
+              className="flex items-center gap-1.5 px-3 py-2.5 text-xs font-semibold text-white bg-slate-800 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-50"
+            >
+              <Maximize className="w-4 h-4" />
+              Whole Image
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!valid || isApplying}
+              className="flex items-center gap-1.5 px-4 py-2.5 text-xs font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-500 rounded-xl shadow-lg shadow-blue-500/25 hover:from-blue-600 hover:to-indigo-600 transition-all disabled:opacity-50"
+            >
+              {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Flatten
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PerspectiveCorrector;
@@ -1,9 +1,11 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { Search, ChevronDown, Check, FileImage, PenTool, Settings2 } from 'lucide-react';
-import type { ExamPreset, ImageSpec } from '@/types';
+import { Search, ChevronDown, Check, FileImage, PenTool, Settings2, Star } from 'lucide-react';
+import type { ExamPreset, ImageSpec, CustomDimensions, PhysicalUnit } from '@/types';
 import examPresets from '@/config/examPresets.json';
+import { USER_PRESET_CATEGORY, isUserPreset } from '@/lib/userPresets';
+import { PHYSICAL_UNITS, DPI_OPTIONS, customDimensionsToSpec, formatPrintSize, resolvePresetPixels } from '@/lib/physicalUnits';
 
 interface PresetSelectorProps {
   selectedPreset: ExamPreset | null;
@@ -11,14 +13,10 @@ interface PresetSelectorProps {
   onPresetSelect: (preset: ExamPreset) => void;
   onTypeSelect: (type: 'photo' | 'signature') => void;
   addDate?: boolean;
-  customDimensions: {
-    width: number;
-    height: number;
-    minKB: number;
-    maxKB: number;
-  };
-  onCustomDimensionsChange: (dims: Partial<PresetSelectorProps['customDimensions']>) => void;
+  customDimensions: CustomDimensions;
+  onCustomDimensionsChange: (dims: Partial<CustomDimensions>) => void;
   isCustomMode: boolean;
+  userPresets?: ExamPreset[]; // Listed under their own category
 }
 
 export function PresetSelector({
@@ -30,6 +28,7 @@ export function PresetSelector({
   customDimensions,
   onCustomDimensionsChange,
   isCustomMode,
+  userPresets = [],
 }: PresetSelectorProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
@@ -37,6 +36,7 @@ export function PresetSelector({
   // Define category order (Custom first, then others)
   const categoryOrder = [
     '⚙️ Custom',
+    USER_PRESET_CATEGORY,
     '🎓 NTA Exams',
     '🏛️ UPSC',
     '📋 SSC',
@@ -52,7 +52,8 @@ export function PresetSelector({
   const groupedPresets = useMemo(() => {
     const groups: Record<string, ExamPreset[]> = {};
     
-    (examPresets as ExamPreset[]).forEach((preset) => {
+    // Presets given in cm / mm / in get their pixel size from the DPI
+    [...(examPresets as ExamPreset[]), ...userPresets].map(resolvePresetPixels).forEach((preset) => {
       if (!groups[preset.category]) {
         groups[preset.category] = [];
       }
@@ -74,7 +75,7 @@ export function PresetSelector({
     });
     
     return sortedGroups;
-  }, []);
+  }, [userPresets]);
 
   // Filter presets based on search (search in label, category, id, and description)
   const filteredGroups = useMemo(() => {
@@ -110,12 +111,8 @@ export function PresetSelector({
   const hasSignature = selectedPreset?.specs.signature !== null;
 
   // Get display spec (custom or preset)
-  const displaySpec = isCustomMode ? {
-    widthPx: customDimensions.width,
-    heightPx: customDimensions.height,
-    minSizeKB: customDimensions.minKB,
-    maxSizeKB: customDimensions.maxKB,
-  } : currentSpec;
+  const displaySpec = isCustomMode ? customDimensionsToSpec(customDimensions) : currentSpec;
+  const isPhysicalUnit = customDimensions.unit !== 'px';
 
   return (
     <div className={`w-full space-y-5 ${isOpen ? 'relative z-50' : ''}`}>
@@ -184,6 +181,7 @@ export function PresetSelector({
                       <div className="flex flex-col items-start">
                         <div className="flex items-center gap-2">
                           {preset.id === 'custom' && <Settings2 className="w-4 h-4 text-blue-500" />}
+                          {isUserPreset(preset) && <Star className="w-4 h-4 text-amber-500" />}
                           <span className="text-sm font-medium text-slate-700 dark:text-slate-200">{preset.label}</span>
                         </div>
                         {preset.description && (
@@ -223,30 +221,97 @@ export function PresetSelector({
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
-                Width (px)
+                Unit
               </label>
-              <input
-                type="number"
-                value={customDimensions.width}
-                onChange={(e) => onCustomDimensionsChange({ width: parseInt(e.target.value) || 200 })}
-                min={50}
-                max={2000}
+              <select
+                value={customDimensions.unit}
+                onChange={(e) => onCustomDimensionsChange({ unit: e.target.value as 'px' | PhysicalUnit })}
                 className="w-full px-4 py-3 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
-              />
+              >
+                <option value="px">Pixels (px)</option>
+                {PHYSICAL_UNITS.map((unit) => (
+                  <option key={unit} value={unit}>{unit === 'in' ? 'Inches (in)' : unit === 'cm' ? 'Centimetres (cm)' : 'Millimetres (mm)'}</option>
+                ))}
+              </select>
             </div>
             <div>
               <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
-                Height (px)
+                DPI
               </label>
-              <input
-                type="number"
-                value={customDimensions.height}
-                onChange={(e) => onCustomDimensionsChange({ height: parseInt(e.target.value) || 200 })}
-                min={50}
-                max={2000}
+              <select
+                value={customDimensions.dpi ?? ''}
+                onChange={(e) => onCustomDimensionsChange({ dpi: e.target.value ? parseInt(e.target.value) : null })}
                 className="w-full px-4 py-3 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
-              />
+              >
+                {!isPhysicalUnit && <option value="">Not set</option>}
+                {DPI_OPTIONS.map((dpi) => (
+                  <option key={dpi} value={dpi}>{dpi} DPI</option>
+                ))}
+              </select>
             </div>
+            {isPhysicalUnit && (
+              <>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+                    Width ({customDimensions.unit})
+                  </label>
+                  <input
+                    type="number"
+                    value={customDimensions.physicalWidth}
+                    onChange={(e) => onCustomDimensionsChange({ physicalWidth: parseFloat(e.target.value) || 1 })}
+                    min={0.1}
+                    step={customDimensions.unit === 'mm' ? 1 : 0.1}
+                    className="w-full px-4 py-3 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+                    Height ({customDimensions.unit})
+                  </label>
+                  <input
+                    type="number"
+                    value={customDimensions.physicalHeight}
+                    onChange={(e) => onCustomDimensionsChange({ physicalHeight: parseFloat(e.target.value) || 1 })}
+                    min={0.1}
+                    step={customDimensions.unit === 'mm' ? 1 : 0.1}
+                    className="w-full px-4 py-3 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+                  />
+                </div>
+                <p className="col-span-2 -mt-2 text-xs text-slate-500 dark:text-slate-400">
+                  = <span className="font-semibold text-slate-700 dark:text-slate-300">{displaySpec?.widthPx} × {displaySpec?.heightPx} px</span> at {customDimensions.dpi} DPI
+                </p>
+              </>
+            )}
+            {!isPhysicalUnit && (
+              <>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+                    Width (px)
+                  </label>
+                  <input
+                    type="number"
+                    value={customDimensions.width}
+                    onChange={(e) => onCustomDimensionsChange({ width: parseInt(e.target.value) || 200 })}
+                    min={50}
+                    max={2000}
+                    className="w-full px-4 py-3 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
+                    Height (px)
+                  </label>
+                  <input
+                    type="number"
+                    value={customDimensions.height}
+                    onChange={(e) => onCustomDimensionsChange({ height: parseInt(e.target.value) || 200 })}
+                    min={50}
+                    max={2000}
+                    className="w-full px-4 py-3 text-sm font-medium rounded-xl border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+                  />
+                </div>
+              </>
+            )}
             <div>
               <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2 uppercase tracking-wider">
                 Min Size (KB)
@@ -345,6 +410,15 @@ export function PresetSelector({
                 <p className="font-semibold text-sm text-slate-700 dark:text-slate-300">{currentSpec.aspectRatio}</p>
               </div>
             )}
+            {displaySpec.dpi && (
+              <div className="bg-white dark:bg-slate-800/80 p-3.5 rounded-xl border border-slate-100 dark:border-slate-700/50 shadow-sm">
+                <span className="text-slate-400 dark:text-slate-500 text-[10px] font-semibold uppercase tracking-wider block mb-1.5">Print Size</span>
+                <p className="font-semibold text-sm text-slate-700 dark:text-slate-300">
+                  {formatPrintSize(displaySpec.widthPx, displaySpec.heightPx, displaySpec.dpi, displaySpec.physicalSize?.unit)}
+                  <span className="text-xs font-normal text-slate-400 ml-1">@ {displaySpec.dpi} DPI</span>
+                </p>
+              </div>
+            )}
             {currentSpec?.background && !isCustomMode && (
               <div className="bg-white dark:bg-slate-800/80 p-3.5 rounded-xl border border-slate-100 dark:border-slate-700/50 shadow-sm">
                 <span className="text-slate-400 dark:text-slate-500 text-[10px] font-semibold uppercase tracking-wider block mb-1.5">Background</span>
@@ -355,7 +429,7 @@ export function PresetSelector({
           {addDate && selectedType === 'photo' && (
             <div className="mt-4 flex items-center gap-2.5 text-sm text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-500/10 p-3 rounded-xl border border-blue-200/50 dark:border-blue-500/20">
               <span className="text-base">📅</span>
-              <span className="font-medium">Date stamp will be added</span>
+              <span className="font-medium">Name / date band will be added</span>
             </div>
           )}
         </div>
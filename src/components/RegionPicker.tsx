@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Check, Loader2, Maximize, BoxSelect } from 'lucide-react';
+import { renderPageThumbnail, type ImagePage, type PageRegion } from '@/lib/imageDecoder';
+
+interface RegionPickerProps {
+  file: File;
+  page: ImagePage;
+  onConfirm: (region: PageRegion | null) => void; // null = whole page
+  onBack: () => void;
+  isBusy?: boolean;
+}
+
+const PREVIEW_SIZE = 1400;
+const MIN_REGION = 0.02; // Smallest selection side, as a fraction of the page
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Region choice on a document page (a photo or signature on a scanned form)
+ * Drag a box over the preview; the region is then cut from the page at its
+ * full rendered resolution, not from this preview.
+ */
+export function RegionPicker({ file, page, onConfirm, onBack, isBusy = false }: RegionPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [region, setRegion] = useState<PageRegion | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreviewUrl(null);
+    setPreviewError(null);
+    setRegion(null);
+    renderPageThumbnail(file, page.index, PREVIEW_SIZE)
+      .then((url) => !cancelled && setPreviewUrl(url))
+      .catch((err: unknown) => !cancelled && setPreviewError(err instanceof Error ? err.message : 'Could not render this page'));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, page.index]);
+
+  const toPagePoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPagePoint(e);
+    dragStartRef.current = point;
+    setRegion({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = toPagePoint(e);
+    setRegion({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setRegion((current) => (current && current.width >= MIN_REGION && current.height >= MIN_REGION ? current : null));
+  };
+
+  const regionPixels = region && page.width > 0
+    ? `${Math.round(region.width * page.width)} × ${Math.round(region.height * page.height)} px`
+    : null;
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex items-center gap-2">
+        <BoxSelect className="w-5 h-5 text-blue-500 flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-slate-800 dark:text-white truncate">
+            Page {page.index + 1} - drag a box around the photo or signature
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {regionPixels ? `Selection: ${regionPixels}` : page.width > 0 ? `Full page: ${page.width} × ${page.height} px` : 'Full page'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex justify-center rounded-xl bg-slate-100 dark:bg-slate-800/60 p-2">
+        {previewUrl ? (
+          <div
+            ref={containerRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="relative overflow-hidden cursor-crosshair touch-none select-none"
+          >
+            <img src={previewUrl} alt={`Page ${page.index + 1}`} draggable={false} className="block max-h-[32rem] w-auto bg-white" />
+            {region && (
+              <div
+                className="absolute border-2 border-blue-500 shadow-[0_0_0_9999px_rgba(15,23,42,0.45)] pointer-events-none"
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+        ) : previewError ? (
+          <p className="py-16 text-sm text-red-600 dark:text-red-400 font-medium text-center">{previewError}</p>
+        ) : (
+          <div className="py-16 flex items-center gap-2 text-slate-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span className="text-sm font-medium">Rendering page...</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-between">
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={isBusy}
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800/60 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onConfirm(null)}
+            disabled={isBusy || !!previewError}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800/60 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            <Maximize className="w-4 h-4" />
+            Whole Page
+          </button>
+          <button
+            type="button"
+            onClick={() => region && onConfirm(region)}
+            disabled={isBusy || !region}
+            className="flex items-center gap-1.5 px-4 py-2 text-xs font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-500 rounded-lg shadow-lg shadow-blue-500/25 hover:from-blue-600 hover:to-indigo-600 transition-all disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Use Selection
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RegionPicker;
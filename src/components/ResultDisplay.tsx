@@ -1,26 +1,80 @@
 'use client';
 
-import React from 'react';
-import { Download, RefreshCw, CheckCircle, FileImage, HardDrive } from 'lucide-react';
-import type { ProcessedResult, ImageSpec } from '@/types';
+import React, { useEffect, useState } from 'react';
+import { Download, RefreshCw, CheckCircle, FileImage, HardDrive, ShieldCheck, AlertTriangle, XCircle, ClipboardCheck, Loader2, FileArchive, Printer } from 'lucide-react';
+import type { ProcessedResult, ImageSpec, ImageMetadata, ComplianceReport, ComplianceStatus } from '@/types';
+import { FORMAT_INFO } from '@/lib/outputFormats';
+import { analyzeCompliance } from '@/lib/complianceChecker';
+import { formatPrintSize } from '@/lib/physicalUnits';
 
 interface ResultDisplayProps {
   result: ProcessedResult;
   spec: ImageSpec;
   fileName: string;
+  downloadName?: string; // Templated name without extension (defaults to <fileName>_processed)
+  sourceMetadata?: ImageMetadata | null;
+  imageType?: 'photo' | 'signature';
   onReset: () => void;
+  onDownloadZip?: () => void;
 }
 
-export function ResultDisplay({ result, spec, fileName, onReset }: ResultDisplayProps) {
+const STATUS_STYLES: Record<ComplianceStatus, { icon: typeof CheckCircle; color: string; label: string }> = {
+  pass: { icon: CheckCircle, color: 'text-emerald-600 dark:text-emerald-400', label: 'Looks good' },
+  warn: { icon: AlertTriangle, color: 'text-amber-600 dark:text-amber-400', label: 'Review before submitting' },
+  fail: { icon: XCircle, color: 'text-red-600 dark:text-red-400', label: 'Likely to be rejected' },
+};
+
+/**
+ * Describe what the source file carried that the output no longer does
+ */
+function describeRemovedMetadata(metadata?: ImageMetadata | null): string {
+  if (!metadata?.hasExif) return 'No EXIF, GPS or text blocks in the output';
+
+  const removed: string[] = [];
+  if (metadata.hasGps) removed.push('GPS location');
+  if (metadata.camera) removed.push(`camera (${metadata.camera})`);
+  if (metadata.captureDate) removed.push('capture time');
+  if (removed.length === 0) removed.push('EXIF data');
+  return `Removed from your photo: ${removed.join(', ')}`;
+}
+
+export function ResultDisplay({ result, spec, fileName, downloadName, sourceMetadata, imageType = 'photo', onReset, onDownloadZip }: ResultDisplayProps) {
   const isWithinSizeRange = result.sizeKB >= spec.minSizeKB && result.sizeKB <= spec.maxSizeKB;
   const isDimensionsMatch = 
     result.dimensions.width === spec.widthPx && 
     (result.dimensions.height === spec.heightPx || spec.dateFormat);
+  const formatInfo = FORMAT_INFO[result.format];
+  
+  // Photo compliance report (signatures have no face/background rules)
+  const [compliance, setCompliance] = useState<ComplianceReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (imageType !== 'photo') return;
+    let current = true;
+    setCompliance(null);
+    setIsChecking(true);
+    
+    fetch(result.previewUrl)
+      .then((response) => response.blob())
+      .then((image) => analyzeCompliance(image, spec, result.imageArea))
+      .then((report) => {
+        if (current) setCompliance(report);
+      })
+      .catch((error) => console.warn('⚠️ Compliance check failed:', error))
+      .finally(() => {
+        if (current) setIsChecking(false);
+      });
+    
+    return () => {
+      current = false;
+    };
+  }, [result, spec, imageType]);
 
   const handleDownload = () => {
     const link = document.createElement('a');
     link.href = result.dataUrl;
-    link.download = fileName.replace(/\.[^/.]+$/, '') + '_processed.jpg';
+    link.download = `${downloadName ?? fileName.replace(/\.[^/.]+$/, '') + '_processed'}.${formatInfo.extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -45,11 +99,14 @@ export function ResultDisplay({ result, spec, fileName, onReset }: ResultDisplay
           {/* Checkered background for transparency, white bg for signatures */}
           <div className="absolute inset-0 rounded-xl bg-white shadow-inner" style={{ backgroundImage: 'linear-gradient(45deg, #f0f0f0 25%, transparent 25%), linear-gradient(-45deg, #f0f0f0 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #f0f0f0 75%), linear-gradient(-45deg, transparent 75%, #f0f0f0 75%)', backgroundSize: '16px 16px', backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0px' }} />
           <img
-            src={result.dataUrl}
+            src={result.previewUrl}
             alt="Processed result"
             className="relative max-w-full max-h-72 object-contain rounded-xl shadow-2xl shadow-slate-300/50 dark:shadow-black/30 ring-1 ring-slate-200 dark:ring-slate-600 bg-white transition-transform duration-500 group-hover:scale-[1.02]"
           />
           <div className="absolute inset-0 rounded-xl bg-gradient-to-t from-black/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+          <span className="absolute top-2 right-2 text-[10px] px-2 py-1 bg-slate-900/70 text-white rounded-full font-semibold tracking-wider">
+            {formatInfo.label}
+          </span>
         </div>
       </div>
 
@@ -91,9 +148,80 @@ export function ResultDisplay({ result, spec, fileName, onReset }: ResultDisplay
           <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
             Required: {spec.minSizeKB} - {spec.maxSizeKB} KB
           </p>
+          {result.sizeFloor && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              Raised to the minimum with {result.sizeFloor.strategy === 'padding' ? 'filler bytes' : 'faint grain'} (+{(result.sizeFloor.addedBytes / 1024).toFixed(1)} KB)
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Physical print size at the embedded DPI */}
+      {result.dpi && (
+        <div className="flex items-center justify-between gap-3 p-4 bg-white dark:bg-slate-800/80 rounded-2xl border border-slate-100 dark:border-slate-700/50">
+          <span className="flex items-center gap-2 text-sm font-semibold text-slate-600 dark:text-slate-400">
+            <Printer className="w-4 h-4 text-blue-500" />
+            Print Size
+          </span>
+          <span className="text-right">
+            <span className="block font-bold text-slate-800 dark:text-slate-200">
+              {formatPrintSize(result.dimensions.width, result.dimensions.height, result.dpi, spec.physicalSize?.unit)}
+            </span>
+            <span className="block text-xs text-slate-500 dark:text-slate-400">@ {result.dpi} DPI (embedded in the file)</span>
+          </span>
+        </div>
+      )}
+
+      {/* Compliance Report */}
+      {imageType === 'photo' && (isChecking || compliance) && (
+        <div className="p-5 bg-white dark:bg-slate-800/80 rounded-2xl border border-slate-100 dark:border-slate-700/50">
+          <div className="flex items-center justify-between mb-4">
+            <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-300">
+              <ClipboardCheck className="w-4 h-4 text-blue-500" />
+              Compliance Check
+            </span>
+            {isChecking ? (
+              <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />
+            ) : compliance && (
+              <span className={`text-xs font-semibold ${STATUS_STYLES[compliance.status].color}`}>
+                {STATUS_STYLES[compliance.status].label}
+              </span>
+            )}
+          </div>
+          {compliance && (
+            <ul className="space-y-2.5">
+              {compliance.checks.map((check) => {
+                const { icon: StatusIcon, color } = STATUS_STYLES[check.status];
+                return (
+                  <li key={check.id} className="flex items-start gap-3">
+                    <StatusIcon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-700 dark:text-slate-300">{check.label}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{check.detail}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Metadata Badge */}
+      {result.metadataStripped && (
+        <div className="flex items-center gap-3 px-4 py-3 bg-white dark:bg-slate-800/80 rounded-xl border border-slate-100 dark:border-slate-700/50">
+          <div className="w-8 h-8 rounded-lg bg-emerald-100 dark:bg-emerald-500/20 flex items-center justify-center flex-shrink-0">
+            <ShieldCheck className="w-4 h-4 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">Metadata stripped</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+              {describeRemovedMetadata(sourceMetadata)}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex gap-4 pt-2">
         <button
@@ -109,10 +237,20 @@ export function ResultDisplay({ result, spec, fileName, onReset }: ResultDisplay
           className="flex-1 flex items-center justify-center gap-2 p-4 bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white rounded-xl transition-all duration-300 font-semibold shadow-lg shadow-blue-500/30 hover:shadow-xl hover:shadow-blue-500/40 active:scale-[0.98] hover:scale-[1.02] group"
         >
           <Download className="w-5 h-5 transition-transform group-hover:translate-y-0.5" />
-          <span>Download</span>
+          <span>Download {formatInfo.label}</span>
         </button>
       </div>
 
+      {onDownloadZip && (
+        <button
+          onClick={onDownloadZip}
+          className="w-full flex items-center justify-center gap-2 p-3 text-sm text-slate-600 dark:text-slate-300 rounded-xl border border-slate-200 dark:border-slate-600/50 hover:bg-slate-50 dark:hover:bg-slate-800/60 transition-all duration-300 font-semibold"
+        >
+          <FileArchive className="w-4 h-4" />
+          <span>Download ZIP with manifest.json</span>
+        </button>
+      )}
+
       {/* Privacy Note */}
       <div className="text-center pt-2">
         <p className="text-xs text-slate-400 dark:text-slate-500 flex items-center justify-center gap-1">
@@ -1,7 +1,10 @@
 'use client';
 
-import React from 'react';
-import { Palette } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Palette, Sparkles } from 'lucide-react';
+import type { CropArea, SignatureCleanupSettings } from '@/types';
+import { buildSignatureMask, MASK_INK, MASK_LINE } from '@/lib/signatureCleanup';
+import { flattenImage } from '@/lib/perspective';
 
 // Predefined signature colors
 export const SIGNATURE_COLORS = [
@@ -19,11 +22,114 @@ export type SignatureColorId = typeof SIGNATURE_COLORS[number]['id'] | 'custom';
 interface SignatureColorPickerProps {
   selectedColor: string | null;
   onColorChange: (color: string | null) => void;
+  // Cleanup controls and the live mask preview (shown when both are given)
+  cleanup?: SignatureCleanupSettings;
+  onCleanupChange?: (settings: Partial<SignatureCleanupSettings>) => void;
+  previewImageUrl?: string | null;
+  previewCropArea?: CropArea | null;
+}
+
+const PREVIEW_MAX_WIDTH = 360;
+
+/**
+ * Ink / paper mask of the current crop, at preview size
+ * Black = kept ink, red = removed ruled line, white = paper
+ */
+function CleanupMaskPreview({
+  imageUrl,
+  cropArea,
+  settings,
+}: {
+  imageUrl: string;
+  cropArea: CropArea | null;
+  settings: SignatureCleanupSettings;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [angle, setAngle] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setImage(img);
+    };
+    img.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  // A photographed sheet is flattened first, once per set of corners
+  const perspective = cropArea?.perspective;
+  const source = useMemo(
+    () => (image && perspective ? flattenImage(image, perspective) : image),
+    [image, perspective]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+
+    // Same geometry as the processor: flatten, rotate the whole image, then crop
+    const rotation = cropArea?.rotation ?? 0;
+    const radians = (rotation * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    const rotatedWidth = source.width * cos + source.height * sin;
+    const rotatedHeight = source.width * sin + source.height * cos;
+    const crop = cropArea ?? { x: 0, y: 0, width: rotatedWidth, height: rotatedHeight };
+
+    const scale = Math.min(1, PREVIEW_MAX_WIDTH / crop.width);
+    canvas.width = Math.max(1, Math.round(crop.width * scale));
+    canvas.height = Math.max(1, Math.round(crop.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(-crop.x + rotatedWidth / 2, -crop.y + rotatedHeight / 2);
+    ctx.rotate(radians);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    ctx.restore();
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { mask, angle: skew } = buildSignatureMask(imageData, settings);
+    const data = imageData.data;
+    for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+      const [r, g, b] = mask[p] === MASK_INK ? [15, 23, 42] : mask[p] === MASK_LINE ? [248, 113, 113] : [255, 255, 255];
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    setAngle(skew);
+  }, [source, cropArea, settings]);
+
+  return (
+    <div className="space-y-1.5">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-auto rounded-lg border border-slate-200 dark:border-slate-700/50 bg-white"
+      />
+      <p className="text-[10px] text-slate-500 dark:text-slate-400">
+        Black is kept as ink{settings.removeLines && ', red lines are removed'}
+        {settings.deskew && angle !== 0 && ` · levelled by ${Math.abs(angle).toFixed(1)}°`}
+      </p>
+    </div>
+  );
 }
 
 export function SignatureColorPicker({
   selectedColor,
   onColorChange,
+  cleanup,
+  onCleanupChange,
+  previewImageUrl,
+  previewCropArea = null,
 }: SignatureColorPickerProps) {
   const [showCustomPicker, setShowCustomPicker] = React.useState(false);
   const [customColor, setCustomColor] = React.useState('#0000FF');
@@ -123,8 +229,94 @@ export function SignatureColorPicker({
       {/* Info Text */}
       <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
         <span className="inline-block w-1 h-1 rounded-full bg-purple-400"></span>
-        Works best with signatures on white/light backgrounds.
+        {cleanup?.enabled
+          ? 'Shadows and uneven lighting are evened out before the ink is picked.'
+          : 'Works best with signatures on white/light backgrounds.'}
       </p>
+
+      {/* Cleanup: adaptive threshold, ruled lines, deskew */}
+      {cleanup && onCleanupChange && (
+        <div className="pt-3 border-t border-purple-100 dark:border-purple-400/20 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Sparkles className="w-4 h-4 text-purple-500 dark:text-purple-400" />
+              <div>
+                <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">Clean Up Photo</p>
+                <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-0.5">
+                  For signatures photographed on paper
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={cleanup.enabled}
+              onClick={() => onCleanupChange({ enabled: !cleanup.enabled })}
+              className={`relative inline-flex h-7 w-12 flex-shrink-0 items-center rounded-full transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 dark:focus:ring-offset-slate-800 ${
+                cleanup.enabled ? 'bg-gradient-to-r from-purple-500 to-pink-500 shadow-lg shadow-purple-500/30' : 'bg-slate-300 dark:bg-slate-600'
+              }`}
+            >
+              <span
+                className={`inline-block h-5 w-5 transform rounded-full bg-white shadow-sm transition-transform duration-300 ${
+                  cleanup.enabled ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+
+          {cleanup.enabled && (
+            <>
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Sensitivity
+                  </span>
+                  <span className="text-xs text-slate-600 dark:text-slate-300 font-medium bg-white/70 dark:bg-slate-700 px-2 py-0.5 rounded-full">
+                    {cleanup.sensitivity}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={cleanup.sensitivity}
+                  onChange={(e) => onCleanupChange({ sensitivity: Number(e.target.value) })}
+                  className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                />
+                <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                  Raise if thin or faint strokes drop out, lower if smudges or paper texture remain.
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-4 text-xs text-slate-700 dark:text-slate-200">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cleanup.removeLines}
+                    onChange={(e) => onCleanupChange({ removeLines: e.target.checked })}
+                    className="accent-purple-500"
+                  />
+                  Remove ruled lines
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cleanup.deskew}
+                    onChange={(e) => onCleanupChange({ deskew: e.target.checked })}
+                    className="accent-purple-500"
+                  />
+                  Straighten
+                </label>
+              </div>
+
+              {previewImageUrl && (
+                <CleanupMaskPreview imageUrl={previewImageUrl} cropArea={previewCropArea} settings={cleanup} />
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { PenLine, Undo2, Eraser, Check, Loader2 } from 'lucide-react';
+import {
+  renderStrokes,
+  exportStrokes,
+  PEN_WIDTHS,
+  type SignatureStroke,
+  type StrokePoint,
+  type ExportedSignature,
+} from '@/lib/signatureStrokes';
+
+interface SignaturePadProps {
+  aspectRatio: number; // Signature spec width / height, so no cropping is needed
+  onComplete: (signature: ExportedSignature) => void;
+}
+
+// Points closer than this (CSS px) to the previous one are dropped as jitter
+const MIN_POINT_DISTANCE = 1.5;
+
+function toStrokePoint(event: PointerEvent, rect: DOMRect): StrokePoint {
+  return {
+    x: (event.clientX - rect.left) / rect.width,
+    y: (event.clientY - rect.top) / rect.width,
+    pressure: event.pointerType === 'mouse' || !event.pressure ? 0.5 : event.pressure,
+  };
+}
+
+/**
+ * Draw-a-signature pad: pointer input (mouse, touch, pen pressure), smoothed
+ * strokes, undo and pen width. The drawing is exported at the preset's
+ * aspect ratio and goes straight to processing.
+ */
+export function SignaturePad({ aspectRatio, onComplete }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [penWidth, setPenWidth] = useState(PEN_WIDTHS.default);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The stroke being drawn lives outside state so pointer moves don't re-render
+  const activeStrokeRef = useRef<SignatureStroke | null>(null);
+  const strokesRef = useRef(strokes);
+  strokesRef.current = strokes;
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const active = activeStrokeRef.current;
+    renderStrokes(canvas, active ? [...strokesRef.current, active] : strokesRef.current);
+  }, []);
+
+  useEffect(redraw, [strokes, redraw]);
+
+  // Match the backing store to the displayed size (sharp on high-DPI screens)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(rect.width * ratio));
+      canvas.height = Math.max(1, Math.round(rect.height * ratio));
+      redraw();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [redraw]);
+
+  const undo = useCallback(() => setStrokes((current) => current.slice(0, -1)), []);
+
+  // Ctrl/Cmd+Z undoes the last stroke (text fields keep their own undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    activeStrokeRef.current = { points: [toStrokePoint(e.nativeEvent, rect)], width: penWidth };
+    setError(null);
+    redraw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+
+    // Coalesced events keep fast strokes smooth where the browser batches moves
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    for (const event of coalesced.length > 0 ? coalesced : [e.nativeEvent]) {
+      const point = toStrokePoint(event, rect);
+      const last = stroke.points[stroke.points.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) * rect.width < MIN_POINT_DISTANCE) continue;
+      stroke.points.push(point);
+    }
+    redraw();
+  };
+
+  const handlePointerUp = () => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    activeStrokeRef.current = null;
+    setStrokes((current) => [...current, stroke]);
+  };
+
+  const handleUse = async () => {
+    setIsExporting(true);
+    try {
+      onComplete(await exportStrokes(strokes, aspectRatio));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the signature');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isEmpty = strokes.length === 0;
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="block w-full rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700/50 bg-white cursor-crosshair touch-none"
+          style={{ aspectRatio: `${aspectRatio}` }}
+        />
+        {/* Baseline guide */}
+        <div className="pointer-events-none absolute inset-x-6 top-[72%] border-b border-slate-300" />
+        {isEmpty && (
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center gap-2 text-slate-400">
+            <PenLine className="w-5 h-5" />
+            <span className="text-sm font-medium">Sign here</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex-1 flex items-center gap-3">
+          <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider whitespace-nowrap">
+            Pen
+          </span>
+          <input
+            type="range"
+            min={PEN_WIDTHS.min}
+            max={PEN_WIDTHS.max}
+            step={0.5}
+            value={penWidth}
+            onChange={(e) => setPenWidth(Number(e.target.value))}
+            className="flex-1 h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+          <span
+            className="rounded-full bg-slate-800 dark:bg-slate-200 flex-shrink-0"
+            style={{ width: `${penWidth * 2}px`, height: `${penWidth * 2}px` }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={undo}
+            disabled={isEmpty}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800/60 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => setStrokes([])}
+            disabled={isEmpty}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800/60 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            <Eraser className="w-4 h-4" />
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={handleUse}
+            disabled={isEmpty || isExporting}
+            className="flex items-center gap-1.5 px-4 py-2 text-xs font-semibold text-white bg-gradient-to-r from-blue-500 to-indigo-500 rounded-lg shadow-lg shadow-blue-500/25 hover:from-blue-600 hover:to-indigo-600 transition-all disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Use Signature
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 font-medium">{error}</p>
+      )}
+    </div>
+  );
+}
+
+export default SignaturePad;
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SlidersHorizontal, Wand2, RotateCcw } from 'lucide-react';
+import type { CropArea, ToneAdjustments } from '@/types';
+import { applyToneAdjustments, isNeutralTone, GAMMA_RANGE } from '@/lib/toneAdjust';
+import { flattenImage } from '@/lib/perspective';
+
+interface ToneAdjustmentPanelProps {
+  adjustments: ToneAdjustments;
+  onChange: (adjustments: Partial<ToneAdjustments>) => void;
+  onReset: () => void;
+  previewImageUrl?: string | null;
+  previewCropArea?: CropArea | null;
+  disabled?: boolean;
+}
+
+type SliderKey = 'brightness' | 'contrast' | 'saturation' | 'gamma';
+
+const SLIDERS: { key: SliderKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'gamma', label: 'Gamma', ...GAMMA_RANGE },
+];
+
+const PREVIEW_MAX_WIDTH = 360;
+
+/**
+ * The current crop at preview size with the adjustments applied
+ * Uses the same tone code as the processor, so what you see is what encodes
+ */
+function TonePreview({
+  imageUrl,
+  cropArea,
+  adjustments,
+}: {
+  imageUrl: string;
+  cropArea: CropArea | null;
+  adjustments: ToneAdjustments;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setImage(img);
+    };
+    img.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  // A photographed sheet is flattened first, once per set of corners
+  const perspective = cropArea?.perspective;
+  const source = useMemo(
+    () => (image && perspective ? flattenImage(image, perspective) : image),
+    [image, perspective]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+
+    // Same geometry as the processor: flatten, rotate the whole image, then crop
+    const rotation = cropArea?.rotation ?? 0;
+    const radians = (rotation * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    const rotatedWidth = source.width * cos + source.height * sin;
+    const rotatedHeight = source.width * sin + source.height * cos;
+    const crop = cropArea ?? { x: 0, y: 0, width: rotatedWidth, height: rotatedHeight };
+
+    const scale = Math.min(1, PREVIEW_MAX_WIDTH / crop.width);
+    canvas.width = Math.max(1, Math.round(crop.width * scale));
+    canvas.height = Math.max(1, Math.round(crop.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(-crop.x + rotatedWidth / 2, -crop.y + rotatedHeight / 2);
+    ctx.rotate(radians);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    ctx.restore();
+
+    if (!isNeutralTone(adjustments)) {
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      applyToneAdjustments(imageData, adjustments);
+      ctx.putImageData(imageData, 0, 0);
+    }
+  }, [source, cropArea, adjustments]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="mx-auto max-h-72 w-auto max-w-full rounded-lg border border-slate-200 dark:border-slate-700/50 bg-white"
+    />
+  );
+}
+
+/**
+ * Tonal adjustments between crop and encode
+ * One-click auto levels / white balance for tube-light casts and dark shots,
+ * plus manual sliders; the preview updates live, the output on release
+ */
+export function ToneAdjustmentPanel({
+  adjustments,
+  onChange,
+  onReset,
+  previewImageUrl,
+  previewCropArea = null,
+  disabled = false,
+}: ToneAdjustmentPanelProps) {
+  // Slider values follow the drag; the store (and a reprocess) only on release
+  const [draft, setDraft] = useState(adjustments);
+  useEffect(() => setDraft(adjustments), [adjustments]);
+
+  const commit = (key: SliderKey) => {
+    if (draft[key] !== adjustments[key]) onChange({ [key]: draft[key] });
+  };
+
+  const isNeutral = isNeutralTone(adjustments);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+          <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">Adjustments</span>
+        </div>
+        <button
+          type="button"
+          onClick={onReset}
+          disabled={disabled || isNeutral}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-semibold text-slate-500 dark:text-slate-400 rounded-md hover:bg-white/70 dark:hover:bg-slate-700/60 transition-colors disabled:opacity-40"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {([
+          { key: 'autoLevels', label: 'Auto Levels' },
+          { key: 'autoWhiteBalance', label: 'Auto White Balance' },
+        ] as const).map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => onChange({ [key]: !adjustments[key] })}
+            disabled={disabled}
+            aria-pressed={adjustments[key]}
+            className={`flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-semibold rounded-lg transition-all duration-200 disabled:opacity-50 ${
+              adjustments[key]
+                ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md shadow-blue-500/25'
+                : 'bg-white/70 dark:bg-slate-800/60 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700/50 hover:text-slate-800 dark:hover:text-slate-100'
+            }`}
+          >
+            <Wand2 className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {previewImageUrl && (
+        <TonePreview imageUrl={previewImageUrl} cropArea={previewCropArea} adjustments={draft} />
+      )}
+
+      <div className="space-y-3">
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <div key={key} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{label}</span>
+              <span className="text-xs text-slate-600 dark:text-slate-300 font-medium bg-white/70 dark:bg-slate-700 px-2 py-0.5 rounded-full">
+                {key === 'gamma' ? draft[key].toFixed(2) : draft[key] > 0 ? `+${draft[key]}` : draft[key]}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={draft[key]}
+              disabled={disabled}
+              onChange={(e) => setDraft((current) => ({ ...current, [key]: Number(e.target.value) }))}
+              onPointerUp={() => commit(key)}
+              onKeyUp={() => commit(key)}
+              onBlur={() => commit(key)}
+              className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ToneAdjustmentPanel;
@@ -0,0 +1,371 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Star, Plus, Upload, Download, Pencil, Trash2, ChevronDown, Check, X } from 'lucide-react';
+import type { ExamPreset, ImageSpec, SizeFloorStrategy } from '@/types';
+import {
+  USER_PRESET_CATEGORY,
+  createUserPresetId,
+  validateUserPreset,
+  parseUserPresets,
+  serializeUserPresets,
+} from '@/lib/userPresets';
+import { downloadBlob } from '@/lib/exportBundle';
+import { DPI_OPTIONS, formatPrintSize, resolveSpecPixels } from '@/lib/physicalUnits';
+import { SIZE_FLOOR_STRATEGIES, SIZE_FLOOR_LABELS, DEFAULT_SIZE_FLOOR } from '@/lib/sizeFloor';
+
+interface UserPresetManagerProps {
+  presets: ExamPreset[];
+  selectedPresetId: string | null;
+  seedSpec: ImageSpec; // Starting point for a new preset (current custom dimensions)
+  onSelect: (preset: ExamPreset) => void;
+  onSave: (preset: ExamPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: ExamPreset[]) => void;
+}
+
+const FORMAT_OPTIONS = ['JPG/JPEG', 'PNG', 'WebP', 'PDF'];
+
+const DEFAULT_SIGNATURE_SPEC: ImageSpec = { widthPx: 140, heightPx: 60, minSizeKB: 4, maxSizeKB: 30, format: 'JPG/JPEG' };
+
+const inputClass =
+  'w-full px-3 py-2 text-sm font-medium rounded-lg border border-slate-200 dark:border-slate-600/50 bg-white dark:bg-slate-800/80 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all';
+const labelClass = 'block text-[10px] font-semibold text-slate-500 dark:text-slate-400 mb-1 uppercase tracking-wider';
+
+function SpecFields({
+  spec,
+  onChange,
+  showPhotoFields,
+}: {
+  spec: ImageSpec;
+  onChange: (spec: ImageSpec) => void;
+  showPhotoFields: boolean;
+}) {
+  const setNumber = (key: 'widthPx' | 'heightPx' | 'minSizeKB' | 'maxSizeKB', value: string) => {
+    // Typing pixels replaces a physical size the pixels were computed from
+    const physicalSize = key === 'widthPx' || key === 'heightPx' ? undefined : spec.physicalSize;
+    onChange({ ...spec, [key]: Number(value) || 0, physicalSize });
+  };
+  const setDpi = (value: string) => {
+    onChange(resolveSpecPixels({ ...spec, dpi: value ? Number(value) : undefined }));
+  };
+  const setText = (key: 'format' | 'background' | 'aspectRatio', value: string) => {
+    onChange({ ...spec, [key]: value || undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      <div>
+        <label className={labelClass}>Width (px)</label>
+        <input type="number" min={1} value={spec.widthPx} onChange={(e) => setNumber('widthPx', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Height (px)</label>
+        <input type="number" min={1} value={spec.heightPx} onChange={(e) => setNumber('heightPx', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Min KB</label>
+        <input type="number" min={1} value={spec.minSizeKB} onChange={(e) => setNumber('minSizeKB', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Max KB</label>
+        <input type="number" min={1} value={spec.maxSizeKB} onChange={(e) => setNumber('maxSizeKB', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Format</label>
+        <select value={spec.format ?? FORMAT_OPTIONS[0]} onChange={(e) => setText('format', e.target.value)} className={inputClass}>
+          {FORMAT_OPTIONS.map((format) => (
+            <option key={format} value={format}>{format}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Aspect Ratio</label>
+        <input type="text" value={spec.aspectRatio ?? ''} placeholder="e.g. 3.5:4.5 cm" onChange={(e) => setText('aspectRatio', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>DPI</label>
+        <select value={spec.dpi ?? ''} onChange={(e) => setDpi(e.target.value)} className={inputClass}>
+          <option value="">Not set</option>
+          {DPI_OPTIONS.map((dpi) => (
+            <option key={dpi} value={dpi}>{dpi}</option>
+          ))}
+        </select>
+      </div>
+      <div className="col-span-2">
+        <label className={labelClass}>Below Min Size</label>
+        <select
+          value={spec.sizeFloor ?? DEFAULT_SIZE_FLOOR}
+          onChange={(e) => onChange({ ...spec, sizeFloor: e.target.value as SizeFloorStrategy })}
+          className={inputClass}
+        >
+          {SIZE_FLOOR_STRATEGIES.map((strategy) => (
+            <option key={strategy} value={strategy}>{SIZE_FLOOR_LABELS[strategy]}</option>
+          ))}
+        </select>
+      </div>
+      {spec.dpi && spec.widthPx > 0 && spec.heightPx > 0 && (
+        <p className="flex items-end pb-2 text-xs text-slate-500 dark:text-slate-400">
+          Prints at {formatPrintSize(spec.widthPx, spec.heightPx, spec.dpi, spec.physicalSize?.unit)}
+        </p>
+      )}
+      {showPhotoFields && (
+        <>
+          <div>
+            <label className={labelClass}>Background</label>
+            <input type="text" value={spec.background ?? ''} placeholder="e.g. White" onChange={(e) => setText('background', e.target.value)} className={inputClass} />
+          </div>
+          <label className="flex items-end gap-2 pb-2 text-xs font-medium text-slate-600 dark:text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!spec.dateFormat}
+              onChange={(e) => onChange({ ...spec, dateFormat: e.target.checked })}
+              className="accent-blue-500 mb-0.5"
+            />
+            Name / date band
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function UserPresetManager({
+  presets,
+  selectedPresetId,
+  seedSpec,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+}: UserPresetManagerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ExamPreset | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startNew = () => {
+    setMessage(null);
+    setDraft({
+      id: '',
+      label: '',
+      category: USER_PRESET_CATEGORY,
+      specs: { photo: { format: 'JPG/JPEG', ...seedSpec }, signature: { ...DEFAULT_SIGNATURE_SPEC } },
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      const preset = validateUserPreset({ ...draft, id: draft.id || createUserPresetId(draft.label) });
+      onSave(preset);
+      setDraft(null);
+      setMessage({ type: 'success', text: `Saved "${preset.label}"` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save this preset' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseUserPresets(await file.text());
+      onImport(imported);
+      setMessage({ type: 'success', text: `Imported ${imported.length} preset(s)` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not import this file' });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeUserPresets(presets)], { type: 'application/json' });
+    downloadBlob(blob, 'presetphoto-presets.json');
+  };
+
+  return (
+    <div className="rounded-xl border border-amber-100/80 dark:border-amber-400/20 bg-gradient-to-r from-amber-50/60 to-yellow-50/60 dark:from-amber-500/5 dark:to-yellow-500/5">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4"
+      >
+        <span className="flex items-center gap-2 font-semibold text-slate-800 dark:text-white">
+          <Star className="w-4 h-4 text-amber-500" />
+          My Presets
+          <span className="text-xs font-medium text-slate-500 dark:text-slate-400">({presets.length})</span>
+        </span>
+        <ChevronDown className={`w-5 h-5 text-slate-400 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 animate-fade-in">
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={startNew}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-amber-500 text-white hover:bg-amber-600 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New Preset
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-white dark:bg-slate-800/80 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-600/50 hover:bg-slate-50 dark:hover:bg-slate-700/60 transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={presets.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-white dark:bg-slate-800/80 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-600/50 hover:bg-slate-50 dark:hover:bg-slate-700/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+
+          {message && (
+            <p className={`text-xs font-medium ${message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+              {message.text}
+            </p>
+          )}
+
+          {/* Editor */}
+          {draft && (
+            <div className="p-4 space-y-4 bg-white dark:bg-slate-800/60 rounded-xl border border-slate-100 dark:border-slate-700/50">
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Preset Name</label>
+                  <input
+                    type="text"
+                    value={draft.label}
+                    placeholder="e.g. State Police Constable 2025"
+                    onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <input
+                    type="text"
+                    value={draft.description ?? ''}
+                    placeholder="Optional"
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs font-bold text-slate-600 dark:text-slate-300 mb-2">Photo</p>
+                <SpecFields
+                  spec={draft.specs.photo}
+                  onChange={(photo) => setDraft({ ...draft, specs: { ...draft.specs, photo } })}
+                  showPhotoFields
+                />
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300 mb-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!draft.specs.signature}
+                    onChange={(e) => setDraft({
+                      ...draft,
+                      specs: { ...draft.specs, signature: e.target.checked ? { ...DEFAULT_SIGNATURE_SPEC } : null },
+                    })}
+                    className="accent-blue-500"
+                  />
+                  Signature
+                </label>
+                {draft.specs.signature && (
+                  <SpecFields
+                    spec={draft.specs.signature}
+                    onChange={(signature) => setDraft({ ...draft, specs: { ...draft.specs, signature } })}
+                    showPhotoFields={false}
+                  />
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-slate-100 dark:bg-slate-700/60 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 transition-colors"
+                >
+                  <X className="w-3.5 h-3.5" />
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                >
+                  <Check className="w-3.5 h-3.5" />
+                  Save Preset
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Saved presets */}
+          {presets.length === 0 && !draft ? (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              No saved presets yet. Create one for a new notification or import a shared JSON file.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className={`flex items-center gap-3 p-3 rounded-xl border transition-colors ${
+                    preset.id === selectedPresetId
+                      ? 'border-blue-300 dark:border-blue-500/40 bg-blue-50/60 dark:bg-blue-500/10'
+                      : 'border-slate-100 dark:border-slate-700/50 bg-white dark:bg-slate-800/60'
+                  }`}
+                >
+                  <button type="button" onClick={() => onSelect(preset)} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm font-semibold text-slate-800 dark:text-white truncate">{preset.label}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      Photo {preset.specs.photo.widthPx}×{preset.specs.photo.heightPx}
+                      {preset.specs.signature && ` • Signature ${preset.specs.signature.widthPx}×${preset.specs.signature.heightPx}`}
+                    </p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setMessage(null);
+                      setDraft(preset);
+                    }}
+                    className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700/60 transition-colors"
+                    aria-label={`Edit ${preset.label}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm(`Delete "${preset.label}"?`)) onDelete(preset.id);
+                    }}
+                    className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                    aria-label={`Delete ${preset.label}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default UserPresetManager;
@@ -5,3 +5,17 @@ export { ResultDisplay } from './ResultDisplay';
 export { ProcessingOverlay } from './ProcessingOverlay';
 export { SignatureColorPicker } from './SignatureColorPicker';
 export { QualitySlider } from './QualitySlider';
+export { CaptionSettingsPanel } from './CaptionSettingsPanel';
+export { BatchQueue } from './BatchQueue';
+export { FileNameTemplateInput } from './FileNameTemplateInput';
+export { CandidateWorkspace } from './CandidateWorkspace';
+export { UserPresetManager } from './UserPresetManager';
+export { JpegEncoderSettings } from './JpegEncoderSettings';
+export { FitModeSettings } from './FitModeSettings';
+export { ResamplingSettings } from './ResamplingSettings';
+export { ToneAdjustmentPanel } from './ToneAdjustmentPanel';
+export { SignaturePad } from './SignaturePad';
+export { CameraCapture } from './CameraCapture';
+export { PagePicker } from './PagePicker';
+export { RegionPicker } from './RegionPicker';
+export { PerspectiveCorrector } from './PerspectiveCorrector';
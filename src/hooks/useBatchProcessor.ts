@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { processImageInWorker, isAbortError } from '@/lib/workerProcessor';
+import { buildProcessOptions, toProcessedResult, revokeProcessedResult, type ProcessSettings } from '@/lib/processOptions';
+import type { BatchItem, JpegSettings, SignatureCleanupSettings, FitSettings, ResampleSettings } from '@/types';
+
+interface UseBatchProcessorOptions {
+  items: BatchItem[];
+  updateItem: (id: string, changes: Partial<BatchItem>) => void;
+  // Photo-only settings shared with the single flow (caption band, backdrop)
+  photoSettings: Pick<ProcessSettings, 'addDate' | 'caption' | 'replaceBackground' | 'backgroundTolerance'>;
+  jpeg?: JpegSettings; // JPEG encoder choice, same for every item
+  signatureCleanup?: SignatureCleanupSettings | null; // Applied to the signature item
+  fit?: FitSettings; // Fit mode, same for every item
+  resample?: ResampleSettings; // Downscaling kernel, same for every item
+}
+
+interface UseBatchProcessorReturn {
+  processAll: () => Promise<void>;
+  processItem: (item: BatchItem) => Promise<void>;
+  cancelAll: () => void;
+  isProcessing: boolean;
+}
+
+/**
+ * Batch Processor Hook
+ *
+ * Processes every uploaded item of the batch queue at once. Jobs are spread
+ * over the worker pool, so a photo, signature and extras finish in parallel.
+ * Each item carries its own crop, ink colour, tone and quality settings.
+ */
+export function useBatchProcessor({
+  items,
+  updateItem,
+  photoSettings,
+  jpeg,
+  signatureCleanup = null,
+  fit,
+  resample,
+}: UseBatchProcessorOptions): UseBatchProcessorReturn {
+  const [activeJobs, setActiveJobs] = useState(0);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const cancelAll = useCallback(() => {
+    // Each job clears its own entry (and resets its item) once it stops
+    controllers.current.forEach((controller) => controller.abort());
+  }, []);
+
+  // Don't leave worker jobs running after unmount
+  useEffect(() => cancelAll, [cancelAll]);
+
+  const processItem = useCallback(async (item: BatchItem) => {
+    if (!item.file) return;
+
+    // Supersede a job still running for this item
+    controllers.current.get(item.id)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+
+    const settings: ProcessSettings = item.kind === 'photo'
+      ? { ...photoSettings, qualityPreference: item.quality, tone: item.tone, jpeg, fit, resample, documentType: 'photo' }
+      : {
+          signatureColor: item.signatureColor,
+          signatureCleanup: item.kind === 'signature' ? signatureCleanup : null,
+          qualityPreference: item.quality,
+          tone: item.tone,
+          jpeg,
+          fit,
+          resample,
+          documentType: 'signature', // Extras are ink on paper too
+        };
+
+    setActiveJobs((count) => count + 1);
+    updateItem(item.id, { status: 'processing', progress: 0, error: null });
+
+    try {
+      const result = await processImageInWorker(
+        item.file,
+        buildProcessOptions(item.spec, settings, item.cropArea),
+        (progress) => updateItem(item.id, { progress }),
+        controller.signal
+      );
+
+      if (item.result) revokeProcessedResult(item.result);
+      updateItem(item.id, { status: 'done', progress: 100, result: toProcessedResult(result) });
+      console.log(`✨ ${item.label} processed in ${result.processingTimeMs}ms`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Superseded jobs leave the item to their replacement
+        if (controllers.current.get(item.id) === controller) {
+          updateItem(item.id, { status: item.result ? 'done' : 'ready', progress: 0 });
+        }
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Processing failed';
+      updateItem(item.id, { status: 'error', progress: 0, error: message });
+    } finally {
+      if (controllers.current.get(item.id) === controller) {
+        controllers.current.delete(item.id);
+      }
+      setActiveJobs((count) => count - 1);
+    }
+  }, [photoSettings, jpeg, signatureCleanup, fit, resample, updateItem]);
+
+  const processAll = useCallback(async () => {
+    const queued = items.filter((item) => item.file && item.status !== 'processing');
+    await Promise.all(queued.map((item) => processItem(item)));
+  }, [items, processItem]);
+
+  return {
+    processAll,
+    processItem,
+    cancelAll,
+    isProcessing: activeJobs > 0,
+  };
+}
+
+export default useBatchProcessor;
@@ -1,20 +1,33 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
-import { processImageWASM, getProcessorCapabilities, type ProcessOptions } from '@/lib/wasmProcessor';
-import type { ImageSpec, CropArea, ProcessedResult, ProcessingState } from '@/types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { getProcessorCapabilities } from '@/lib/wasmProcessor';
+import { processImageInWorker, isAbortError } from '@/lib/workerProcessor';
+import { buildProcessOptions, toProcessedResult } from '@/lib/processOptions';
+import type { CaptionRender } from '@/lib/captionBand';
+import type { ImageSpec, CropArea, ProcessedResult, ProcessingState, JpegSettings, SignatureCleanupSettings, FitSettings, ResampleSettings, ToneAdjustments } from '@/types';
 
 interface UseStaticProcessorOptions {
   spec: ImageSpec;
   addDate?: boolean;
+  caption?: CaptionRender; // Band contents when addDate is on (default: today's date)
   signatureColor?: string | null;
+  signatureCleanup?: SignatureCleanupSettings | null; // Set for signatures only
   qualityPreference?: number; // 0-100, where 100 = max quality
+  replaceBackground?: boolean; // Repaint the backdrop in spec.background
+  backgroundTolerance?: number; // 0-100
+  jpeg?: JpegSettings; // JPEG encoder choice
+  fit?: FitSettings; // How the crop fills the photo area
+  resample?: ResampleSettings; // Downscaling kernel and sharpening
+  documentType?: 'photo' | 'signature'; // Sharpening preset
+  tone?: ToneAdjustments | null; // Per-image levels / white balance / sliders
 }
 
 interface UseStaticProcessorReturn {
-  processImage: (file: File, cropArea?: CropArea, signatureColorOverride?: string | null, qualityOverride?: number) => Promise<ProcessedResult>;
+  processImage: (file: File, cropArea?: CropArea, signatureColorOverride?: string | null, qualityOverride?: number, signatureCleanupOverride?: SignatureCleanupSettings | null) => Promise<ProcessedResult>;
   state: ProcessingState;
   reset: () => void;
+  cancel: () => void;
   capabilities: ReturnType<typeof getProcessorCapabilities>;
 }
 
@@ -22,21 +35,37 @@ interface UseStaticProcessorReturn {
  * Enhanced Static Processor Hook
  * 
  * Uses optimized processing with multiple strategies:
- * 1. createImageBitmap + OffscreenCanvas (hardware-accelerated, fastest)
- * 2. Traditional Canvas API (universal fallback)
+ * 1. Web Worker + OffscreenCanvas (off the main thread, page stays responsive)
+ * 2. createImageBitmap + OffscreenCanvas on the main thread
+ * 3. Traditional Canvas API (universal fallback)
  * 
  * Features:
  * - Zero network calls - 100% client-side
+ * - Starting a new job cancels the one still running
  * - Iterative binary search compression for exact KB targets
- * - Optional date stamp overlay
+ * - Optional name/date caption band
+ * - Cover / contain / stretch fit into the area beside the band
+ * - Lanczos3 / Mitchell / area / halving downscaling with optional sharpening
+ * - Auto levels / white balance and brightness / contrast / saturation / gamma
+ * - Optional backdrop whitening for presets that demand a plain background
+ * - Optional signature cleanup (adaptive threshold, line removal, deskew)
  * - Progress tracking
  * - Performance metrics
  */
 export function useStaticProcessor({
   spec,
   addDate = false,
+  caption,
   signatureColor = null,
+  signatureCleanup = null,
   qualityPreference = 85,
+  replaceBackground = false,
+  backgroundTolerance = 50,
+  jpeg,
+  fit,
+  resample,
+  documentType = 'photo',
+  tone = null,
 }: UseStaticProcessorOptions): UseStaticProcessorReturn {
   const [state, setState] = useState<ProcessingState>({
     step: 'upload',
@@ -46,78 +75,96 @@ export function useStaticProcessor({
   
   // Cache capabilities check
   const capabilities = useRef(getProcessorCapabilities());
+  
+  // Controller for the job currently in flight
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  // Don't leave a worker job running after unmount
+  useEffect(() => cancel, [cancel]);
 
   const reset = useCallback(() => {
+    cancel();
     setState({
       step: 'upload',
       progress: 0,
       error: null,
     });
-  }, []);
+  }, [cancel]);
 
   const processImage = useCallback(
-    async (file: File, cropArea?: CropArea, signatureColorOverride?: string | null, qualityOverride?: number): Promise<ProcessedResult> => {
+    async (file: File, cropArea?: CropArea, signatureColorOverride?: string | null, qualityOverride?: number, signatureCleanupOverride?: SignatureCleanupSettings | null): Promise<ProcessedResult> => {
       // Use override if provided, otherwise fall back to hook's signatureColor
       const effectiveColor = signatureColorOverride !== undefined ? signatureColorOverride : signatureColor;
       const effectiveQuality = qualityOverride !== undefined ? qualityOverride : qualityPreference;
+      const effectiveCleanup = signatureCleanupOverride !== undefined ? signatureCleanupOverride : signatureCleanup;
+      
+      // Supersede any job still running (e.g. rapid quality slider changes)
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
       
       try {
         setState({ step: 'processing', progress: 0, error: null });
 
-        const options: ProcessOptions = {
-          targetWidth: spec.widthPx,
-          targetHeight: spec.heightPx,
-          minSizeKB: spec.minSizeKB,
-          maxSizeKB: spec.maxSizeKB,
+        const options = buildProcessOptions(spec, {
           addDate,
+          caption,
           signatureColor: effectiveColor,
+          signatureCleanup: effectiveCleanup,
           qualityPreference: effectiveQuality,
-          cropArea: cropArea ? {
-            x: cropArea.x,
-            y: cropArea.y,
-            width: cropArea.width,
-            height: cropArea.height,
-            rotation: cropArea.rotation,
-          } : undefined,
-        };
-
-        // Use the optimized processor
-        const result = await processImageWASM(
+          replaceBackground,
+          backgroundTolerance,
+          jpeg,
+          fit,
+          resample,
+          documentType,
+          tone,
+        }, cropArea);
+
+        // Use the optimized processor (worker when available)
+        const result = await processImageInWorker(
           file,
           options,
-          (progress) => setState((s) => ({ ...s, progress }))
+          (progress) => setState((s) => ({ ...s, progress })),
+          controller.signal
         );
 
-        setState({ step: 'complete', progress: 100, error: null });
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+        }
 
-        // Create object URL for display
-        const dataUrl = URL.createObjectURL(result.blob);
+        setState({ step: 'complete', progress: 100, error: null });
 
         console.log(`✨ Processing complete in ${result.processingTimeMs}ms`);
         console.log(`📊 Capabilities:`, capabilities.current);
 
-        return {
-          blob: result.blob,
-          dataUrl,
-          sizeKB: result.sizeKB,
-          dimensions: {
-            width: result.width,
-            height: result.height,
-          },
-        };
+        return toProcessedResult(result);
       } catch (error) {
+        // A cancelled job leaves state to whichever job replaced it
+        if (isAbortError(error)) {
+          throw error;
+        }
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+        }
         const errorMessage = error instanceof Error ? error.message : 'Processing failed';
         setState({ step: 'upload', progress: 0, error: errorMessage });
         throw error;
       }
     },
-    [spec, addDate, signatureColor, qualityPreference]
+    [spec, addDate, caption, signatureColor, signatureCleanup, qualityPreference, replaceBackground, backgroundTolerance, jpeg, fit, resample, documentType, tone]
   );
 
   return {
     processImage,
     state,
     reset,
+    cancel,
     capabilities: capabilities.current,
   };
 }
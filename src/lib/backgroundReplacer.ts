@@ -0,0 +1,251 @@
+/**
+ * Background Replacer
+ *
+ * Segments the candidate from the backdrop with plain heuristics (no model
+ * download) and repaints the backdrop in the colour a preset demands.
+ *
+ * 1. Sample the top and upper side borders to learn the backdrop colours
+ * 2. Sobel edge map on luminance - strong edges stop the fill at the outline
+ * 3. Flood fill from the border through pixels that match the backdrop
+ * 4. Feather the mask and blend the replacement colour in
+ *
+ * Works on ImageData so it runs the same on the main thread and in the worker.
+ */
+
+// Named backgrounds used in examPresets.json and common bulletin wording
+const NAMED_BACKGROUNDS: Record<string, string> = {
+  white: '#FFFFFF',
+  'off-white': '#F8F8F5',
+  light: '#F5F5F5',
+  plain: '#FFFFFF',
+  'light blue': '#D6E6F5',
+  blue: '#D6E6F5',
+  'light grey': '#E6E6E6',
+  'light gray': '#E6E6E6',
+};
+
+/**
+ * Resolve an ImageSpec.background string to a hex colour
+ * "White/Light" -> first recognised option; returns null when unknown
+ */
+export function parseBackgroundColor(background?: string): string | null {
+  if (!background) return null;
+
+  const trimmed = background.trim();
+  if (/^#[0-9a-f]{6}$/i.test(trimmed)) return trimmed.toUpperCase();
+
+  for (const option of trimmed.toLowerCase().split('/')) {
+    const color = NAMED_BACKGROUNDS[option.trim()];
+    if (color) return color;
+  }
+  return null;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function colorDistance(data: Uint8ClampedArray, i: number, r: number, g: number, b: number): number {
+  const dr = data[i] - r;
+  const dg = data[i + 1] - g;
+  const db = data[i + 2] - b;
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+}
+
+/**
+ * Sobel gradient magnitude of the luminance channel
+ */
+function computeEdgeMap(data: Uint8ClampedArray, width: number, height: number): Float32Array {
+  const luma = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+
+  const edges = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const gx =
+        -luma[p - width - 1] - 2 * luma[p - 1] - luma[p + width - 1] +
+        luma[p - width + 1] + 2 * luma[p + 1] + luma[p + width + 1];
+      const gy =
+        -luma[p - width - 1] - 2 * luma[p - width] - luma[p - width + 1] +
+        luma[p + width - 1] + 2 * luma[p + width] + luma[p + width + 1];
+      edges[p] = Math.sqrt(gx * gx + gy * gy) / 4;
+    }
+  }
+  return edges;
+}
+
+/**
+ * Border pixels that can seed the fill: the top row plus the upper 60% of
+ * both sides (shoulders usually touch the lower corners, so skip those)
+ */
+function getSeedPixels(width: number, height: number): number[] {
+  const seeds: number[] = [];
+  for (let x = 0; x < width; x++) seeds.push(x);
+  const sideLimit = Math.round(height * 0.6);
+  for (let y = 1; y < sideLimit; y++) {
+    seeds.push(y * width, y * width + width - 1);
+  }
+  return seeds;
+}
+
+/**
+ * Learn backdrop colours from border segments
+ * Segments with high variance (hair, clothes, clutter) are ignored
+ */
+function sampleBackdropColors(data: Uint8ClampedArray, seeds: number[]): Array<[number, number, number]> {
+  const segmentCount = 16;
+  const segmentSize = Math.max(1, Math.floor(seeds.length / segmentCount));
+  const references: Array<[number, number, number]> = [];
+
+  for (let start = 0; start < seeds.length; start += segmentSize) {
+    const segment = seeds.slice(start, start + segmentSize);
+    let r = 0, g = 0, b = 0;
+    for (const p of segment) {
+      r += data[p * 4];
+      g += data[p * 4 + 1];
+      b += data[p * 4 + 2];
+    }
+    r /= segment.length;
+    g /= segment.length;
+    b /= segment.length;
+
+    let variance = 0;
+    for (const p of segment) {
+      variance += colorDistance(data, p * 4, r, g, b) ** 2;
+    }
+    variance /= segment.length;
+
+    if (variance < 400) {
+      references.push([r, g, b]);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Replace the backdrop of a portrait in place
+ *
+ * @param tolerance 0-100: how different from the sampled backdrop a pixel
+ *   may be and still be replaced (higher = more aggressive)
+ * @returns Fraction of pixels treated as background (0-1)
+ */
+export function replaceBackground(imageData: ImageData, color: string, tolerance: number = 50): number {
+  const { width, height, data } = imageData;
+  const pixelCount = width * height;
+  if (width < 3 || height < 3) return 0;
+
+  const seeds = getSeedPixels(width, height);
+  const references = sampleBackdropColors(data, seeds);
+  if (references.length === 0) {
+    // Border is too busy to tell backdrop from subject - leave untouched
+    return 0;
+  }
+
+  const colorThreshold = 12 + tolerance * 0.6;
+  const edgeThreshold = 30 + tolerance * 1.2;
+  const edges = computeEdgeMap(data, width, height);
+
+  const distanceToBackdrop = (i: number): number => {
+    let best = Infinity;
+    for (const [r, g, b] of references) {
+      best = Math.min(best, colorDistance(data, i, r, g, b));
+    }
+    return best;
+  };
+
+  // Flood fill from the border through backdrop-like, edge-free pixels
+  const mask = new Float32Array(pixelCount);
+  const queue = new Int32Array(pixelCount);
+  let head = 0;
+  let tail = 0;
+
+  for (const p of seeds) {
+    if (!mask[p] && distanceToBackdrop(p * 4) < colorThreshold) {
+      mask[p] = 1;
+      queue[tail++] = p;
+    }
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const x = p % width;
+    const y = (p - x) / width;
+    const neighbours = [
+      x > 0 ? p - 1 : -1,
+      x < width - 1 ? p + 1 : -1,
+      y > 0 ? p - width : -1,
+      y < height - 1 ? p + width : -1,
+    ];
+
+    for (const n of neighbours) {
+      if (n < 0 || mask[n] || edges[n] > edgeThreshold) continue;
+
+      const toBackdrop = distanceToBackdrop(n * 4);
+      // Accept close matches, or smooth continuations of a lighting gradient
+      const smoothStep =
+        colorDistance(data, n * 4, data[p * 4], data[p * 4 + 1], data[p * 4 + 2]) < colorThreshold * 0.35 &&
+        toBackdrop < colorThreshold * 2;
+
+      if (toBackdrop < colorThreshold || smoothStep) {
+        mask[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  const feathered = featherMask(mask, width, height, Math.max(1, Math.round(Math.min(width, height) / 150)));
+
+  const [targetR, targetG, targetB] = hexToRgb(color);
+  let replaced = 0;
+  for (let p = 0; p < pixelCount; p++) {
+    const alpha = feathered[p];
+    if (alpha <= 0) continue;
+    const i = p * 4;
+    data[i] = Math.round(data[i] + (targetR - data[i]) * alpha);
+    data[i + 1] = Math.round(data[i + 1] + (targetG - data[i + 1]) * alpha);
+    data[i + 2] = Math.round(data[i + 2] + (targetB - data[i + 2]) * alpha);
+    data[i + 3] = 255;
+    if (alpha >= 0.5) replaced++;
+  }
+
+  return replaced / pixelCount;
+}
+
+/**
+ * Two-pass box blur of the mask for a soft outline around hair and shoulders
+ */
+function featherMask(mask: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const temp = new Float32Array(mask.length);
+  const out = new Float32Array(mask.length);
+  const span = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const xx = Math.min(width - 1, Math.max(0, x + k));
+        sum += mask[y * width + xx];
+      }
+      temp[y * width + x] = sum / span;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const yy = Math.min(height - 1, Math.max(0, y + k));
+        sum += temp[yy * width + x];
+      }
+      // Keep confidently-filled pixels fully replaced
+      out[y * width + x] = mask[y * width + x] ? Math.max(sum / span, 0.85) : sum / span;
+    }
+  }
+
+  return out;
+}
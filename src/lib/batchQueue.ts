@@ -0,0 +1,47 @@
+/**
+ * Batch Queue
+ *
+ * Builds the list of documents a preset asks for (photo, signature and any
+ * extras such as a thumb impression or declaration) as batch queue items.
+ */
+
+import type { BatchItem, ExamPreset, ImageSpec } from '@/types';
+import { DEFAULT_TONE_ADJUSTMENTS } from './toneAdjust';
+
+function createItem(id: string, kind: BatchItem['kind'], label: string, spec: ImageSpec, quality: number): BatchItem {
+  return {
+    id,
+    kind,
+    label,
+    spec,
+    file: null,
+    imageUrl: null,
+    sourceMetadata: null,
+    cropArea: null,
+    signatureColor: null,
+    tone: DEFAULT_TONE_ADJUSTMENTS,
+    quality,
+    status: 'empty',
+    progress: 0,
+    result: null,
+    error: null,
+  };
+}
+
+/**
+ * One item per document the preset needs
+ * Custom mode uses the custom dimensions for both photo and signature
+ */
+export function createBatchItems(preset: ExamPreset, customSpec: ImageSpec | null, quality: number): BatchItem[] {
+  const photoSpec = customSpec ?? preset.specs.photo;
+  const signatureSpec = customSpec ?? preset.specs.signature;
+
+  const items = [createItem('photo', 'photo', 'Photo', photoSpec, quality)];
+  if (signatureSpec) {
+    items.push(createItem('signature', 'signature', 'Signature', signatureSpec, quality));
+  }
+  for (const extra of customSpec ? [] : preset.specs.extras ?? []) {
+    items.push(createItem(extra.id, 'extra', extra.label, extra, quality));
+  }
+  return items;
+}
@@ -0,0 +1,197 @@
+/**
+ * BMP Decoder
+ *
+ * Pure-TS Windows bitmap decoder for scanner output the browser decodes
+ * inconsistently (RLE, bitfields, OS/2 headers):
+ * - Headers: OS/2 core (12 bytes), BITMAPINFOHEADER (40) and V2-V5
+ * - 1 / 4 / 8-bit palettes, RLE4 and RLE8
+ * - 16 / 32-bit with default or BI_BITFIELDS masks, 24-bit BGR
+ * - Bottom-up and top-down row order
+ */
+
+import type { DecodedImage } from './imageDecoder';
+
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+interface BitField {
+  shift: number;
+  max: number; // Largest value the field holds (0 = field absent)
+}
+
+function toBitField(mask: number): BitField {
+  if (mask === 0) return { shift: 0, max: 0 };
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  return { shift, max: mask >>> shift };
+}
+
+function readField(value: number, field: BitField): number {
+  return field.max === 0 ? 0 : Math.round((((value >>> field.shift) & field.max) * 255) / field.max);
+}
+
+/**
+ * Decode RLE4 / RLE8 into one palette index per pixel (bottom-up rows)
+ */
+function decodeRle(bytes: Uint8Array, start: number, width: number, height: number, nibbles: boolean): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  let x = 0;
+  let y = 0;
+  let p = start;
+
+  const put = (index: number) => {
+    if (x < width && y < height) indices[y * width + x] = index;
+    x++;
+  };
+
+  while (p + 1 < bytes.length && y < height) {
+    const count = bytes[p++];
+    const value = bytes[p++];
+
+    if (count > 0) {
+      // Encoded run: value repeats (RLE4 alternates its two nibbles)
+      for (let i = 0; i < count; i++) put(nibbles ? (i & 1 ? value & 0x0f : value >> 4) : value);
+    } else if (value === 0) {
+      x = 0;
+      y++;
+    } else if (value === 1) {
+      break;
+    } else if (value === 2) {
+      x += bytes[p++];
+      y += bytes[p++];
+    } else {
+      // Absolute run of `value` pixels, padded to a 16-bit boundary
+      const byteCount = nibbles ? Math.ceil(value / 2) : value;
+      for (let i = 0; i < value; i++) {
+        const byte = bytes[p + (nibbles ? i >> 1 : i)];
+        put(nibbles ? (i & 1 ? byte & 0x0f : byte >> 4) : byte);
+      }
+      p += byteCount + (byteCount & 1);
+    }
+  }
+  return indices;
+}
+
+export function isBmp(bytes: Uint8Array): boolean {
+  return bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+}
+
+/**
+ * Decode a BMP file to RGBA pixels
+ */
+export function decodeBmp(bytes: Uint8Array): DecodedImage {
+  if (!isBmp(bytes)) throw new Error('Not a BMP file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const isCore = headerSize === 12;
+
+  const width = isCore ? view.getUint16(18, true) : view.getInt32(18, true);
+  const rawHeight = isCore ? view.getInt16(20, true) : view.getInt32(22, true);
+  const bitCount = isCore ? view.getUint16(24, true) : view.getUint16(28, true);
+  const compression = isCore ? BI_RGB : view.getUint32(30, true);
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+
+  if (width <= 0 || height === 0) throw new Error('This BMP has no pixels');
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) throw new Error(`${bitCount}-bit BMPs are not supported`);
+
+  // Palette follows the header (3-byte entries for OS/2, 4-byte otherwise)
+  const paletteStart = 14 + headerSize + (compression === BI_BITFIELDS && headerSize === 40 ? 12 : 0)
+    + (compression === BI_ALPHABITFIELDS && headerSize === 40 ? 16 : 0);
+  const entrySize = isCore ? 3 : 4;
+  const declaredColours = isCore ? 0 : view.getUint32(46, true);
+  const paletteSize = bitCount <= 8 ? declaredColours || 1 << bitCount : 0;
+  const palette = new Uint8Array(256 * 3);
+  for (let i = 0; i < Math.min(paletteSize, 256); i++) {
+    const p = paletteStart + i * entrySize;
+    if (p + 2 >= bytes.length) break;
+    palette[i * 3] = bytes[p + 2];
+    palette[i * 3 + 1] = bytes[p + 1];
+    palette[i * 3 + 2] = bytes[p];
+  }
+
+  // Channel masks: explicit for bitfields (after a 40-byte header or inside V2+)
+  let red = toBitField(bitCount === 16 ? 0x7c00 : 0x00ff0000);
+  let green = toBitField(bitCount === 16 ? 0x03e0 : 0x0000ff00);
+  let blue = toBitField(bitCount === 16 ? 0x001f : 0x000000ff);
+  let alpha = toBitField(0);
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    red = toBitField(view.getUint32(54, true));
+    green = toBitField(view.getUint32(58, true));
+    blue = toBitField(view.getUint32(62, true));
+    if (compression === BI_ALPHABITFIELDS || headerSize >= 56) alpha = toBitField(view.getUint32(66, true));
+  } else if (bitCount === 32 && headerSize >= 56) {
+    alpha = toBitField(view.getUint32(66, true));
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const rowOf = (fileRow: number) => (topDown ? fileRow : height - 1 - fileRow);
+
+  if (compression === BI_RLE8 || compression === BI_RLE4) {
+    const indices = decodeRle(bytes, pixelOffset, width, height, compression === BI_RLE4);
+    for (let fileRow = 0; fileRow < height; fileRow++) {
+      const y = rowOf(fileRow);
+      for (let x = 0; x < width; x++) {
+        const index = indices[fileRow * width + x];
+        const o = (y * width + x) * 4;
+        data[o] = palette[index * 3];
+        data[o + 1] = palette[index * 3 + 1];
+        data[o + 2] = palette[index * 3 + 2];
+        data[o + 3] = 255;
+      }
+    }
+    return { width, height, data };
+  }
+
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new Error('This BMP uses an unsupported compression');
+  }
+
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  if (pixelOffset + stride * height > bytes.length) throw new Error('This BMP file is truncated');
+  let anyAlpha = false;
+
+  for (let fileRow = 0; fileRow < height; fileRow++) {
+    const rowStart = pixelOffset + fileRow * stride;
+    const y = rowOf(fileRow);
+
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const byte = bytes[rowStart + (bit >> 3)];
+        const index = (byte >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        data[o] = palette[index * 3];
+        data[o + 1] = palette[index * 3 + 1];
+        data[o + 2] = palette[index * 3 + 2];
+        data[o + 3] = 255;
+      } else if (bitCount === 24) {
+        const p = rowStart + x * 3;
+        data[o] = bytes[p + 2];
+        data[o + 1] = bytes[p + 1];
+        data[o + 2] = bytes[p];
+        data[o + 3] = 255;
+      } else {
+        const value = bitCount === 16 ? view.getUint16(rowStart + x * 2, true) : view.getUint32(rowStart + x * 4, true);
+        data[o] = readField(value, red);
+        data[o + 1] = readField(value, green);
+        data[o + 2] = readField(value, blue);
+        data[o + 3] = alpha.max ? readField(value, alpha) : 255;
+        if (alpha.max && data[o + 3] !== 0) anyAlpha = true;
+      }
+    }
+  }
+
+  // Many writers leave the alpha byte at zero: treat an all-transparent image as opaque
+  if (alpha.max && !anyAlpha) {
+    for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  }
+
+  return { width, height, data };
+}
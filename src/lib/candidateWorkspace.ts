@@ -0,0 +1,137 @@
+/**
+ * Candidate Workspace
+ *
+ * IndexedDB store of candidate records (name, application number, preset,
+ * original and processed images) so an operator can serve many candidates
+ * in a day and come back to any of them.
+ *
+ * Everything stays on this device. Records expire after the retention
+ * period so photos don't linger on shared machines.
+ */
+
+import type { CandidateRecord } from '@/types';
+
+const DB_NAME = 'presetphoto-workspace';
+const DB_VERSION = 1;
+const STORE = 'candidates';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_OPTIONS = [1, 7, 30] as const; // Days
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether this browser can keep a workspace (private modes may block it)
+ */
+export function supportsWorkspace(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the workspace'));
+  });
+  // Allow a retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Workspace request failed'));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('Workspace update was aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('Workspace update failed'));
+  });
+}
+
+export function createCandidateId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * All candidates, most recently updated first
+ */
+export async function listCandidates(): Promise<CandidateRecord[]> {
+  const db = await openDatabase();
+  const records = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+  return (records as CandidateRecord[]).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getCandidate(id: string): Promise<CandidateRecord | null> {
+  const db = await openDatabase();
+  const record = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).get(id));
+  return (record as CandidateRecord | undefined) ?? null;
+}
+
+/**
+ * Insert or replace a candidate (keeps the original creation time)
+ */
+export async function saveCandidate(record: CandidateRecord): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).put({ ...record, updatedAt: Date.now() });
+  await transactionDone(transaction);
+}
+
+export async function deleteCandidates(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  ids.forEach((id) => store.delete(id));
+  await transactionDone(transaction);
+}
+
+/**
+ * Remove candidates not touched within the retention period
+ * Returns how many records were deleted
+ */
+export async function purgeExpiredCandidates(retentionDays: number): Promise<number> {
+  const db = await openDatabase();
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const transaction = db.transaction(STORE, 'readwrite');
+  const index = transaction.objectStore(STORE).index('updatedAt');
+
+  let removed = 0;
+  const request = index.openCursor(IDBKeyRange.upperBound(cutoff));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    removed++;
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+  if (removed > 0) console.log(`🧹 Removed ${removed} expired candidate(s) from the workspace`);
+  return removed;
+}
+
+/**
+ * Case-insensitive match on name, application number and preset
+ */
+export function matchesCandidate(record: CandidateRecord, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [record.name, record.applicationNumber, record.preset.label, record.preset.id]
+    .some((field) => field.toLowerCase().includes(q));
+}
@@ -0,0 +1,138 @@
+/**
+ * Caption Band
+ *
+ * Builds and draws the name/date band that SSC, IBPS, RRB and similar
+ * portals expect on candidate photos. The band is carved out of the target
+ * height (the output never grows) and can sit above or below the photo.
+ */
+
+import type { CaptionLayout, CaptionSettings, CaptionDateFormat, CaptionPosition } from '@/types';
+
+// Matches the original behaviour: today's date, DD-MM-YYYY, at the top
+export const DEFAULT_CAPTION_LAYOUT: CaptionLayout = {
+  position: 'top',
+  lines: 'date',
+  dateFormat: 'DD-MM-YYYY',
+};
+
+export const CAPTION_DATE_FORMATS: CaptionDateFormat[] = [
+  'DD-MM-YYYY',
+  'DD/MM/YYYY',
+  'DD.MM.YYYY',
+  'YYYY-MM-DD',
+  'DD MMM YYYY',
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Resolved caption passed to the processor (plain data, safe to post to a worker)
+export interface CaptionRender {
+  position: CaptionPosition;
+  lines: string[];
+}
+
+/**
+ * Format a date the way exam portals print it
+ */
+export function formatCaptionDate(date: Date, format: CaptionDateFormat): string {
+  const dd = String(date.getDate()).padStart(2, '0');
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const yyyy = String(date.getFullYear());
+
+  switch (format) {
+    case 'DD/MM/YYYY':
+      return `${dd}/${mm}/${yyyy}`;
+    case 'DD.MM.YYYY':
+      return `${dd}.${mm}.${yyyy}`;
+    case 'YYYY-MM-DD':
+      return `${yyyy}-${mm}-${dd}`;
+    case 'DD MMM YYYY':
+      return `${dd} ${MONTHS[date.getMonth()]} ${yyyy}`;
+    default:
+      return `${dd}-${mm}-${yyyy}`;
+  }
+}
+
+/**
+ * Pick the date to print based on the chosen source
+ * Falls back to today when the photo has no capture date or no manual date is set
+ */
+export function resolveCaptionDate(settings: CaptionSettings, captureDate: Date | null): Date {
+  if (settings.dateSource === 'exif' && captureDate) {
+    return captureDate;
+  }
+  if (settings.dateSource === 'manual' && settings.manualDate) {
+    const [year, month, day] = settings.manualDate.split('-').map(Number);
+    if (year && month && day) {
+      return new Date(year, month - 1, day);
+    }
+  }
+  return new Date();
+}
+
+/**
+ * Turn caption settings into the text lines to draw
+ * Empty lines (e.g. no name entered yet) are dropped
+ */
+export function buildCaption(
+  settings: CaptionSettings,
+  candidateName: string,
+  captureDate: Date | null
+): CaptionRender {
+  const name = candidateName.trim();
+  const date = formatCaptionDate(resolveCaptionDate(settings, captureDate), settings.dateFormat);
+
+  const lines =
+    settings.lines === 'name' ? [name] :
+    settings.lines === 'name-date' ? [name, date] :
+    [date];
+
+  return {
+    position: settings.position,
+    lines: lines.filter(Boolean),
+  };
+}
+
+/**
+ * Height reserved for the band, carved out of the target height
+ * One line keeps the original 8%; each extra line adds 7%
+ */
+export function getCaptionBandHeight(targetHeight: number, lineCount: number): number {
+  if (lineCount === 0) return 0;
+  return Math.round(targetHeight * (0.08 + 0.07 * (lineCount - 1)));
+}
+
+/**
+ * Draw the caption band (white background, black centred text)
+ * Each line is shrunk until it fits the canvas width
+ */
+export function drawCaptionBand(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  caption: CaptionRender,
+  bandHeight: number
+): void {
+  if (bandHeight === 0 || caption.lines.length === 0) return;
+
+  const bandTop = caption.position === 'bottom' ? canvas.height - bandHeight : 0;
+  const lineHeight = bandHeight / caption.lines.length;
+  const maxTextWidth = canvas.width * 0.94;
+
+  // Fill band area with white
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, bandTop, canvas.width, bandHeight);
+
+  ctx.fillStyle = '#000000';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  caption.lines.forEach((line, index) => {
+    let fontSize = Math.max(8, Math.round(lineHeight * 0.75));
+    ctx.font = `bold ${fontSize}px Arial, sans-serif`;
+    while (fontSize > 6 && ctx.measureText(line).width > maxTextWidth) {
+      fontSize--;
+      ctx.font = `bold ${fontSize}px Arial, sans-serif`;
+    }
+    ctx.fillText(line, canvas.width / 2, bandTop + lineHeight * (index + 0.5));
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * CCITT Fax Decoder
+ *
+ * Pure-TS decoder for the bilevel fax codes (ITU-T T.4 / T.6) that document
+ * scanners use for black-and-white pages, both inside PDFs (CCITTFaxDecode)
+ * and in TIFFs (compression 2, 3 and 4):
+ * - Group 3 one-dimensional (Modified Huffman), with or without EOL codes
+ * - Group 3 two-dimensional (mixed 1D / 2D rows behind a tag bit)
+ * - Group 4 (every row coded against the one above)
+ *
+ * Output is packed rows of 1-bit samples, most significant bit first, in the
+ * polarity the caller asks for. Damaged data keeps the rows decoded so far.
+ */
+
+export interface CcittOptions {
+  k: number; // < 0 Group 4, 0 Group 3 1D, > 0 Group 3 mixed 1D / 2D
+  columns: number;
+  rows: number; // 0 = until the data or its end-of-block code runs out
+  byteAlign: boolean; // Each row starts on a byte boundary
+  blackIs1: boolean; // Black samples as 1 bits (default: 0 bits, white as 1)
+}
+
+// Run length codes by run (0-63), then make-up codes for 64, 128, ... 1728
+const WHITE_TERMINATING = [
+  '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+  '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+  '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011', '0000100',
+  '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011', '00011010',
+  '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+  '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010',
+  '00001011', '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000',
+  '01011001', '01011010', '01011011', '01001010', '01001011', '00110010', '00110011', '00110100',
+];
+const WHITE_MAKEUP = [
+  '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101', '01101000',
+  '01100111', '011001100', '011001101', '011010010', '011010011', '011010100', '011010101', '011010110',
+  '011010111', '011011000', '011011001', '011011010', '011011011', '010011000', '010011001', '010011010',
+  '011000', '010011011',
+];
+const BLACK_TERMINATING = [
+  '0000110111', '010', '11', '10', '011', '0011', '0010', '00011',
+  '000101', '000100', '0000100', '0000101', '0000111', '00000100', '00000111', '000011000',
+  '0000010111', '0000011000', '0000001000', '00001100111', '00001101000', '00001101100', '00000110111', '00000101000',
+  '00000010111', '00000011000', '000011001010', '000011001011', '000011001100', '000011001101', '000001101000', '000001101001',
+  '000001101010', '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110', '000011010111',
+  '000001101100', '000001101101', '000011011010', '000011011011', '000001010100', '000001010101', '000001010110', '000001010111',
+  '000001100100', '000001100101', '000001010010', '000001010011', '000000100100', '000000110111', '000000111000', '000000100111',
+  '000000101000', '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110', '000001100111',
+];
+const BLACK_MAKEUP = [
+  '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100', '000000110101',
+  '0000001101100', '0000001101101', '0000001001010', '0000001001011', '0000001001100', '0000001001101',
+  '0000001110010', '0000001110011', '0000001110100', '0000001110101', '0000001110110', '0000001110111',
+  '0000001010010', '0000001010011', '0000001010100', '0000001010101', '0000001011010', '0000001011011',
+  '0000001100100', '0000001100101',
+];
+// Make-up codes for 1792, 1856, ... 2560, shared by both colours
+const EXTENDED_MAKEUP = [
+  '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100', '000000010101',
+  '000000010110', '000000010111', '000000011100', '000000011101', '000000011110', '000000011111',
+];
+
+// Two-dimensional coding modes (vertical modes are the offset itself)
+const MODE_PASS = 100;
+const MODE_HORIZONTAL = 101;
+const MODE_CODES: [string, number][] = [
+  ['1', 0], // Vertical: a1 = b1 + offset
+  ['011', 1],
+  ['000011', 2],
+  ['0000011', 3],
+  ['010', -1],
+  ['000010', -2],
+  ['0000010', -3],
+  ['0001', MODE_PASS],
+  ['001', MODE_HORIZONTAL],
+];
+
+const MAX_CODE_BITS = 13;
+const EOL_ZEROS = 11; // An EOL is 11 zeros and a 1 (plus any fill zeros before it)
+const NO_CODE = 0x7fff;
+
+/**
+ * Lookup keyed by the code's bits behind a leading 1, so lengths never collide
+ */
+function buildTable(codes: [string, number][]): Int16Array {
+  const table = new Int16Array(1 << (MAX_CODE_BITS + 1)).fill(NO_CODE);
+  for (const [code, value] of codes) table[parseInt(`1${code}`, 2)] = value;
+  return table;
+}
+
+function runTable(terminating: string[], makeup: string[]): Int16Array {
+  return buildTable([
+    ...terminating.map((code, run): [string, number] => [code, run]),
+    ...makeup.map((code, i): [string, number] => [code, (i + 1) * 64]),
+    ...EXTENDED_MAKEUP.map((code, i): [string, number] => [code, 1792 + i * 64]),
+  ]);
+}
+
+let tables: { white: Int16Array; black: Int16Array; modes: Int16Array } | null = null;
+
+function getTables() {
+  if (!tables) {
+    tables = {
+      white: runTable(WHITE_TERMINATING, WHITE_MAKEUP),
+      black: runTable(BLACK_TERMINATING, BLACK_MAKEUP),
+      modes: buildTable(MODE_CODES),
+    };
+  }
+  return tables;
+}
+
+class BitReader {
+  private pos = 0;
+  private readonly end: number;
+
+  constructor(private readonly data: Uint8Array) {
+    this.end = data.length * 8;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  bit(): number {
+    const pos = this.pos++;
+    return pos < this.end ? (this.data[pos >> 3] >> (7 - (pos & 7))) & 1 : 0;
+  }
+
+  alignToByte(): void {
+    this.pos = (this.pos + 7) & ~7;
+  }
+
+  /**
+   * Consume an EOL (with any fill zeros before it); false if none is next.
+   * Zero padding that runs to the end of the data is consumed too.
+   */
+  skipEol(): boolean {
+    let pos = this.pos;
+    while (pos < this.end && ((this.data[pos >> 3] >> (7 - (pos & 7))) & 1) === 0) pos++;
+    if (pos >= this.end) {
+      this.pos = this.end;
+      return false;
+    }
+    if (pos - this.pos < EOL_ZEROS) return false;
+    this.pos = pos + 1;
+    return true;
+  }
+
+  /**
+   * Read one prefix code; NO_CODE when the bits match nothing in the table
+   */
+  code(table: Int16Array): number {
+    let key = 1;
+    for (let length = 0; length < MAX_CODE_BITS; length++) {
+      if (this.done) return NO_CODE;
+      key = (key << 1) | this.bit();
+      if (table[key] !== NO_CODE) return table[key];
+    }
+    return NO_CODE;
+  }
+
+  /**
+   * A run length: make-up codes until a terminating code (< 64)
+   */
+  run(table: Int16Array): number {
+    let total = 0;
+    for (;;) {
+      const value = this.code(table);
+      if (value === NO_CODE) throw new Error('Invalid fax run length code');
+      total += value;
+      if (value < 64) return total;
+    }
+  }
+}
+
+/**
+ * Changing elements of a one-dimensionally coded row (even indices start black runs)
+ */
+function decodeRow1d(reader: BitReader, columns: number, changes: number[]): void {
+  const { white, black } = getTables();
+  let a0 = 0;
+  let isWhite = true;
+  while (a0 < columns) {
+    a0 = Math.min(columns, a0 + reader.run(isWhite ? white : black));
+    changes.push(a0);
+    isWhite = !isWhite;
+  }
+}
+
+/**
+ * Changing elements of a row coded against the reference row above it
+ */
+function decodeRow2d(reader: BitReader, columns: number, reference: number[], changes: number[]): void {
+  const { white, black, modes } = getTables();
+  let a0 = -1; // Imaginary white pixel before the row
+  let isWhite = true;
+  let b = 0; // Index of b1 in the reference row
+
+  while (a0 < columns) {
+    // b1: first reference change right of a0 that starts a run of the other colour
+    while (b < reference.length && (reference[b] <= a0 || (b & 1) !== (isWhite ? 0 : 1))) b++;
+    const b1 = b < reference.length ? reference[b] : columns;
+    const b2 = b + 1 < reference.length ? reference[b + 1] : columns;
+
+    const mode = reader.code(modes);
+    if (mode === NO_CODE) throw new Error('Invalid fax coding mode');
+
+    if (mode === MODE_PASS) {
+      a0 = b2;
+      b += 2;
+    } else if (mode === MODE_HORIZONTAL) {
+      const start = Math.max(a0, 0);
+      const a1 = Math.min(columns, start + reader.run(isWhite ? white : black));
+      const a2 = Math.min(columns, a1 + reader.run(isWhite ? black : white));
+      changes.push(a1, a2);
+      a0 = a2;
+    } else {
+      const a1 = Math.max(a0, 0, Math.min(columns, b1 + mode));
+      changes.push(a1);
+      a0 = a1;
+      isWhite = !isWhite;
+      // A left vertical mode can land before a reference change skipped for its colour
+      b = Math.max(0, b - 1);
+    }
+  }
+}
+
+function fillRow(changes: number[], row: Uint8Array, blackIs1: boolean): void {
+  // Rows start out white; flip the black runs
+  for (let i = 0; i + 1 < changes.length; i += 2) {
+    for (let x = changes[i]; x < changes[i + 1]; x++) {
+      const mask = 0x80 >> (x & 7);
+      row[x >> 3] = blackIs1 ? row[x >> 3] | mask : row[x >> 3] & ~mask;
+    }
+  }
+}
+
+/**
+ * Decode fax-coded data to packed 1-bit rows (ceil(columns / 8) bytes each)
+ */
+export function decodeCcitt(data: Uint8Array, options: CcittOptions): Uint8Array {
+  const { k, columns, byteAlign, blackIs1 } = options;
+  if (columns <= 0) throw new Error('Fax image has no width');
+  const rowBytes = Math.ceil(columns / 8);
+  const reader = new BitReader(data);
+  const rows: Uint8Array[] = [];
+  let reference: number[] = [columns];
+
+  while (options.rows <= 0 || rows.length < options.rows) {
+    if (byteAlign) reader.alignToByte();
+    // EOLs before rows (Group 3, with the 2D tag bit after); two in a row end the block (RTC / EOFB)
+    const hadEol = reader.skipEol();
+    const tag = k > 0 && !reader.done ? reader.bit() : 0;
+    if ((hadEol && reader.skipEol()) || reader.done) break;
+
+    const oneDimensional = k === 0 || tag === 1;
+    const changes: number[] = [];
+    try {
+      if (oneDimensional) decodeRow1d(reader, columns, changes);
+      else decodeRow2d(reader, columns, reference, changes);
+    } catch (error) {
+      if (rows.length === 0) throw error;
+      console.warn(`⚠️ Fax data damaged after ${rows.length} rows, keeping those`);
+      break;
+    }
+
+    const row = new Uint8Array(rowBytes).fill(blackIs1 ? 0 : 0xff);
+    fillRow(changes, row, blackIs1);
+    rows.push(row);
+    reference = changes;
+  }
+
+  const height = options.rows > 0 ? options.rows : rows.length;
+  const out = new Uint8Array(rowBytes * height).fill(blackIs1 ? 0 : 0xff);
+  rows.forEach((row, y) => out.set(row, y * rowBytes));
+  return out;
+}
@@ -0,0 +1,287 @@
+/**
+ * Compliance Checker
+ *
+ * Analyses a processed photo against its preset the way portal reviewers do
+ * and reports each rule as pass / warn / fail:
+ * - Background: border uniformity and brightness (or the preset colour)
+ * - Sharpness: variance of the Laplacian on the face (or the whole photo)
+ * - Exposure: face brightness and clipped highlights / shadows
+ * - Face centring and head size ratio (faceFraming rules)
+ * - Colour vs greyscale
+ *
+ * Only the photo area is analysed - the caption band is excluded.
+ * Thresholds are tuned for the small JPEGs exam portals ask for.
+ */
+
+import type { ComplianceCheck, ComplianceReport, ComplianceStatus, ImageSpec } from '@/types';
+import { parseBackgroundColor } from './backgroundReplacer';
+import { detectFace, type DetectedFace } from './faceDetector';
+import { DEFAULT_FACE_FRAMING } from './faceFraming';
+
+const STATUS_RANK: Record<ComplianceStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function luminance(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+function grade(value: number, passAt: number, warnAt: number): ComplianceStatus {
+  // Higher is better when passAt > warnAt, lower is better otherwise
+  if (passAt >= warnAt) {
+    return value >= passAt ? 'pass' : value >= warnAt ? 'warn' : 'fail';
+  }
+  return value <= passAt ? 'pass' : value <= warnAt ? 'warn' : 'fail';
+}
+
+/**
+ * Whole-pixel region inside the image (the checks index pixels directly)
+ */
+export function clampRegion(region: Region, width: number, height: number): Region {
+  const x = Math.max(0, Math.floor(region.x));
+  const y = Math.max(0, Math.floor(region.y));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.ceil(region.width))),
+    height: Math.max(1, Math.min(height - y, Math.ceil(region.height))),
+  };
+}
+
+/**
+ * Border strips a backdrop shows through: top rows and the upper sides
+ */
+function getBackgroundPixels(width: number, height: number): number[] {
+  const pixels: number[] = [];
+  const topRows = Math.max(1, Math.round(height * 0.08));
+  const sideCols = Math.max(1, Math.round(width * 0.06));
+  const sideLimit = Math.round(height * 0.6);
+
+  for (let y = 0; y < topRows; y++) {
+    for (let x = 0; x < width; x++) pixels.push(y * width + x);
+  }
+  for (let y = topRows; y < sideLimit; y++) {
+    for (let x = 0; x < sideCols; x++) {
+      pixels.push(y * width + x, y * width + width - 1 - x);
+    }
+  }
+  return pixels;
+}
+
+export function checkBackground(imageData: ImageData, spec: ImageSpec): ComplianceCheck {
+  const { width, height, data } = imageData;
+  const pixels = getBackgroundPixels(width, height);
+
+  let r = 0, g = 0, b = 0;
+  for (const p of pixels) {
+    r += data[p * 4];
+    g += data[p * 4 + 1];
+    b += data[p * 4 + 2];
+  }
+  r /= pixels.length;
+  g /= pixels.length;
+  b /= pixels.length;
+
+  let variance = 0;
+  for (const p of pixels) {
+    const i = p * 4;
+    variance += (data[i] - r) ** 2 + (data[i + 1] - g) ** 2 + (data[i + 2] - b) ** 2;
+  }
+  const spread = Math.sqrt(variance / pixels.length / 3);
+  const uniformity = grade(spread, 12, 25);
+
+  const target = parseBackgroundColor(spec.background);
+  let colourStatus: ComplianceStatus = 'pass';
+  let colourDetail = '';
+  if (target) {
+    const value = parseInt(target.slice(1), 16);
+    const distance = Math.sqrt(
+      (r - ((value >> 16) & 255)) ** 2 + (g - ((value >> 8) & 255)) ** 2 + (b - (value & 255)) ** 2
+    );
+    colourStatus = grade(distance, 35, 70);
+    colourDetail = colourStatus === 'pass' ? `, matches ${spec.background}` : `, should be ${spec.background}`;
+  }
+
+  const status = STATUS_RANK[uniformity] >= STATUS_RANK[colourStatus] ? uniformity : colourStatus;
+  const evenness = uniformity === 'pass' ? 'Even backdrop' : uniformity === 'warn' ? 'Slightly patchy backdrop' : 'Uneven backdrop (shadows or clutter)';
+  return {
+    id: 'background',
+    label: 'Background',
+    status,
+    detail: `${evenness}${colourDetail}`,
+  };
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian - low values mean a soft image
+ */
+function checkSharpness(imageData: ImageData, region: Region): ComplianceCheck {
+  const { width, data } = imageData;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = region.y + 1; y < region.y + region.height - 1; y++) {
+    for (let x = region.x + 1; x < region.x + region.width - 1; x++) {
+      const i = (y * width + x) * 4;
+      const laplacian =
+        4 * luminance(data, i) -
+        luminance(data, i - 4) - luminance(data, i + 4) -
+        luminance(data, i - width * 4) - luminance(data, i + width * 4);
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const variance = count > 0 ? sumSquares / count - (sum / count) ** 2 : 0;
+  const status = grade(variance, 80, 30);
+  return {
+    id: 'sharpness',
+    label: 'Sharpness',
+    status,
+    detail: status === 'pass' ? 'In focus' : status === 'warn' ? 'Slightly soft - check focus' : 'Blurry - retake or use a sharper photo',
+  };
+}
+
+export function checkExposure(imageData: ImageData, region: Region): ComplianceCheck {
+  const { width, data } = imageData;
+  let total = 0;
+  let highlights = 0;
+  let shadows = 0;
+  let count = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const luma = luminance(data, (y * width + x) * 4);
+      total += luma;
+      if (luma >= 250) highlights++;
+      if (luma <= 8) shadows++;
+      count++;
+    }
+  }
+
+  const mean = total / count;
+  const clipped = Math.max(highlights, shadows) / count;
+  const meanStatus: ComplianceStatus = mean >= 80 && mean <= 210 ? 'pass' : mean >= 55 && mean <= 235 ? 'warn' : 'fail';
+  const clipStatus = grade(clipped, 0.05, 0.15);
+  const status = STATUS_RANK[meanStatus] >= STATUS_RANK[clipStatus] ? meanStatus : clipStatus;
+
+  let detail = 'Face well exposed';
+  if (status !== 'pass') {
+    detail = highlights > shadows || mean > 210 ? 'Overexposed - face is washed out' : 'Underexposed - face is too dark';
+  }
+  return { id: 'exposure', label: 'Exposure', status, detail };
+}
+
+function checkFaceCentring(face: DetectedFace, width: number): ComplianceCheck {
+  const offset = Math.abs(face.x + face.width / 2 - width / 2) / width;
+  const status = grade(offset, 0.05, 0.12);
+  return {
+    id: 'face-centring',
+    label: 'Face Centring',
+    status,
+    detail: status === 'pass' ? 'Face is centred' : `Face is ${Math.round(offset * 100)}% off centre`,
+  };
+}
+
+function checkHeadSize(face: DetectedFace, height: number, spec: ImageSpec): ComplianceCheck {
+  const expected = (spec.faceFraming ?? DEFAULT_FACE_FRAMING).headHeightRatio;
+  const ratio = (face.chinY - face.crownY) / height;
+  const status = grade(Math.abs(ratio - expected), 0.1, 0.2);
+  const percent = Math.round(ratio * 100);
+  return {
+    id: 'head-size',
+    label: 'Head Size',
+    status,
+    detail: status === 'pass'
+      ? `Head fills ${percent}% of the height`
+      : `Head fills ${percent}% of the height (expected about ${Math.round(expected * 100)}%)`,
+  };
+}
+
+function checkColour(imageData: ImageData): ComplianceCheck {
+  const { data } = imageData;
+  let chroma = 0;
+  let count = 0;
+  for (let i = 0; i < data.length; i += 16) {
+    chroma += Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]);
+    count++;
+  }
+  const meanChroma = chroma / count;
+  const status = grade(meanChroma, 6, 3);
+  return {
+    id: 'colour',
+    label: 'Colour Photo',
+    status,
+    detail: status === 'pass' ? 'Colour photo' : 'Looks black & white - portals require a colour photo',
+  };
+}
+
+/**
+ * Run every rule on the photo area
+ * Face rules degrade to a warning when no face can be located
+ */
+export function evaluateCompliance(imageData: ImageData, face: DetectedFace | null, spec: ImageSpec): ComplianceReport {
+  const { width, height } = imageData;
+  // Inner part of the face box so backdrop corners don't count as skin
+  const faceRegion = face
+    ? clampRegion(
+        { x: face.x + face.width * 0.2, y: face.y + face.height * 0.15, width: face.width * 0.6, height: face.height * 0.7 },
+        width,
+        height
+      )
+    : clampRegion({ x: width * 0.25, y: height * 0.15, width: width * 0.5, height: height * 0.5 }, width, height);
+
+  const checks: ComplianceCheck[] = [
+    checkBackground(imageData, spec),
+    checkSharpness(imageData, faceRegion),
+    checkExposure(imageData, faceRegion),
+  ];
+
+  if (face) {
+    checks.push(checkFaceCentring(face, width), checkHeadSize(face, height, spec));
+  } else {
+    checks.push({
+      id: 'face-centring',
+      label: 'Face',
+      status: 'warn',
+      detail: 'No face found - make sure your face is clearly visible',
+    });
+  }
+
+  checks.push(checkColour(imageData));
+
+  const status = checks.reduce<ComplianceStatus>(
+    (worst, check) => (STATUS_RANK[check.status] > STATUS_RANK[worst] ? check.status : worst),
+    'pass'
+  );
+  return { status, checks };
+}
+
+/**
+ * Decode a processed photo, locate the face and evaluate it (main thread)
+ */
+export async function analyzeCompliance(
+  image: Blob,
+  spec: ImageSpec,
+  imageArea: { top: number; height: number }
+): Promise<ComplianceReport> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = Math.max(1, Math.min(imageArea.height, bitmap.height - imageArea.top));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.drawImage(bitmap, 0, -imageArea.top);
+  bitmap.close();
+
+  const face = await detectFace(canvas);
+  return evaluateCompliance(ctx.getImageData(0, 0, canvas.width, canvas.height), face, spec);
+}
@@ -0,0 +1,155 @@
+/**
+ * Density Writer
+ *
+ * Browsers write whatever pixel density they like into encoded images
+ * (usually JFIF 1:1 "no units", sometimes 72 or 96 DPI). Portals that check
+ * 200/300 DPI read these fields, so the declared DPI is written here:
+ * - JPEG: JFIF APP0 density (inserted if the encoder left it out), plus
+ *   XResolution / YResolution / ResolutionUnit when an EXIF block exists
+ * - PNG: pHYs chunk in pixels per metre
+ * Other containers have no standard density field and are returned as is.
+ */
+
+import { crc32 } from './zipWriter';
+
+// Bytes a density block can add when the encoder wrote none (JFIF APP0 is 18)
+export const DENSITY_RESERVE_BYTES = 32;
+
+const JFIF_APP0 = [
+  0xff, 0xe0, 0x00, 0x10, // APP0, length 16
+  0x4a, 0x46, 0x49, 0x46, 0x00, // "JFIF\0"
+  0x01, 0x01, // Version 1.1
+  0x01, // Units: dots per inch
+  0x00, 0x00, 0x00, 0x00, // X / Y density (filled in)
+  0x00, 0x00, // No thumbnail
+];
+
+const EXIF_X_RESOLUTION = 0x011a;
+const EXIF_Y_RESOLUTION = 0x011b;
+const EXIF_RESOLUTION_UNIT = 0x0128;
+
+function isJfif(bytes: Uint8Array, offset: number): boolean {
+  return bytes[offset + 4] === 0x4a && bytes[offset + 5] === 0x46 && bytes[offset + 6] === 0x49 &&
+    bytes[offset + 7] === 0x46 && bytes[offset + 8] === 0x00;
+}
+
+/**
+ * Patch existing resolution tags in an EXIF APP1 segment (IFD0 only)
+ */
+function patchExifDensity(bytes: Uint8Array, segmentStart: number, segmentEnd: number, dpi: number): void {
+  const tiff = segmentStart + 10; // Marker, length and "Exif\0\0"
+  if (tiff + 8 > segmentEnd) return;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > segmentEnd) return;
+
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > segmentEnd) return;
+    const tag = view.getUint16(entry, little);
+
+    if (tag === EXIF_RESOLUTION_UNIT) {
+      view.setUint16(entry + 8, 2, little); // Inches
+    } else if (tag === EXIF_X_RESOLUTION || tag === EXIF_Y_RESOLUTION) {
+      const rational = tiff + view.getUint32(entry + 8, little);
+      if (rational + 8 > segmentEnd) continue;
+      view.setUint32(rational, dpi, little);
+      view.setUint32(rational + 4, 1, little);
+    }
+  }
+}
+
+function setJpegDensity(bytes: Uint8Array, dpi: number): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let jfifOffset = -1;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // Start of scan
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) return null;
+    if (marker === 0xe0 && isJfif(bytes, offset) && jfifOffset < 0) {
+      jfifOffset = offset;
+    } else if (marker === 0xe1) {
+      patchExifDensity(bytes, offset, end, dpi);
+    }
+    offset = end;
+  }
+
+  let out = bytes;
+  if (jfifOffset < 0) {
+    out = new Uint8Array(bytes.length + JFIF_APP0.length);
+    out.set(bytes.subarray(0, 2), 0);
+    out.set(JFIF_APP0, 2);
+    out.set(bytes.subarray(2), 2 + JFIF_APP0.length);
+    jfifOffset = 2;
+  }
+
+  // Units byte and 16-bit big-endian densities follow "JFIF\0" + version
+  out[jfifOffset + 11] = 1;
+  out[jfifOffset + 12] = (dpi >> 8) & 0xff;
+  out[jfifOffset + 13] = dpi & 0xff;
+  out[jfifOffset + 14] = (dpi >> 8) & 0xff;
+  out[jfifOffset + 15] = dpi & 0xff;
+  return out;
+}
+
+function setPngDensity(bytes: Uint8Array, dpi: number): Uint8Array | null {
+  if (bytes.length < 33 || bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) return null;
+
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // Drop any existing pHYs, then place ours right after IHDR
+  const source = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ihdrEnd = 8 + 12 + source.getUint32(8);
+  const parts: Uint8Array[] = [bytes.subarray(0, ihdrEnd), chunk];
+  let offset = ihdrEnd;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + source.getUint32(offset);
+    if (end > bytes.length) return null;
+    const isPhys = bytes[offset + 4] === 0x70 && bytes[offset + 5] === 0x48 && bytes[offset + 6] === 0x59 && bytes[offset + 7] === 0x73;
+    if (!isPhys) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+/**
+ * Write the declared DPI into an encoded image
+ */
+export async function setImageDensity(blob: Blob, dpi: number): Promise<Blob> {
+  const density = Math.round(dpi);
+  if (!(density > 0 && density <= 0xffff)) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let updated: Uint8Array | null = null;
+  switch (blob.type) {
+    case 'image/jpeg': updated = setJpegDensity(bytes, density); break;
+    case 'image/png': updated = setPngDensity(bytes, density); break;
+  }
+  if (!updated) return blob;
+
+  const out = new Uint8Array(updated.length);
+  out.set(updated);
+  return new Blob([out], { type: blob.type });
+}
@@ -0,0 +1,179 @@
+/**
+ * EXIF Reader
+ *
+ * Minimal JPEG/EXIF parser: walks the JPEG marker segments, finds the APP1
+ * "Exif" block and reads the handful of TIFF tags the app needs
+ * (orientation, capture date, camera, presence of GPS).
+ * Only the first 128KB of the file is read - EXIF always sits up front.
+ */
+
+import type { ImageMetadata } from '@/types';
+
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+// TIFF tag ids
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// Byte sizes of the TIFF field types we may encounter
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type ExifValue = number | string | number[];
+
+/**
+ * Locate the TIFF header inside a JPEG's APP1 Exif segment
+ * Returns the offset of the TIFF header or -1 when there is no EXIF
+ */
+function findTiffHeader(view: DataView): number {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return -1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return -1;
+
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xffda) return -1;
+
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength) {
+      // "Exif\0\0"
+      if (view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return offset + 10;
+      }
+    }
+    offset += 2 + length;
+  }
+  return -1;
+}
+
+function readValue(view: DataView, tiff: number, entry: number, little: boolean): ExifValue | null {
+  const type = view.getUint16(entry + 2, little);
+  const count = view.getUint32(entry + 4, little);
+  const size = TYPE_SIZES[type];
+  if (!size) return null;
+
+  const total = size * count;
+  const valueOffset = total <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+  if (valueOffset + total > view.byteLength) return null;
+
+  if (type === 2) {
+    let text = '';
+    for (let i = 0; i < count; i++) {
+      const code = view.getUint8(valueOffset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = valueOffset + i * size;
+    switch (type) {
+      case 3: values.push(view.getUint16(at, little)); break;
+      case 4: values.push(view.getUint32(at, little)); break;
+      case 9: values.push(view.getInt32(at, little)); break;
+      case 5: values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)); break;
+      case 10: values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1)); break;
+      default: values.push(view.getUint8(at));
+    }
+  }
+  return count === 1 ? values[0] : values;
+}
+
+/**
+ * Read every entry of one IFD into the tag map
+ */
+function readIfd(view: DataView, tiff: number, ifdOffset: number, little: boolean, tags: Map<number, ExifValue>): void {
+  const start = tiff + ifdOffset;
+  if (start + 2 > view.byteLength) return;
+
+  const entries = view.getUint16(start, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) return;
+    const value = readValue(view, tiff, entry, little);
+    if (value !== null) {
+      tags.set(view.getUint16(entry, little), value);
+    }
+  }
+}
+
+/**
+ * Parse IFD0 and the Exif sub-IFD of a JPEG into a flat tag map
+ */
+function readExifTags(buffer: ArrayBuffer): Map<number, ExifValue> | null {
+  const view = new DataView(buffer);
+  const tiff = findTiffHeader(view);
+  if (tiff < 0 || tiff + 8 > view.byteLength) return null;
+
+  const little = view.getUint16(tiff) === 0x4949; // "II" = Intel byte order
+  if (view.getUint16(tiff + 2, little) !== 42) return null;
+
+  const tags = new Map<number, ExifValue>();
+  readIfd(view, tiff, view.getUint32(tiff + 4, little), little, tags);
+
+  const exifIfd = tags.get(TAG_EXIF_IFD);
+  if (typeof exifIfd === 'number') {
+    readIfd(view, tiff, exifIfd, little, tags);
+  }
+  return tags;
+}
+
+/**
+ * Parse an EXIF "YYYY:MM:DD HH:MM:SS" timestamp (local time, no zone)
+ */
+function parseExifDate(value: ExifValue | undefined): Date | null {
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  if (!year || !month || !day) return null; // "0000:00:00" placeholders
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+const NO_METADATA: ImageMetadata = {
+  hasExif: false,
+  orientation: 1,
+  captureDate: null,
+  camera: null,
+  hasGps: false,
+};
+
+/**
+ * Inspect the metadata an uploaded file carries
+ * Non-JPEGs and files without EXIF report an upright, metadata-free image
+ */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  try {
+    const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+    const tags = readExifTags(buffer);
+    if (!tags) return NO_METADATA;
+
+    const orientation = tags.get(TAG_ORIENTATION);
+    const captureDate = parseExifDate(tags.get(TAG_DATETIME_ORIGINAL)) ?? parseExifDate(tags.get(TAG_DATETIME));
+    const make = tags.get(TAG_MAKE);
+    const model = tags.get(TAG_MODEL);
+    const camera = [make, model]
+      .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+      .map((part) => part.trim())
+      .join(' ');
+
+    return {
+      hasExif: true,
+      orientation: typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : 1,
+      captureDate: captureDate ? captureDate.toISOString() : null,
+      camera: camera || null,
+      hasGps: tags.has(TAG_GPS_IFD),
+    };
+  } catch {
+    return NO_METADATA;
+  }
+}
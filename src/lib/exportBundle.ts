@@ -0,0 +1,154 @@
+/**
+ * Export Bundle
+ *
+ * Packs processed outputs into one ZIP for download, with a manifest.json
+ * recording what each file was made for (preset, size, format, date band).
+ *
+ * File names come from a template with these placeholders:
+ * - {name}    candidate name
+ * - {preset}  preset id
+ * - {type}    document type (photo, signature, thumb, ...)
+ * - {date}    export date (YYYY-MM-DD)
+ * The extension always follows the output format.
+ */
+
+import type { ImageSpec, ProcessedResult } from '@/types';
+import { FORMAT_INFO } from './outputFormats';
+import { createZip } from './zipWriter';
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{name}_{preset}_{type}';
+
+export interface FileNameValues {
+  name: string;
+  preset: string;
+  type: string;
+  date?: Date;
+}
+
+export interface ExportAsset {
+  type: string; // Document type, e.g. 'photo' or 'signature'
+  label: string;
+  spec: ImageSpec;
+  result: ProcessedResult;
+  dateBand?: string[] | null; // Caption lines printed on the photo, if any
+}
+
+export interface ExportBundleOptions {
+  presetId: string;
+  presetName: string;
+  candidateName: string;
+  template: string;
+}
+
+function toIsoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Keep names portable across Windows/macOS/Linux and portal uploaders
+function sanitizeSegment(value: string): string {
+  return value
+    .trim()
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '')
+    .replace(/\s+/g, '_');
+}
+
+/**
+ * Resolve a file name template (without extension)
+ * Placeholders with no value are dropped along with a dangling separator
+ */
+export function formatFileName(template: string, values: FileNameValues): string {
+  const tokens: Record<string, string> = {
+    name: sanitizeSegment(values.name),
+    preset: sanitizeSegment(values.preset),
+    type: sanitizeSegment(values.type),
+    date: toIsoDate(values.date ?? new Date()),
+  };
+
+  const base = (template.trim() || DEFAULT_FILE_NAME_TEMPLATE)
+    .replace(/\.[a-z0-9]{2,4}$/i, '') // The format decides the extension
+    .replace(/\{(\w+)\}/g, (match, key: string) => (key in tokens ? tokens[key] : match))
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/([_\-. ])[_\-. ]+/g, '$1')
+    .replace(/^[_\-. ]+|[_\-. ]+$/g, '');
+
+  return base || sanitizeSegment(values.type) || 'document';
+}
+
+/**
+ * Give repeated names a numeric suffix so no entry overwrites another
+ */
+function uniqueName(name: string, extension: string, used: Set<string>): string {
+  let candidate = `${name}.${extension}`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${name}_${n}.${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Build the ZIP of every asset plus manifest.json
+ */
+export async function createExportBundle(assets: ExportAsset[], options: ExportBundleOptions): Promise<Blob> {
+  const exportedAt = new Date();
+  const used = new Set<string>(['manifest.json']);
+
+  const files = assets.map((asset) => {
+    const format = FORMAT_INFO[asset.result.format];
+    const base = formatFileName(options.template, {
+      name: options.candidateName,
+      preset: options.presetId,
+      type: asset.type,
+      date: exportedAt,
+    });
+    return { asset, fileName: uniqueName(base, format.extension, used) };
+  });
+
+  const manifest = {
+    generator: 'PresetPhoto',
+    exportedAt: exportedAt.toISOString(),
+    preset: { id: options.presetId, name: options.presetName },
+    candidateName: options.candidateName.trim() || null,
+    fileNameTemplate: options.template,
+    files: files.map(({ asset, fileName }) => ({
+      file: fileName,
+      type: asset.type,
+      label: asset.label,
+      format: asset.result.format,
+      mimeType: FORMAT_INFO[asset.result.format].mimeType,
+      dimensions: asset.result.dimensions,
+      sizeKB: Math.round(asset.result.sizeKB * 10) / 10,
+      dpi: asset.result.dpi,
+      sizeFloor: asset.result.sizeFloor?.strategy ?? null,
+      required: {
+        widthPx: asset.spec.widthPx,
+        heightPx: asset.spec.heightPx,
+        minSizeKB: asset.spec.minSizeKB,
+        maxSizeKB: asset.spec.maxSizeKB,
+        ...(asset.spec.physicalSize && { physicalSize: asset.spec.physicalSize }),
+      },
+      dateBand: asset.dateBand?.length ? asset.dateBand : null,
+    })),
+  };
+
+  return createZip([
+    ...files.map(({ asset, fileName }) => ({ name: fileName, data: asset.result.blob, lastModified: exportedAt })),
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2), lastModified: exportedAt },
+  ]);
+}
+
+/**
+ * Save a blob through a temporary anchor
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,198 @@
+/**
+ * Face Detector
+ *
+ * Finds the main face in a portrait without downloading a model:
+ * 1. The browser's Shape Detection API (FaceDetector) where it exists
+ * 2. Otherwise a skin-region detector: YCbCr skin mask on a downscaled copy,
+ *    largest connected blob in the upper part of the frame
+ *
+ * Both report the same landmarks (crown, eye line, chin) in image pixels so
+ * callers never care which one ran.
+ */
+
+export interface DetectedFace {
+  x: number; // Face box in image pixels
+  y: number;
+  width: number;
+  height: number;
+  crownY: number; // Estimated top of the head (including hair)
+  eyeY: number;
+  chinY: number;
+  eyes?: [{ x: number; y: number }, { x: number; y: number }]; // Left then right, when the detector reports both
+  method: 'native' | 'skin';
+}
+
+// Minimal typing for the Shape Detection API (not in lib.dom yet)
+interface NativeFaceDetector {
+  detect(source: CanvasImageSource): Promise<Array<{
+    boundingBox: DOMRectReadOnly;
+    landmarks?: Array<{ type: string; locations: Array<{ x: number; y: number }> }>;
+  }>>;
+}
+type NativeFaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => NativeFaceDetector;
+
+const SKIN_ANALYSIS_SIZE = 160;
+const MIN_SKIN_FRACTION = 0.015;
+
+function getNativeDetector(): NativeFaceDetectorConstructor | null {
+  const ctor = (globalThis as unknown as { FaceDetector?: NativeFaceDetectorConstructor }).FaceDetector;
+  return typeof ctor === 'function' ? ctor : null;
+}
+
+async function detectNative(
+  Detector: NativeFaceDetectorConstructor,
+  source: HTMLImageElement | HTMLCanvasElement
+): Promise<DetectedFace | null> {
+  const faces = await new Detector({ fastMode: true, maxDetectedFaces: 1 }).detect(source);
+  if (faces.length === 0) return null;
+
+  const { x, y, width, height } = faces[0].boundingBox;
+  // One landmark per eye; each may be a single point or an outline
+  const eyeCentres = (faces[0].landmarks ?? [])
+    .filter((landmark) => landmark.type === 'eye' && landmark.locations.length > 0)
+    .map(({ locations }) => ({
+      x: locations.reduce((sum, point) => sum + point.x, 0) / locations.length,
+      y: locations.reduce((sum, point) => sum + point.y, 0) / locations.length,
+    }))
+    .sort((a, b) => a.x - b.x);
+  const eyeY = eyeCentres.length > 0
+    ? eyeCentres.reduce((sum, point) => sum + point.y, 0) / eyeCentres.length
+    : y + height * 0.4;
+  const eyes = eyeCentres.length === 2 ? [eyeCentres[0], eyeCentres[1]] as DetectedFace['eyes'] : undefined;
+
+  // The native box runs roughly brow to chin; hair adds about a third on top
+  return {
+    x, y, width, height,
+    crownY: y - height * 0.35,
+    eyeY,
+    chinY: y + height,
+    eyes,
+    method: 'native',
+  };
+}
+
+function isSkin(r: number, g: number, b: number): boolean {
+  const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+  if (luma < 40 || luma > 245) return false;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+/**
+ * Skin-region fallback on ImageData
+ * Works in any context (main thread or worker); coordinates are in data pixels
+ */
+export function detectSkinFace(imageData: ImageData): Omit<DetectedFace, 'method'> | null {
+  const { width, height, data } = imageData;
+  const mask = new Uint8Array(width * height);
+  for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+    mask[p] = isSkin(data[i], data[i + 1], data[i + 2]) ? 1 : 0;
+  }
+
+  // Largest 4-connected skin blob whose top lies in the upper 60% of the frame
+  const labels = new Int32Array(width * height);
+  const queue = new Int32Array(width * height);
+  let best: { count: number; minX: number; maxX: number; minY: number; maxY: number } | null = null;
+  let label = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    const blob = { count: 0, minX: width, maxX: 0, minY: height, maxY: 0 };
+
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width;
+      const y = (p - x) / width;
+      blob.count++;
+      blob.minX = Math.min(blob.minX, x);
+      blob.maxX = Math.max(blob.maxX, x);
+      blob.minY = Math.min(blob.minY, y);
+      blob.maxY = Math.max(blob.maxY, y);
+
+      const neighbours = [
+        x > 0 ? p - 1 : -1,
+        x < width - 1 ? p + 1 : -1,
+        y > 0 ? p - width : -1,
+        y < height - 1 ? p + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !labels[n]) {
+          labels[n] = label;
+          queue[tail++] = n;
+        }
+      }
+    }
+
+    if (blob.minY < height * 0.6 && (!best || blob.count > best.count)) {
+      best = blob;
+    }
+  }
+
+  if (!best || best.count < width * height * MIN_SKIN_FRACTION) return null;
+
+  // Neck and chest often join the face blob - cap the face at a natural 1:1.35
+  const faceWidth = best.maxX - best.minX + 1;
+  const faceHeight = Math.min(best.maxY - best.minY + 1, faceWidth * 1.35);
+  const y = best.minY;
+
+  return {
+    x: best.minX,
+    y,
+    width: faceWidth,
+    height: faceHeight,
+    crownY: y - faceHeight * 0.2, // Skin starts at the hairline
+    eyeY: y + faceHeight * 0.42,
+    chinY: y + faceHeight,
+  };
+}
+
+async function detectSkin(source: HTMLImageElement | HTMLCanvasElement): Promise<DetectedFace | null> {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.min(1, SKIN_ANALYSIS_SIZE / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const face = detectSkinFace(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  if (!face) return null;
+
+  const toImage = canvas.width / sourceWidth;
+  return {
+    x: face.x / toImage,
+    y: face.y / toImage,
+    width: face.width / toImage,
+    height: face.height / toImage,
+    crownY: face.crownY / toImage,
+    eyeY: face.eyeY / toImage,
+    chinY: face.chinY / toImage,
+    method: 'skin',
+  };
+}
+
+/**
+ * Detect the main face in an image (main thread only)
+ * Returns null when nothing face-like is found
+ */
+export async function detectFace(source: HTMLImageElement | HTMLCanvasElement): Promise<DetectedFace | null> {
+  const Detector = getNativeDetector();
+  if (Detector) {
+    try {
+      const face = await detectNative(Detector, source);
+      if (face) return face;
+    } catch (error) {
+      console.warn('⚠️ FaceDetector failed, using skin detection:', error);
+    }
+  }
+  return detectSkin(source);
+}
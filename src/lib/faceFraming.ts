@@ -0,0 +1,84 @@
+/**
+ * Face Framing
+ *
+ * Turns a detected face into the crop exam bulletins ask for: the head
+ * (crown to chin) fills a set share of the frame height and the eyes sit on
+ * a set line from the top. Presets can override both via faceFraming.
+ */
+
+import type { CropArea, FaceFraming } from '@/types';
+import type { DetectedFace } from './faceDetector';
+
+// Typical "face covers 70-80% of the photo" guidance when a preset is silent
+export const DEFAULT_FACE_FRAMING: FaceFraming = {
+  headHeightRatio: 0.7,
+  eyeLine: 0.42,
+};
+
+// The eye line sits about half way down the head (crown to chin), as the detector estimates it
+const EYES_IN_HEAD = 0.52;
+const HEAD_WIDTH_TO_HEIGHT = 0.72;
+
+export interface FramingGuide {
+  crownY: number; // Fractions of the frame height, from the top
+  eyeY: number;
+  chinY: number;
+  headWidth: number; // Fraction of the frame height
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Propose a crop (image pixels, no rotation) that frames the face per the rules
+ * The crop keeps the requested aspect and always stays inside the image
+ */
+export function proposeFaceCrop(
+  face: DetectedFace,
+  imageWidth: number,
+  imageHeight: number,
+  aspectRatio: number,
+  framing: FaceFraming = DEFAULT_FACE_FRAMING
+): CropArea {
+  const headHeight = Math.max(1, face.chinY - face.crownY);
+
+  let height = headHeight / clamp(framing.headHeightRatio, 0.1, 1);
+  let width = height * aspectRatio;
+
+  // Head too large for the photo: use the biggest crop that fits
+  if (width > imageWidth) {
+    width = imageWidth;
+    height = width / aspectRatio;
+  }
+  if (height > imageHeight) {
+    height = imageHeight;
+    width = height * aspectRatio;
+  }
+
+  const centreX = face.x + face.width / 2;
+  const x = clamp(centreX - width / 2, 0, imageWidth - width);
+  const y = clamp(face.eyeY - framing.eyeLine * height, 0, imageHeight - height);
+
+  return {
+    x: Math.round(x),
+    y: Math.round(y),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+}
+
+/**
+ * Where the head should sit in a frame that follows the rules
+ * Drawn as the camera's silhouette guide
+ */
+export function getFramingGuide(framing: FaceFraming = DEFAULT_FACE_FRAMING): FramingGuide {
+  const headHeight = clamp(framing.headHeightRatio, 0.1, 1);
+  const crownY = framing.eyeLine - EYES_IN_HEAD * headHeight;
+  return {
+    crownY,
+    eyeY: framing.eyeLine,
+    chinY: crownY + headHeight,
+    headWidth: headHeight * HEAD_WIDTH_TO_HEIGHT,
+  };
+}
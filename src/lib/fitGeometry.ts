@@ -0,0 +1,99 @@
+/**
+ * Fit Geometry
+ *
+ * Where the photo sits in the output and which part of the source fills it.
+ * The cropper uses the same numbers for its aspect ratio, so a crop drawn
+ * with the name/date band on lands in the output undistorted, and both
+ * processing paths place the crop (or the whole image) through fitToArea.
+ */
+
+import type { CaptionPosition, FitMode, FitSettings } from '@/types';
+import { getCaptionBandHeight } from './captionBand';
+
+export const DEFAULT_FIT_SETTINGS: FitSettings = {
+  mode: 'cover',
+  padColor: '#FFFFFF',
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rows of the output holding the photo, and the band carved out of the rest
+export interface ImageArea {
+  top: number;
+  height: number;
+  bandHeight: number;
+}
+
+// Source rectangle to read and output rectangle to draw it into
+export interface FitPlacement {
+  source: Rect;
+  dest: Rect;
+}
+
+/**
+ * Photo area of a target size once the caption band (if any) is reserved
+ */
+export function getImageArea(targetHeight: number, captionLines: number, position: CaptionPosition = 'top'): ImageArea {
+  const bandHeight = getCaptionBandHeight(targetHeight, captionLines);
+  return {
+    top: position === 'bottom' ? 0 : bandHeight,
+    height: targetHeight - bandHeight,
+    bandHeight,
+  };
+}
+
+/**
+ * Width / height of the photo area - the aspect ratio the cropper must lock to
+ */
+export function getImageAspect(targetWidth: number, targetHeight: number, captionLines = 0): number {
+  const { height } = getImageArea(targetHeight, captionLines);
+  return targetWidth / Math.max(1, height);
+}
+
+/**
+ * Largest centred rectangle of the given aspect ratio inside width × height
+ */
+export function centerCrop(width: number, height: number, aspect: number): Rect {
+  if (width / height > aspect) {
+    const cropWidth = height * aspect;
+    return { x: (width - cropWidth) / 2, y: 0, width: cropWidth, height };
+  }
+  const cropHeight = width / aspect;
+  return { x: 0, y: (height - cropHeight) / 2, width, height: cropHeight };
+}
+
+/**
+ * Place a source rectangle in an output area
+ * - cover: trim the source to the area's aspect ratio (centred), fill the area
+ * - contain: keep the whole source, centred, leaving padding around it
+ * - stretch: fill the area with the whole source, distorting it if needed
+ */
+export function fitToArea(source: Rect, area: Rect, mode: FitMode): FitPlacement {
+  const sourceAspect = source.width / source.height;
+  const areaAspect = area.width / area.height;
+
+  if (mode === 'stretch' || Math.abs(sourceAspect - areaAspect) < 1e-6) {
+    return { source, dest: area };
+  }
+
+  if (mode === 'contain') {
+    const scale = Math.min(area.width / source.width, area.height / source.height);
+    const width = source.width * scale;
+    const height = source.height * scale;
+    return {
+      source,
+      dest: { x: area.x + (area.width - width) / 2, y: area.y + (area.height - height) / 2, width, height },
+    };
+  }
+
+  const trimmed = centerCrop(source.width, source.height, areaAspect);
+  return {
+    source: { ...trimmed, x: source.x + trimmed.x, y: source.y + trimmed.y },
+    dest: area,
+  };
+}
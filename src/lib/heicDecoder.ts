@@ -0,0 +1,53 @@
+/**
+ * HEIC Decoder
+ *
+ * iPhones save photos as HEIC, which only Safari decodes natively. Everywhere
+ * else they go through libheif compiled to WebAssembly (the build with the
+ * wasm inlined). It is loaded on first use, so only users who upload a HEIC
+ * pay for the ~2 MB download: the chunk is left out of the service worker's
+ * precache and cached once fetched (see next.config.js), after which it works
+ * offline like the rest of the app.
+ * - The primary image is used (live photos and bursts hold several)
+ * - Rotation and mirroring from the file's transform boxes are applied by libheif
+ * - Every decoded image is freed, or the WebAssembly heap grows with each upload
+ *
+ * libheif and libheif-js are LGPL-3.0: the chunk is shipped unmodified and
+ * separately replaceable, with the licence in public/licenses/libheif.txt.
+ */
+
+import type { DecodedImage } from './imageDecoder';
+
+const MAX_PIXELS = 100_000_000; // Refuse images that would exhaust memory
+
+let libheifPromise: Promise<typeof import('libheif-js/wasm-bundle').default> | null = null;
+
+function loadLibheif() {
+  if (!libheifPromise) {
+    libheifPromise = import('libheif-js/wasm-bundle').then((module) => module.default);
+    libheifPromise.catch(() => {
+      libheifPromise = null; // Let a later upload retry the download
+    });
+  }
+  return libheifPromise;
+}
+
+export async function decodeHeic(bytes: Uint8Array): Promise<DecodedImage> {
+  const libheif = await loadLibheif();
+  const images = new libheif.HeifDecoder().decode(bytes);
+  try {
+    const image = images.find((candidate) => candidate.is_primary()) ?? images[0];
+    if (!image) throw new Error('Could not read this HEIC photo - the file may be damaged');
+
+    const width = image.get_width();
+    const height = image.get_height();
+    if (width * height > MAX_PIXELS) throw new Error('This HEIC photo is too large to open');
+
+    const pixels = await new Promise<{ data: Uint8ClampedArray } | null>((resolve) => {
+      image.display({ data: new Uint8ClampedArray(width * height * 4), width, height }, resolve);
+    });
+    if (!pixels) throw new Error('Could not read this HEIC photo - the file may be damaged');
+    return { width, height, data: pixels.data };
+  } finally {
+    images.forEach((image) => image.free());
+  }
+}
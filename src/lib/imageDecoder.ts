@@ -0,0 +1,258 @@
+/**
+ * Image Decoder
+ *
+ * Turns any supported upload into a file every later stage (cropper <img>,
+ * createImageBitmap, batch processing) decodes the same way:
+ * - JPEG, PNG and WebP pass through untouched
+ * - Other formats (HEIC, TIFF, BMP, GIF, AVIF) are decoded natively where
+ *   the browser can, otherwise by a bundled decoder, and re-encoded as PNG
+ * - Multi-page TIFFs and PDFs expose their pages so the user can pick one;
+ *   a region of the page can be cut out at full resolution
+ *
+ * Formats are recognised by their magic bytes, not the file name or MIME
+ * type (HEIC often arrives with an empty type). Bundled decoders are
+ * pluggable: registerDecoder() adds or replaces one per format.
+ */
+
+import { decodeBmp } from './bmpDecoder';
+import { decodeHeic } from './heicDecoder';
+import { decodeTiff, listTiffPages } from './tiffDecoder';
+import { listPdfPages, renderPdfPage } from './pdfReader';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'tiff' | 'heic' | 'avif' | 'pdf';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+export interface ImagePage {
+  index: number;
+  width: number;
+  height: number;
+}
+
+// Part of a page to keep, as fractions of its width and height
+export interface PageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type DecoderOutput = DecodedImage | HTMLCanvasElement;
+
+export interface FallbackDecoder {
+  listPages?: (bytes: Uint8Array) => ImagePage[] | Promise<ImagePage[]>;
+  decode: (bytes: Uint8Array, page: number) => DecoderOutput | Promise<DecoderOutput>;
+}
+
+export const FORMAT_LABELS: Record<ImageFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  gif: 'GIF',
+  bmp: 'BMP',
+  tiff: 'TIFF',
+  heic: 'HEIC',
+  avif: 'AVIF',
+  pdf: 'PDF',
+};
+
+// For the file picker; the decoder itself goes by content
+export const ACCEPTED_IMAGE_TYPES = [
+  'image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/tiff',
+  'image/heic', 'image/heif', 'image/avif', '.heic', '.heif', '.tif', '.tiff', '.bmp', '.avif',
+  'application/pdf', '.pdf',
+].join(',');
+
+// Every browser decodes these identically: no conversion needed
+const PASS_THROUGH_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+
+const HEADER_BYTES = 32;
+
+const decoders = new Map<ImageFormat, FallbackDecoder>([
+  ['bmp', { decode: decodeBmp }],
+  ['heic', { decode: decodeHeic }],
+  ['tiff', { listPages: listTiffPages, decode: decodeTiff }],
+  ['pdf', { listPages: listPdfPages, decode: renderPdfPage }],
+]);
+
+// Bytes of recently read uploads, so page thumbnails don't re-read the file
+const byteCache = new WeakMap<Blob, Promise<Uint8Array>>();
+
+/**
+ * Add or replace the bundled decoder for a format (e.g. an AVIF WASM build)
+ */
+export function registerDecoder(format: ImageFormat, decoder: FallbackDecoder): void {
+  decoders.set(format, decoder);
+}
+
+function readBytes(file: Blob): Promise<Uint8Array> {
+  let bytes = byteCache.get(file);
+  if (!bytes) {
+    bytes = file.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+    byteCache.set(file, bytes);
+  }
+  return bytes;
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+}
+
+/**
+ * Identify an image by its magic bytes
+ */
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length < 12) return null;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(bytes, 0, bytes.length).includes('%PDF-')) return 'pdf';
+
+  // ISO base media: "ftyp" box with a major brand, then compatible brands
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brands: string[] = [];
+    for (let p = 8; p + 4 <= Math.min(bytes.length, HEADER_BYTES); p += 4) {
+      if (p !== 12) brands.push(ascii(bytes, p, 4)); // Skip the minor version
+    }
+    if (brands.some((brand) => brand === 'avif' || brand === 'avis')) return 'avif';
+    if (brands.some((brand) => ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand))) return 'heic';
+  }
+  return null;
+}
+
+function unsupportedMessage(format: ImageFormat | null): string {
+  switch (format) {
+    case null:
+      return 'Unsupported file format. Please upload a JPEG, PNG, WebP, HEIC, TIFF, BMP, GIF or AVIF image, or a scanned PDF';
+    case 'avif':
+      return "This browser can't open AVIF images. Update the browser or convert the image to JPEG";
+    default:
+      return `Could not read this ${FORMAT_LABELS[format]} image - the file may be damaged`;
+  }
+}
+
+/**
+ * Decode with the browser (first frame / first page only)
+ */
+async function decodeNatively(file: Blob): Promise<HTMLCanvasElement | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+  } catch {
+    return null;
+  }
+}
+
+function decodedToCanvas(decoded: DecoderOutput): HTMLCanvasElement {
+  if (decoded instanceof HTMLCanvasElement) return decoded;
+  const canvas = document.createElement('canvas');
+  canvas.width = decoded.width;
+  canvas.height = decoded.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(decoded.data), decoded.width, decoded.height), 0, 0);
+  return canvas;
+}
+
+/**
+ * Decode one page of an upload: native first (first page only), then the bundled decoder
+ */
+async function decodePage(file: Blob, format: ImageFormat, page: number): Promise<HTMLCanvasElement> {
+  if (page === 0 && format !== 'pdf') {
+    const native = await decodeNatively(file);
+    if (native) return native;
+  }
+
+  const decoder = decoders.get(format);
+  if (!decoder) throw new Error(unsupportedMessage(format));
+  try {
+    const canvas = decodedToCanvas(await decoder.decode(await readBytes(file), page));
+    console.log(`🧩 Decoded ${FORMAT_LABELS[format]} page ${page + 1} with the bundled decoder (${canvas.width}x${canvas.height})`);
+    return canvas;
+  } catch (err) {
+    console.warn(`🧩 ${FORMAT_LABELS[format]} decode failed:`, err);
+    throw err instanceof Error ? err : new Error(unsupportedMessage(format));
+  }
+}
+
+export async function detectImageFormat(file: Blob): Promise<ImageFormat | null> {
+  return sniffImageFormat(new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer()));
+}
+
+/**
+ * Pages of a multi-page upload (TIFF, PDF); a single entry for everything else
+ */
+export async function listImagePages(file: Blob): Promise<ImagePage[]> {
+  const format = await detectImageFormat(file);
+  if (!format) throw new Error(unsupportedMessage(null));
+  const listPages = decoders.get(format)?.listPages;
+  if (!listPages) return [{ index: 0, width: 0, height: 0 }];
+  return listPages(await readBytes(file));
+}
+
+/**
+ * Small preview of one page as a data URL (for the page picker)
+ */
+export async function renderPageThumbnail(file: Blob, page: number, maxSide: number): Promise<string> {
+  const format = await detectImageFormat(file);
+  if (!format) throw new Error(unsupportedMessage(null));
+  const source = await decodePage(file, format, page);
+
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+/**
+ * Cut a region out of a decoded page at its full resolution
+ */
+function cropToRegion(source: HTMLCanvasElement, region: PageRegion): HTMLCanvasElement {
+  const x = Math.round(Math.min(Math.max(region.x, 0), 1) * source.width);
+  const y = Math.round(Math.min(Math.max(region.y, 0), 1) * source.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.min(source.width - x, Math.round(region.width * source.width)));
+  canvas.height = Math.max(1, Math.min(source.height - y, Math.round(region.height * source.height)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(source, x, y, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Return an upload the rest of the app can decode: JPEG / PNG / WebP as-is,
+ * anything else decoded (the chosen page and region for multi-page files) and stored as PNG
+ */
+export async function decodeUpload(file: File, page = 0, region: PageRegion | null = null): Promise<File> {
+  const format = await detectImageFormat(file);
+  if (!format) throw new Error(unsupportedMessage(null));
+  if (PASS_THROUGH_FORMATS.includes(format)) return file;
+
+  const pageCanvas = await decodePage(file, format, page);
+  const canvas = region ? cropToRegion(pageCanvas, region) : pageCanvas;
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to encode image');
+
+  const suffix = page > 0 ? `-page${page + 1}` : '';
+  const name = file.name.replace(/\.[^.]+$/, '') + suffix + '.png';
+  console.log(`🧩 ${FORMAT_LABELS[format]} upload converted to PNG (${canvas.width}x${canvas.height})`);
+  return new File([blob], name, { type: 'image/png', lastModified: file.lastModified });
+}
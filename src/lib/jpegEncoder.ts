@@ -0,0 +1,585 @@
+/**
+ * JPEG Encoder
+ *
+ * Pure TypeScript JPEG encoder, so the output bytes are identical in every
+ * browser and the pipeline controls what canvas.toBlob hides:
+ * - chroma subsampling: 4:4:4, 4:2:2 or 4:2:0
+ * - baseline (SOF0) or progressive (SOF2, spectral selection) - some
+ *   portals reject progressive files
+ * - continuous quality (IJG table scaling accepts fractions) for finer size steps
+ * - Huffman tables optimised for each scan
+ *
+ * prepareJpeg() converts colour and runs the DCT once; encodeJpeg() only
+ * quantises and entropy-codes, so the quality search can re-encode cheaply.
+ */
+
+import type { ChromaSubsampling } from '@/types';
+
+export interface JpegImage {
+  data: Uint8ClampedArray; // RGBA, alpha ignored
+  width: number;
+  height: number;
+}
+
+export interface JpegEncodeOptions {
+  quality: number; // 1-100, fractions allowed
+  progressive?: boolean;
+}
+
+interface PreparedComponent {
+  id: number;
+  h: number; // Sampling factors
+  v: number;
+  table: number; // Quantisation / Huffman table (0 = luma, 1 = chroma)
+  blocksPerLine: number; // Block grid padded to whole MCUs
+  blocksPerColumn: number;
+  scanBlocksPerLine: number; // Blocks covered by a single-component scan
+  scanBlocksPerColumn: number;
+  dct: Float32Array; // Unquantised coefficients, 64 per block
+}
+
+export interface PreparedJpeg {
+  width: number;
+  height: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: PreparedComponent[];
+}
+
+interface Scan {
+  components: number[];
+  ss: number; // Spectral selection start / end (zigzag indices)
+  se: number;
+}
+
+// Luma sampling factors; chroma is always 1×1
+const SAMPLING: Record<ChromaSubsampling, [number, number]> = {
+  '4:4:4': [1, 1],
+  '4:2:2': [2, 1],
+  '4:2:0': [2, 2],
+};
+
+const BASELINE_SCRIPT: Scan[] = [{ components: [0, 1, 2], ss: 0, se: 63 }];
+
+// DC first, then low-frequency luma so a partial download already looks right
+const PROGRESSIVE_SCRIPT: Scan[] = [
+  { components: [0, 1, 2], ss: 0, se: 0 },
+  { components: [0], ss: 1, se: 5 },
+  { components: [1], ss: 1, se: 63 },
+  { components: [2], ss: 1, se: 63 },
+  { components: [0], ss: 6, se: 63 },
+];
+
+// Zigzag position -> natural (row-major) index
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// ITU T.81 Annex K tables, natural order
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// AAN DCT output scale per row / column
+const AAN_SCALE = [1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379];
+
+/**
+ * In-place AAN forward DCT of one 8×8 block (output scaled by AAN_SCALE × 8)
+ */
+function forwardDct(data: Float32Array): void {
+  for (let pass = 0; pass < 2; pass++) {
+    // Rows first (stride 1 within a row), then columns (stride 8)
+    const step = pass === 0 ? 1 : 8;
+    const next = pass === 0 ? 8 : 1;
+    for (let i = 0, p = 0; i < 8; i++, p += next) {
+      const tmp0 = data[p] + data[p + 7 * step];
+      const tmp7 = data[p] - data[p + 7 * step];
+      const tmp1 = data[p + step] + data[p + 6 * step];
+      const tmp6 = data[p + step] - data[p + 6 * step];
+      const tmp2 = data[p + 2 * step] + data[p + 5 * step];
+      const tmp5 = data[p + 2 * step] - data[p + 5 * step];
+      const tmp3 = data[p + 3 * step] + data[p + 4 * step];
+      const tmp4 = data[p + 3 * step] - data[p + 4 * step];
+
+      // Even part
+      let tmp10 = tmp0 + tmp3;
+      const tmp13 = tmp0 - tmp3;
+      let tmp11 = tmp1 + tmp2;
+      let tmp12 = tmp1 - tmp2;
+      data[p] = tmp10 + tmp11;
+      data[p + 4 * step] = tmp10 - tmp11;
+      const z1 = (tmp12 + tmp13) * 0.707106781;
+      data[p + 2 * step] = tmp13 + z1;
+      data[p + 6 * step] = tmp13 - z1;
+
+      // Odd part
+      tmp10 = tmp4 + tmp5;
+      tmp11 = tmp5 + tmp6;
+      tmp12 = tmp6 + tmp7;
+      const z5 = (tmp10 - tmp12) * 0.382683433;
+      const z2 = 0.5411961 * tmp10 + z5;
+      const z4 = 1.306562965 * tmp12 + z5;
+      const z3 = tmp11 * 0.707106781;
+      const z11 = tmp7 + z3;
+      const z13 = tmp7 - z3;
+      data[p + 5 * step] = z13 + z2;
+      data[p + 3 * step] = z13 - z2;
+      data[p + step] = z11 + z4;
+      data[p + 7 * step] = z11 - z4;
+    }
+  }
+}
+
+/**
+ * Colour-convert, subsample and transform the image once
+ */
+export function prepareJpeg(image: JpegImage, subsampling: ChromaSubsampling = '4:2:0'): PreparedJpeg {
+  const { data, width, height } = image;
+  const [hMax, vMax] = SAMPLING[subsampling];
+  const mcusPerLine = Math.ceil(width / (8 * hMax));
+  const mcusPerColumn = Math.ceil(height / (8 * vMax));
+  const paddedWidth = mcusPerLine * 8 * hMax;
+  const paddedHeight = mcusPerColumn * 8 * vMax;
+
+  // Level-shifted YCbCr planes; edges are repeated into the MCU padding
+  const planes = [0, 1, 2].map(() => new Float32Array(paddedWidth * paddedHeight));
+  for (let y = 0; y < paddedHeight; y++) {
+    const row = Math.min(y, height - 1) * width;
+    for (let x = 0; x < paddedWidth; x++) {
+      const i = (row + Math.min(x, width - 1)) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const o = y * paddedWidth + x;
+      planes[0][o] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+      planes[1][o] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+      planes[2][o] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+    }
+  }
+
+  const block = new Float32Array(64);
+  const components = planes.map((plane, index): PreparedComponent => {
+    const h = index === 0 ? hMax : 1;
+    const v = index === 0 ? vMax : 1;
+    const fx = hMax / h; // Downsampling factors
+    const fy = vMax / v;
+    const blocksPerLine = mcusPerLine * h;
+    const blocksPerColumn = mcusPerColumn * v;
+    const dct = new Float32Array(blocksPerLine * blocksPerColumn * 64);
+
+    for (let by = 0; by < blocksPerColumn; by++) {
+      for (let bx = 0; bx < blocksPerLine; bx++) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            // Box-filter average of the fx × fy source samples
+            const sx = (bx * 8 + x) * fx;
+            const sy = (by * 8 + y) * fy;
+            let sum = 0;
+            for (let dy = 0; dy < fy; dy++) {
+              for (let dx = 0; dx < fx; dx++) {
+                sum += plane[(sy + dy) * paddedWidth + sx + dx];
+              }
+            }
+            block[y * 8 + x] = sum / (fx * fy);
+          }
+        }
+        forwardDct(block);
+        dct.set(block, (by * blocksPerLine + bx) * 64);
+      }
+    }
+
+    return {
+      id: index + 1,
+      h,
+      v,
+      table: index === 0 ? 0 : 1,
+      blocksPerLine,
+      blocksPerColumn,
+      scanBlocksPerLine: Math.ceil(Math.ceil((width * h) / hMax) / 8),
+      scanBlocksPerColumn: Math.ceil(Math.ceil((height * v) / vMax) / 8),
+      dct,
+    };
+  });
+
+  return { width, height, mcusPerLine, mcusPerColumn, components };
+}
+
+/**
+ * IJG quality scaling (50 = the Annex K tables)
+ */
+function scaleQuantTable(base: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, quality));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return base.map((value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+function quantise(dct: Float32Array, table: number[]): Int16Array {
+  const divisors = table.map((q, i) => q * AAN_SCALE[i >> 3] * AAN_SCALE[i & 7] * 8);
+  const out = new Int16Array(dct.length);
+  for (let i = 0; i < dct.length; i++) {
+    const value = dct[i] / divisors[i & 63];
+    out[i] = value > 0 ? Math.floor(value + 0.5) : Math.ceil(value - 0.5);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Huffman coding
+
+interface HuffmanTable {
+  freq: Int32Array; // Pass 1: symbol counts (index 256 reserved)
+  bits: number[]; // Codes per length, index 1-16
+  values: number[];
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+function createTable(): HuffmanTable {
+  return { freq: new Int32Array(257), bits: [], values: [], codes: new Uint16Array(256), lengths: new Uint8Array(256) };
+}
+
+/**
+ * Optimal code lengths limited to 16 bits (ITU T.81 Annex K.2)
+ */
+function buildTable(table: HuffmanTable): void {
+  const freq = Int32Array.from(table.freq);
+  freq[256] = 1; // Reserve one code point so no code is all ones
+  const codeSize = new Int32Array(257);
+  const others = new Int32Array(257).fill(-1);
+
+  for (;;) {
+    let c1 = -1;
+    let c2 = -1;
+    let v = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && freq[i] <= v) {
+        v = freq[i];
+        c1 = i;
+      }
+    }
+    v = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && freq[i] <= v && i !== c1) {
+        v = freq[i];
+        c2 = i;
+      }
+    }
+    if (c2 < 0) break;
+
+    freq[c1] += freq[c2];
+    freq[c2] = 0;
+    codeSize[c1]++;
+    while (others[c1] >= 0) {
+      c1 = others[c1];
+      codeSize[c1]++;
+    }
+    others[c1] = c2;
+    codeSize[c2]++;
+    while (others[c2] >= 0) {
+      c2 = others[c2];
+      codeSize[c2]++;
+    }
+  }
+
+  const bits = new Array(33).fill(0);
+  for (let i = 0; i <= 256; i++) {
+    if (codeSize[i]) bits[codeSize[i]]++;
+  }
+  for (let i = 32; i > 16; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) j--;
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  // Drop the reserved code point
+  let longest = 16;
+  while (bits[longest] === 0) longest--;
+  bits[longest]--;
+
+  const values: number[] = [];
+  for (let size = 1; size <= 32; size++) {
+    for (let symbol = 0; symbol < 256; symbol++) {
+      if (codeSize[symbol] === size) values.push(symbol);
+    }
+  }
+
+  // Canonical codes in value order
+  table.bits = bits.slice(0, 17);
+  table.values = values;
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let n = 0; n < table.bits[length]; n++) {
+      table.codes[values[k]] = code++;
+      table.lengths[values[k]] = length;
+      k++;
+    }
+    code <<= 1;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Output
+
+class ByteWriter {
+  private buffer = new Uint8Array(16384);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + extra));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  word(value: number): void {
+    this.byte((value >> 8) & 0xff);
+    this.byte(value & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  result() {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+interface SymbolSink {
+  symbol(table: HuffmanTable, symbol: number): void;
+  bits(value: number, length: number): void;
+}
+
+// Pass 1: count symbols so each scan gets its own optimal tables
+const countingSink: SymbolSink = {
+  symbol: (table, symbol) => {
+    table.freq[symbol]++;
+  },
+  bits: () => {},
+};
+
+// Pass 2: entropy-coded data with 0xFF byte stuffing
+class BitSink implements SymbolSink {
+  private accumulator = 0;
+  private count = 0;
+
+  constructor(private writer: ByteWriter) {}
+
+  symbol(table: HuffmanTable, symbol: number): void {
+    this.bits(table.codes[symbol], table.lengths[symbol]);
+  }
+
+  bits(value: number, length: number): void {
+    this.accumulator = (this.accumulator << length) | value;
+    this.count += length;
+    while (this.count >= 8) {
+      const byte = (this.accumulator >> (this.count - 8)) & 0xff;
+      this.writer.byte(byte);
+      if (byte === 0xff) this.writer.byte(0);
+      this.count -= 8;
+    }
+    this.accumulator &= (1 << this.count) - 1;
+  }
+
+  flush(): void {
+    if (this.count > 0) this.bits((1 << (8 - this.count)) - 1, 8 - this.count);
+  }
+}
+
+function magnitudeSize(value: number): number {
+  let magnitude = value < 0 ? -value : value;
+  let size = 0;
+  while (magnitude) {
+    size++;
+    magnitude >>= 1;
+  }
+  return size;
+}
+
+function encodeBlock(
+  sink: SymbolSink,
+  coefficients: Int16Array,
+  offset: number,
+  scan: Scan,
+  predictor: number[],
+  componentIndex: number,
+  dc: HuffmanTable,
+  ac: HuffmanTable
+): void {
+  if (scan.ss === 0) {
+    const value = coefficients[offset];
+    const diff = value - predictor[componentIndex];
+    predictor[componentIndex] = value;
+    const size = magnitudeSize(diff);
+    sink.symbol(dc, size);
+    if (size) sink.bits(diff < 0 ? diff + (1 << size) - 1 : diff, size);
+  }
+
+  let run = 0;
+  for (let k = Math.max(scan.ss, 1); k <= scan.se; k++) {
+    const value = coefficients[offset + ZIGZAG[k]];
+    if (value === 0) {
+      run++;
+      continue;
+    }
+    while (run > 15) {
+      sink.symbol(ac, 0xf0); // ZRL: 16 zeros
+      run -= 16;
+    }
+    const size = magnitudeSize(value);
+    sink.symbol(ac, (run << 4) | size);
+    sink.bits(value < 0 ? value + (1 << size) - 1 : value, size);
+    run = 0;
+  }
+  if (run > 0) sink.symbol(ac, 0x00); // EOB
+}
+
+/**
+ * Visit the blocks of a scan in JPEG order
+ * Interleaved scans walk MCUs; single-component scans walk that component's own grid
+ */
+function forEachBlock(prepared: PreparedJpeg, scan: Scan, visit: (componentIndex: number, offset: number) => void): void {
+  if (scan.components.length === 1) {
+    const index = scan.components[0];
+    const component = prepared.components[index];
+    for (let by = 0; by < component.scanBlocksPerColumn; by++) {
+      for (let bx = 0; bx < component.scanBlocksPerLine; bx++) {
+        visit(index, (by * component.blocksPerLine + bx) * 64);
+      }
+    }
+    return;
+  }
+
+  for (let my = 0; my < prepared.mcusPerColumn; my++) {
+    for (let mx = 0; mx < prepared.mcusPerLine; mx++) {
+      for (const index of scan.components) {
+        const component = prepared.components[index];
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            const row = my * component.v + v;
+            const column = mx * component.h + h;
+            visit(index, (row * component.blocksPerLine + column) * 64);
+          }
+        }
+      }
+    }
+  }
+}
+
+function writeScan(writer: ByteWriter, prepared: PreparedJpeg, coefficients: Int16Array[], scan: Scan): void {
+  const dcTables = [createTable(), createTable()];
+  const acTables = [createTable(), createTable()];
+  const tableOf = (index: number) => prepared.components[index].table;
+
+  const run = (sink: SymbolSink) => {
+    const predictor = [0, 0, 0];
+    forEachBlock(prepared, scan, (index, offset) => {
+      const table = tableOf(index);
+      encodeBlock(sink, coefficients[index], offset, scan, predictor, index, dcTables[table], acTables[table]);
+    });
+  };
+  run(countingSink);
+
+  // DHT for the tables this scan uses
+  const used: Array<{ tableClass: number; id: number; table: HuffmanTable }> = [];
+  const ids = Array.from(new Set(scan.components.map(tableOf)));
+  if (scan.ss === 0) ids.forEach((id) => used.push({ tableClass: 0, id, table: dcTables[id] }));
+  if (scan.se > 0) ids.forEach((id) => used.push({ tableClass: 1, id, table: acTables[id] }));
+  used.forEach(({ table }) => buildTable(table));
+
+  writer.word(0xffc4);
+  writer.word(2 + used.reduce((sum, { table }) => sum + 17 + table.values.length, 0));
+  for (const { tableClass, id, table } of used) {
+    writer.byte((tableClass << 4) | id);
+    writer.bytes(table.bits.slice(1, 17));
+    writer.bytes(table.values);
+  }
+
+  // SOS
+  writer.word(0xffda);
+  writer.word(6 + scan.components.length * 2);
+  writer.byte(scan.components.length);
+  for (const index of scan.components) {
+    const table = tableOf(index);
+    writer.byte(prepared.components[index].id);
+    writer.byte((table << 4) | table);
+  }
+  writer.byte(scan.ss);
+  writer.byte(scan.se);
+  writer.byte(0); // Ah / Al: no successive approximation
+
+  const sink = new BitSink(writer);
+  run(sink);
+  sink.flush();
+}
+
+/**
+ * Encode a prepared image at the given quality
+ */
+export function encodeJpeg(prepared: PreparedJpeg, options: JpegEncodeOptions) {
+  const tables = [scaleQuantTable(LUMA_QUANT, options.quality), scaleQuantTable(CHROMA_QUANT, options.quality)];
+  const coefficients = prepared.components.map((component) => quantise(component.dct, tables[component.table]));
+  const writer = new ByteWriter();
+
+  // SOI + JFIF APP0 (density is written later by densityWriter)
+  writer.bytes([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]);
+
+  // DQT, zigzag order
+  writer.word(0xffdb);
+  writer.word(2 + tables.length * 65);
+  tables.forEach((table, id) => {
+    writer.byte(id);
+    writer.bytes(ZIGZAG.map((natural) => table[natural]));
+  });
+
+  // SOF0 baseline / SOF2 progressive
+  writer.word(options.progressive ? 0xffc2 : 0xffc0);
+  writer.word(8 + prepared.components.length * 3);
+  writer.byte(8);
+  writer.word(prepared.height);
+  writer.word(prepared.width);
+  writer.byte(prepared.components.length);
+  for (const component of prepared.components) {
+    writer.byte(component.id);
+    writer.byte((component.h << 4) | component.v);
+    writer.byte(component.table);
+  }
+
+  for (const scan of options.progressive ? PROGRESSIVE_SCRIPT : BASELINE_SCRIPT) {
+    writeScan(writer, prepared, coefficients, scan);
+  }
+
+  writer.word(0xffd9);
+  return writer.result();
+}
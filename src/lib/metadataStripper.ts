@@ -0,0 +1,128 @@
+/**
+ * Metadata Stripper
+ *
+ * Canvas encoders normally write bare files, but that is not a promise any
+ * browser makes. Every output is rewritten here so nothing from the source
+ * (GPS, camera, timestamps) or the encoder can leak into an upload:
+ * - JPEG: drop APP1-APP15 and COM segments (JFIF APP0 stays)
+ * - PNG: drop text, eXIf and tIME chunks
+ * - WebP: drop EXIF and XMP chunks and clear their VP8X flags
+ */
+
+const JPEG_DROPPED_MARKERS = (marker: number) => (marker >= 0xffe1 && marker <= 0xffef) || marker === 0xfffe;
+const PNG_DROPPED_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+const WEBP_DROPPED_CHUNKS = new Set(['EXIF', 'XMP ']);
+
+export interface StripResult {
+  blob: Blob;
+  stripped: boolean; // false when the container could not be parsed
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = (bytes[offset] << 8) | bytes[offset + 1];
+
+    // Start of scan: entropy-coded data to the end, copy verbatim
+    if (marker === 0xffda) {
+      parts.push(bytes.subarray(offset));
+      return concat(parts);
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) return null;
+    if (!JPEG_DROPPED_MARKERS(marker)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return null;
+}
+
+function stripPng(bytes: Uint8Array): Uint8Array | null {
+  if (bytes.length < 8 || fourCC(bytes, 1) !== 'PNG\r') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) return null;
+    const type = fourCC(bytes, offset + 4);
+    if (!PNG_DROPPED_CHUNKS.has(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    if (type === 'IEND') return concat(parts);
+    offset = end;
+  }
+  return null;
+}
+
+function stripWebp(bytes: Uint8Array): Uint8Array | null {
+  if (bytes.length < 12 || fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + size + (size & 1)); // chunks are padded to even sizes
+    const type = fourCC(bytes, offset);
+    if (!WEBP_DROPPED_CHUNKS.has(type)) {
+      const chunk = bytes.slice(offset, end);
+      if (type === 'VP8X' && chunk.length > 8) {
+        chunk[8] &= ~(0x08 | 0x04); // EXIF and XMP present flags
+      }
+      parts.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = concat(parts);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12), 0);
+  out.set(body, 12);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+}
+
+/**
+ * Remove every metadata block from an encoded image
+ * Unknown containers are returned unchanged with stripped = false
+ */
+export async function stripMetadata(blob: Blob): Promise<StripResult> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  let clean: Uint8Array | null = null;
+  switch (blob.type) {
+    case 'image/jpeg': clean = stripJpeg(bytes); break;
+    case 'image/png': clean = stripPng(bytes); break;
+    case 'image/webp': clean = stripWebp(bytes); break;
+  }
+
+  if (!clean) return { blob, stripped: false };
+  if (clean.length === bytes.length) return { blob, stripped: true };
+
+  const out = new Uint8Array(clean.length);
+  out.set(clean);
+  return { blob: new Blob([out], { type: blob.type }), stripped: true };
+}
@@ -0,0 +1,147 @@
+/**
+ * Orientation Normaliser
+ *
+ * Phone cameras store pixels in sensor order and record the intended
+ * rotation in the EXIF orientation tag. Browsers disagree on whether
+ * decoders honour that tag (<img>, createImageBitmap and the canvas
+ * fallback have differed over the years), so rotated uploads are re-encoded
+ * upright once, before cropping. The new file carries no orientation tag,
+ * so every later decode sees the same pixels.
+ */
+
+import type { ImageMetadata } from '@/types';
+import { readImageMetadata } from './exif';
+import { decodeUpload, type PageRegion } from './imageDecoder';
+
+// "Exif\0\0" + big-endian TIFF with a single IFD0 entry: Orientation = 6
+const ORIENTATION_6_APP1 = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22,
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+const NORMALISED_QUALITY = 0.95;
+
+let autoOrientationProbe: Promise<boolean> | null = null;
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    img.src = url;
+  });
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+/**
+ * Does this browser's <img> decoder already apply EXIF orientation?
+ * Decodes a 2x1 JPEG tagged "rotate 90°" and checks whether it comes back 1x2
+ */
+function browserAppliesOrientation(): Promise<boolean> {
+  if (!autoOrientationProbe) {
+    autoOrientationProbe = (async () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = 2;
+        canvas.height = 1;
+        const jpeg = new Uint8Array(await (await canvasToJpeg(canvas, 0.5)).arrayBuffer());
+
+        // Splice the APP1 segment in right after SOI
+        const tagged = new Uint8Array(jpeg.length + ORIENTATION_6_APP1.length);
+        tagged.set(jpeg.subarray(0, 2), 0);
+        tagged.set(ORIENTATION_6_APP1, 2);
+        tagged.set(jpeg.subarray(2), 2 + ORIENTATION_6_APP1.length);
+
+        const img = await loadImage(new Blob([tagged], { type: 'image/jpeg' }));
+        return img.naturalWidth === 1 && img.naturalHeight === 2;
+      } catch {
+        return false;
+      }
+    })();
+  }
+  return autoOrientationProbe;
+}
+
+/**
+ * Canvas transform that maps sensor pixels to the upright image
+ * (orientations 5-8 swap width and height)
+ */
+function applyOrientationTransform(
+  ctx: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+): void {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+}
+
+/**
+ * Return an upright copy of an upload whose EXIF orientation is not 1
+ * Upright files (and non-JPEGs, which report orientation 1) pass through untouched
+ */
+export async function normalizeOrientation(file: File, orientation: number): Promise<File> {
+  if (orientation <= 1 || orientation > 8) return file;
+
+  const [img, alreadyApplied] = await Promise.all([loadImage(file), browserAppliesOrientation()]);
+  const swap = !alreadyApplied && orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? img.naturalHeight : img.naturalWidth;
+  canvas.height = swap ? img.naturalWidth : img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  if (!alreadyApplied) {
+    applyOrientationTransform(ctx, orientation, img.naturalWidth, img.naturalHeight);
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const blob = await canvasToJpeg(canvas, NORMALISED_QUALITY);
+  console.log(`🔄 Orientation ${orientation} normalised (${canvas.width}x${canvas.height})`);
+
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+}
+
+/**
+ * Read an upload's metadata and return an upright copy plus a preview URL
+ * Formats outside JPEG / PNG / WebP are decoded first (page and region of TIFFs / PDFs)
+ */
+export async function prepareUpload(
+  file: File,
+  page = 0,
+  region: PageRegion | null = null
+): Promise<{ file: File; imageUrl: string; metadata: ImageMetadata }> {
+  const metadata = await readImageMetadata(file);
+  const decodedFile = await decodeUpload(file, page, region);
+  const uprightFile = await normalizeOrientation(decodedFile, metadata.orientation);
+  return { file: uprightFile, imageUrl: URL.createObjectURL(uprightFile), metadata };
+}
@@ -0,0 +1,31 @@
+/**
+ * Output Formats
+ *
+ * Maps the free-text `format` field of an ImageSpec ("JPG/JPEG", "PNG",
+ * "PDF", ...) to one of the encoders the pipeline supports, and holds the
+ * MIME type / file extension for each.
+ */
+
+import type { OutputFormat } from '@/types';
+
+export const FORMAT_INFO: Record<OutputFormat, { mimeType: string; extension: string; label: string }> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg', label: 'JPEG' },
+  png: { mimeType: 'image/png', extension: 'png', label: 'PNG' },
+  webp: { mimeType: 'image/webp', extension: 'webp', label: 'WebP' },
+  pdf: { mimeType: 'application/pdf', extension: 'pdf', label: 'PDF' },
+};
+
+/**
+ * Pick an encoder from a preset format string
+ * Anything unrecognised (or missing) falls back to JPEG, which every portal accepts
+ */
+export function parseOutputFormat(format?: string): OutputFormat {
+  if (!format) return 'jpeg';
+
+  const normalized = format.toUpperCase();
+  if (/\bJPE?G\b/.test(normalized)) return 'jpeg';
+  if (normalized.includes('PDF')) return 'pdf';
+  if (normalized.includes('PNG')) return 'png';
+  if (normalized.includes('WEBP')) return 'webp';
+  return 'jpeg';
+}
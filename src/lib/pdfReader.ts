@@ -0,0 +1,1018 @@
+/**
+ * Minimal PDF Reader
+ *
+ * Renders pages of scanned PDFs (old application forms, certificates)
+ * offline. A scan is a page-sized image, so instead of a full PDF engine
+ * this draws each page's image XObjects where its content stream places them:
+ * - Objects are found by scanning for "n g obj" rather than trusting the
+ *   xref table (often broken in scanner output), plus compressed object streams
+ * - Page tree with inherited MediaBox / CropBox / Resources / Rotate
+ * - Content streams: q / Q / cm / Do, including images inside form XObjects
+ * - Images: DCTDecode (JPEG, decoded by the browser) and raw samples behind
+ *   Flate / RunLength / ASCII / CCITT fax filters, in grey, RGB, CMYK,
+ *   indexed, ICC-based or single-ink colour at 1-16 bits
+ *
+ * Pages render at the resolution of their sharpest image so a crop keeps the
+ * scan's full detail. Text and vector drawing are not rendered, and images
+ * that can't be decoded here (JPEG 2000, JBIG2) are left out of the page.
+ */
+
+import type { ImagePage } from './imageDecoder';
+import { decodeCcitt, type CcittOptions } from './ccittDecoder';
+
+const MAX_RENDER_SIDE = 6000; // Longest side of a rendered page, px
+const MIN_RENDER_SCALE = 150 / 72; // Pixels per point when images are tiny (150 dpi)
+const MAX_FORM_DEPTH = 8;
+
+interface PdfName { type: 'name'; value: string }
+interface PdfRef { type: 'ref'; num: number }
+interface PdfKeyword { type: 'keyword'; value: string }
+interface PdfStream { type: 'stream'; dict: PdfDict; data: Uint8Array }
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | string | PdfName | PdfRef | PdfStream | PdfDict | PdfValue[];
+type Token = PdfValue | PdfKeyword | undefined;
+
+type Matrix = [number, number, number, number, number, number];
+
+interface Cursor {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+interface PdfDocument {
+  bytes: Uint8Array;
+  text: string; // Latin-1 view of the bytes, for searching
+  offsets: Map<number, number>; // Object number -> byte offset
+  compressed: Map<number, { stream: number; index: number }> | null; // Null until object streams are decoded
+  cache: Map<number, PdfValue>;
+  pages: PdfPage[];
+}
+
+interface PdfPage {
+  box: [number, number, number, number]; // x0 y0 x1 y1 in points
+  rotate: number;
+  resources: PdfDict;
+  contents: PdfStream[];
+}
+
+interface PlacedImage {
+  stream: PdfStream;
+  ctm: Matrix;
+}
+
+// One parsed document per file (page list, thumbnails and the final render share it)
+const documents = new WeakMap<Uint8Array, Promise<PdfDocument>>();
+
+export function isPdf(bytes: Uint8Array): boolean {
+  const head = String.fromCharCode(...Array.from(bytes.subarray(0, 1024)));
+  return head.includes('%PDF-');
+}
+
+// ---------------------------------------------------------------------------
+// Lexer / parser
+// ---------------------------------------------------------------------------
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set(Array.from('()<>[]{}/%').map((c) => c.charCodeAt(0)));
+
+function isName(token: Token): token is PdfName {
+  return typeof token === 'object' && token !== null && !Array.isArray(token) && !(token instanceof Map) && token.type === 'name';
+}
+
+function isKeyword(token: Token, value?: string): token is PdfKeyword {
+  return typeof token === 'object' && token !== null && !Array.isArray(token) && !(token instanceof Map)
+    && token.type === 'keyword' && (value === undefined || token.value === value);
+}
+
+function isStream(value: PdfValue | undefined): value is PdfStream {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map) && value.type === 'stream';
+}
+
+function skipSpace(c: Cursor): void {
+  while (c.pos < c.bytes.length) {
+    const ch = c.bytes[c.pos];
+    if (WHITESPACE.has(ch)) {
+      c.pos++;
+    } else if (ch === 0x25) {
+      while (c.pos < c.bytes.length && c.bytes[c.pos] !== 10 && c.bytes[c.pos] !== 13) c.pos++;
+    } else {
+      break;
+    }
+  }
+}
+
+function readRegular(c: Cursor): string {
+  const start = c.pos;
+  while (c.pos < c.bytes.length && !WHITESPACE.has(c.bytes[c.pos]) && !DELIMITERS.has(c.bytes[c.pos])) c.pos++;
+  return String.fromCharCode(...Array.from(c.bytes.subarray(start, c.pos)));
+}
+
+function readLiteralString(c: Cursor): string {
+  let depth = 1;
+  let out = '';
+  c.pos++;
+  while (c.pos < c.bytes.length) {
+    const ch = c.bytes[c.pos++];
+    if (ch === 0x5c) {
+      const next = c.bytes[c.pos++];
+      const escapes: Record<number, string> = { 0x6e: '\n', 0x72: '\r', 0x74: '\t', 0x62: '\b', 0x66: '\f' };
+      if (escapes[next]) {
+        out += escapes[next];
+      } else if (next >= 0x30 && next <= 0x37) {
+        let octal = next - 0x30;
+        for (let i = 0; i < 2 && c.bytes[c.pos] >= 0x30 && c.bytes[c.pos] <= 0x37; i++) {
+          octal = octal * 8 + c.bytes[c.pos++] - 0x30;
+        }
+        out += String.fromCharCode(octal & 0xff);
+      } else if (next === 13 || next === 10) {
+        if (next === 13 && c.bytes[c.pos] === 10) c.pos++; // Line continuation
+      } else {
+        out += String.fromCharCode(next);
+      }
+    } else if (ch === 0x28) {
+      depth++;
+      out += '(';
+    } else if (ch === 0x29) {
+      if (--depth === 0) break;
+      out += ')';
+    } else {
+      out += String.fromCharCode(ch);
+    }
+  }
+  return out;
+}
+
+function readHexString(c: Cursor): string {
+  let hex = '';
+  c.pos++;
+  while (c.pos < c.bytes.length && c.bytes[c.pos] !== 0x3e) {
+    const ch = String.fromCharCode(c.bytes[c.pos++]);
+    if (/[0-9a-fA-F]/.test(ch)) hex += ch;
+  }
+  c.pos++;
+  if (hex.length % 2) hex += '0';
+  let out = '';
+  for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  return out;
+}
+
+function parseToken(c: Cursor): Token {
+  skipSpace(c);
+  if (c.pos >= c.bytes.length) return undefined;
+  const ch = c.bytes[c.pos];
+
+  if (ch === 0x3c && c.bytes[c.pos + 1] === 0x3c) {
+    c.pos += 2;
+    const dict: PdfDict = new Map();
+    for (;;) {
+      skipSpace(c);
+      if (c.pos >= c.bytes.length) break;
+      if (c.bytes[c.pos] === 0x3e && c.bytes[c.pos + 1] === 0x3e) {
+        c.pos += 2;
+        break;
+      }
+      const key = parseToken(c);
+      if (!isName(key)) {
+        if (key === undefined) break;
+        continue;
+      }
+      const value = parseToken(c);
+      dict.set(key.value, value === undefined || isKeyword(value) ? null : value);
+    }
+    return dict;
+  }
+  if (ch === 0x3c) return readHexString(c);
+  if (ch === 0x28) return readLiteralString(c);
+
+  if (ch === 0x5b) {
+    c.pos++;
+    const items: PdfValue[] = [];
+    for (;;) {
+      skipSpace(c);
+      if (c.pos >= c.bytes.length) break;
+      if (c.bytes[c.pos] === 0x5d) {
+        c.pos++;
+        break;
+      }
+      const item = parseToken(c);
+      if (item === undefined) break;
+      if (!isKeyword(item)) items.push(item);
+    }
+    return items;
+  }
+
+  if (ch === 0x2f) {
+    c.pos++;
+    const raw = readRegular(c);
+    return { type: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) };
+  }
+
+  if (DELIMITERS.has(ch)) {
+    c.pos++;
+    return { type: 'keyword', value: String.fromCharCode(ch) };
+  }
+
+  const word = readRegular(c);
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+    const value = parseFloat(word);
+
+    // "num gen R" is a reference
+    if (/^\d+$/.test(word)) {
+      const saved = c.pos;
+      skipSpace(c);
+      const gen = readRegular(c);
+      skipSpace(c);
+      if (/^\d+$/.test(gen) && c.bytes[c.pos] === 0x52) {
+        const after = c.bytes[c.pos + 1];
+        if (after === undefined || WHITESPACE.has(after) || DELIMITERS.has(after)) {
+          c.pos++;
+          return { type: 'ref', num: value };
+        }
+      }
+      c.pos = saved;
+    }
+    return value;
+  }
+  if (word === 'true') return true;
+  if (word === 'false') return false;
+  if (word === 'null') return null;
+  if (word === '') {
+    c.pos++;
+    return { type: 'keyword', value: '' };
+  }
+  return { type: 'keyword', value: word };
+}
+
+function indexOfBytes(bytes: Uint8Array, pattern: string, from: number): number {
+  const first = pattern.charCodeAt(0);
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    if (bytes[i] !== first) continue;
+    for (let j = 1; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// ---------------------------------------------------------------------------
+// Document structure
+// ---------------------------------------------------------------------------
+
+function resolve(doc: PdfDocument, value: PdfValue | undefined): PdfValue | undefined {
+  for (let hops = 0; hops < 32 && typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map) && value.type === 'ref'; hops++) {
+    value = getObject(doc, value.num);
+  }
+  return value;
+}
+
+function get(doc: PdfDocument, dict: PdfDict | undefined, key: string): PdfValue | undefined {
+  return dict ? resolve(doc, dict.get(key)) : undefined;
+}
+
+function getDict(doc: PdfDocument, dict: PdfDict | undefined, key: string): PdfDict | undefined {
+  const value = get(doc, dict, key);
+  if (value instanceof Map) return value;
+  return isStream(value) ? value.dict : undefined;
+}
+
+function getNumber(doc: PdfDocument, dict: PdfDict | undefined, key: string, fallback: number): number {
+  const value = get(doc, dict, key);
+  return typeof value === 'number' ? value : fallback;
+}
+
+function getName(doc: PdfDocument, dict: PdfDict | undefined, key: string): string | undefined {
+  const value = get(doc, dict, key);
+  return isName(value) ? value.value : undefined;
+}
+
+/**
+ * Parse the object at a byte offset ("n g obj <value> [stream ... endstream]")
+ */
+function parseObjectAt(doc: PdfDocument, offset: number): PdfValue {
+  const c: Cursor = { bytes: doc.bytes, pos: offset };
+  parseToken(c);
+  parseToken(c);
+  if (!isKeyword(parseToken(c), 'obj')) return null;
+  const value = parseToken(c);
+  if (value === undefined || isKeyword(value)) return null;
+
+  const afterValue = c.pos;
+  if (!(value instanceof Map) || !isKeyword(parseToken(c), 'stream')) {
+    c.pos = afterValue;
+    return value;
+  }
+
+  // Stream data starts after the EOL following "stream"
+  let start = c.pos;
+  if (doc.bytes[start] === 13) start++;
+  if (doc.bytes[start] === 10) start++;
+
+  const length = resolve(doc, value.get('Length'));
+  let end = typeof length === 'number' ? start + length : -1;
+  const check: Cursor = { bytes: doc.bytes, pos: end };
+  if (end < start || end > doc.bytes.length || (skipSpace(check), !isKeyword(parseToken(check), 'endstream'))) {
+    // Missing or wrong Length: fall back to the endstream marker
+    end = indexOfBytes(doc.bytes, 'endstream', start);
+    if (end < 0) end = doc.bytes.length;
+    if (doc.bytes[end - 1] === 10) end--;
+    if (doc.bytes[end - 1] === 13) end--;
+  }
+  return { type: 'stream', dict: value, data: doc.bytes.subarray(start, end) };
+}
+
+function objectStreamNumbers(doc: PdfDocument): number[] {
+  return Array.from(doc.offsets)
+    .filter(([, offset]) => /\/Type\s*\/ObjStm/.test(doc.text.slice(offset, offset + 400)))
+    .map(([num]) => num);
+}
+
+/**
+ * Index objects held in compressed object streams (PDF 1.5+)
+ * The streams must already be decoded (decodeStream memoises them)
+ */
+function indexObjectStreams(doc: PdfDocument): Map<number, { stream: number; index: number }> {
+  const compressed = new Map<number, { stream: number; index: number }>();
+  for (const num of objectStreamNumbers(doc)) {
+    const stream = getObject(doc, num);
+    const data = isStream(stream) ? decodedStreams.get(stream)?.data : undefined;
+    if (!isStream(stream) || !data) continue;
+    const count = getNumber(doc, stream.dict, 'N', 0);
+    const c: Cursor = { bytes: data, pos: 0 };
+    for (let i = 0; i < count; i++) {
+      const objectNumber = parseToken(c);
+      parseToken(c);
+      if (typeof objectNumber === 'number' && !doc.offsets.has(objectNumber)) {
+        compressed.set(objectNumber, { stream: num, index: i });
+      }
+    }
+  }
+  return compressed;
+}
+
+function getObject(doc: PdfDocument, num: number): PdfValue {
+  if (doc.cache.has(num)) return doc.cache.get(num) ?? null;
+  const offset = doc.offsets.get(num);
+  if (offset === undefined && !doc.compressed) return null; // Object streams not decoded yet
+  doc.cache.set(num, null); // Guards against reference cycles
+
+  let value: PdfValue = null;
+  if (offset !== undefined) {
+    value = parseObjectAt(doc, offset);
+  } else if (doc.compressed) {
+    const location = doc.compressed.get(num);
+    const container = location ? getObject(doc, location.stream) : undefined;
+    const data = isStream(container) ? decodedStreams.get(container)?.data : undefined;
+    if (location && isStream(container) && data) {
+      const first = getNumber(doc, container.dict, 'First', 0);
+      const c: Cursor = { bytes: data, pos: 0 };
+      let objectOffset = 0;
+      for (let i = 0; i <= location.index; i++) {
+        parseToken(c);
+        const entry = parseToken(c);
+        if (i === location.index && typeof entry === 'number') objectOffset = entry;
+      }
+      c.pos = first + objectOffset;
+      const parsed = parseToken(c);
+      value = parsed === undefined || isKeyword(parsed) ? null : parsed;
+    }
+  }
+
+  doc.cache.set(num, value);
+  return value;
+}
+
+function readBox(doc: PdfDocument, value: PdfValue | undefined): [number, number, number, number] | null {
+  const box = resolve(doc, value);
+  if (!Array.isArray(box) || box.length < 4) return null;
+  const n = box.slice(0, 4).map((v) => resolve(doc, v));
+  if (!n.every((v): v is number => typeof v === 'number')) return null;
+  return [Math.min(n[0], n[2]), Math.min(n[1], n[3]), Math.max(n[0], n[2]), Math.max(n[1], n[3])];
+}
+
+function collectPages(doc: PdfDocument, root: PdfDict | undefined): PdfPage[] {
+  const pages: PdfPage[] = [];
+  const visited = new Set<PdfDict>();
+
+  const walk = (node: PdfDict, inherited: { box: PdfValue | undefined; rotate: number; resources: PdfDict | undefined }) => {
+    if (visited.has(node) || visited.size > 10000) return;
+    visited.add(node);
+
+    const state = {
+      box: node.get('CropBox') ?? node.get('MediaBox') ?? inherited.box,
+      rotate: getNumber(doc, node, 'Rotate', inherited.rotate),
+      resources: getDict(doc, node, 'Resources') ?? inherited.resources,
+    };
+    const kids = get(doc, node, 'Kids');
+    if (Array.isArray(kids)) {
+      for (const kid of kids) {
+        const child = resolve(doc, kid);
+        if (child instanceof Map) walk(child, state);
+      }
+      return;
+    }
+
+    const contents = get(doc, node, 'Contents');
+    const streams = (Array.isArray(contents) ? contents.map((item) => resolve(doc, item)) : [contents]).filter(isStream);
+    pages.push({
+      box: readBox(doc, state.box) ?? [0, 0, 612, 792],
+      rotate: ((Math.round(state.rotate / 90) * 90) % 360 + 360) % 360,
+      resources: state.resources ?? new Map(),
+      contents: streams,
+    });
+  };
+
+  const pagesRoot = getDict(doc, root, 'Pages');
+  if (pagesRoot) walk(pagesRoot, { box: undefined, rotate: 0, resources: undefined });
+  return pages;
+}
+
+async function parseDocument(bytes: Uint8Array): Promise<PdfDocument> {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  if (!text.slice(0, 1024).includes('%PDF-')) throw new Error('Not a PDF file');
+  if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) {
+    throw new Error('Password-protected PDFs are not supported - save an unprotected copy and try again');
+  }
+
+  // Later definitions win (incremental updates append new versions)
+  const offsets = new Map<number, number>();
+  const pattern = /(\d+)\s+(\d+)\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const before = text.charCodeAt(match.index - 1);
+    if (match.index > 0 && before >= 0x30 && before <= 0x39) continue;
+    offsets.set(Number(match[1]), match.index);
+    // Skip the object body so stream bytes can't fake an object header
+    const end = text.indexOf('endobj', pattern.lastIndex);
+    if (end > 0) pattern.lastIndex = end;
+  }
+
+  const doc: PdfDocument = { bytes, text, offsets, compressed: null, cache: new Map(), pages: [] };
+
+  // Flate is asynchronous in browsers: decode object streams up front so lookups stay synchronous
+  for (const num of objectStreamNumbers(doc)) {
+    const stream = getObject(doc, num);
+    if (isStream(stream)) await decodeStream(doc, stream).catch(() => undefined);
+  }
+  doc.compressed = indexObjectStreams(doc);
+
+  // The last /Root in the file belongs to the newest trailer or xref stream
+  const roots = Array.from(text.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g));
+  const rootRef = roots[roots.length - 1];
+  const root = rootRef ? resolve(doc, { type: 'ref', num: Number(rootRef[1]) }) : undefined;
+  doc.pages = collectPages(doc, root instanceof Map ? root : undefined);
+
+  // No usable page tree: take every page object in file order
+  if (doc.pages.length === 0) {
+    const pageObjects = Array.from(offsets.entries())
+      .filter(([, offset]) => /\/Type\s*\/Page(?![s\w])/.test(text.slice(offset, offset + 600)))
+      .sort((a, b) => a[1] - b[1]);
+    const fakeRoot: PdfDict = new Map([['Pages', new Map<string, PdfValue>([['Kids', pageObjects.map(([num]) => ({ type: 'ref' as const, num }))]])]]);
+    doc.pages = collectPages(doc, fakeRoot);
+  }
+  if (doc.pages.length === 0) throw new Error('This PDF has no pages');
+  return doc;
+}
+
+function loadDocument(bytes: Uint8Array): Promise<PdfDocument> {
+  let doc = documents.get(bytes);
+  if (!doc) {
+    doc = parseDocument(bytes);
+    documents.set(bytes, doc);
+    doc.catch(() => documents.delete(bytes));
+  }
+  return doc;
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+const IMAGE_CODECS: Record<string, string> = {
+  DCTDecode: 'DCTDecode',
+  DCT: 'DCTDecode',
+  JPXDecode: 'JPXDecode',
+  JBIG2Decode: 'JBIG2Decode',
+};
+
+const CODEC_LABELS: Record<string, string> = {
+  JPXDecode: 'JPEG 2000',
+  JBIG2Decode: 'JBIG2',
+};
+
+function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Response(stream).arrayBuffer().then((buffer) => new Uint8Array(buffer));
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  // Reuse the hex string reader: it starts after a "<" and stops at ">"
+  const bytes = new Uint8Array(data.length + 1);
+  bytes[0] = 0x3c;
+  bytes.set(data, 1);
+  return Uint8Array.from(readHexString({ bytes, pos: 0 }), (ch) => ch.charCodeAt(0));
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let group: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const ch = data[i];
+    if (ch === 0x7e) break; // "~>"
+    if (WHITESPACE.has(ch)) continue;
+    if (ch === 0x7a && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(ch - 33);
+    if (group.length === 5) {
+      let value = 0;
+      for (const digit of group) value = value * 85 + digit;
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const missing = 5 - group.length;
+    let value = 0;
+    for (const digit of [...group, ...new Array(missing).fill(84)]) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, 4 - missing));
+  }
+  return new Uint8Array(out);
+}
+
+function decodeRunLength(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let p = 0;
+  while (p < data.length) {
+    const n = data[p++];
+    if (n === 128) break;
+    if (n < 128) {
+      for (let i = 0; i <= n && p < data.length; i++) out.push(data[p++]);
+    } else {
+      const value = data[p++];
+      for (let i = 0; i < 257 - n; i++) out.push(value);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/**
+ * Fax parameters; Rows falls back to the image height
+ */
+function readCcittOptions(doc: PdfDocument, stream: PdfStream, parms: PdfDict | undefined): CcittOptions {
+  return {
+    k: getNumber(doc, parms, 'K', 0),
+    columns: getNumber(doc, parms, 'Columns', 1728),
+    rows: getNumber(doc, parms, 'Rows', getNumber(doc, stream.dict, 'Height', 0)),
+    byteAlign: get(doc, parms, 'EncodedByteAlign') === true,
+    blackIs1: get(doc, parms, 'BlackIs1') === true,
+  };
+}
+
+/**
+ * Undo PNG (10-15) or TIFF (2) predictors after Flate
+ */
+function undoPredictor(data: Uint8Array, parms: PdfDict | undefined, doc: PdfDocument): Uint8Array {
+  const predictor = getNumber(doc, parms, 'Predictor', 1);
+  if (predictor < 2) return data;
+  const colors = getNumber(doc, parms, 'Colors', 1);
+  const bits = getNumber(doc, parms, 'BitsPerComponent', 8);
+  const columns = getNumber(doc, parms, 'Columns', 1);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((columns * colors * bits) / 8);
+
+  if (predictor === 2) {
+    if (bits !== 8) return data;
+    const out = data.slice();
+    for (let row = 0; row + rowLength <= out.length; row += rowLength) {
+      for (let i = row + colors; i < row + rowLength; i++) out[i] = (out[i] + out[i - colors]) & 0xff;
+    }
+    return out;
+  }
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const src = row * (rowLength + 1) + 1;
+    const dst = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[src + i];
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[dst - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[dst - rowLength + i - bytesPerPixel] : 0;
+      let value: number;
+      switch (filter) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+interface FilteredData {
+  data: Uint8Array;
+  codec: string | null; // Image codec left for the caller (DCTDecode, ...)
+}
+
+// Decoded stream data, so object streams and colour lookups can be read synchronously
+const decodedStreams = new WeakMap<PdfStream, FilteredData>();
+
+function readFilters(doc: PdfDocument, stream: PdfStream): { filters: string[]; parms: (PdfDict | undefined)[] } {
+  const filter = get(doc, stream.dict, 'Filter') ?? get(doc, stream.dict, 'F');
+  const parms = get(doc, stream.dict, 'DecodeParms') ?? get(doc, stream.dict, 'DP');
+  const filters = (Array.isArray(filter) ? filter : filter ? [filter] : [])
+    .map((f) => resolve(doc, f))
+    .filter(isName)
+    .map((f) => f.value);
+  const parmList = (Array.isArray(parms) ? parms : [parms]).map((p) => {
+    const value = resolve(doc, p);
+    return value instanceof Map ? value : undefined;
+  });
+  return { filters, parms: parmList };
+}
+
+/**
+ * Apply a stream's general-purpose filters; an image codec (DCTDecode, ...)
+ * ends the chain and is returned for the caller to handle
+ */
+async function decodeStream(doc: PdfDocument, stream: PdfStream): Promise<FilteredData> {
+  const memo = decodedStreams.get(stream);
+  if (memo) return memo;
+
+  const { filters, parms } = readFilters(doc, stream);
+  let data = stream.data;
+  let codec: string | null = null;
+  for (let i = 0; i < filters.length && !codec; i++) {
+    const filter = filters[i];
+    if (IMAGE_CODECS[filter]) codec = IMAGE_CODECS[filter];
+    else if (filter === 'FlateDecode' || filter === 'Fl') data = undoPredictor(await inflate(data), parms[i], doc);
+    else if (filter === 'ASCIIHexDecode' || filter === 'AHx') data = decodeAsciiHex(data);
+    else if (filter === 'ASCII85Decode' || filter === 'A85') data = decodeAscii85(data);
+    else if (filter === 'RunLengthDecode' || filter === 'RL') data = decodeRunLength(data);
+    else if (filter === 'CCITTFaxDecode' || filter === 'CCF') data = decodeCcitt(data, readCcittOptions(doc, stream, parms[i]));
+    else throw new Error(`PDF filter ${filter} is not supported`);
+  }
+
+  const result = { data, codec };
+  decodedStreams.set(stream, result);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Content streams
+// ---------------------------------------------------------------------------
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+/**
+ * Skip an inline image (BI ... ID <binary> EI)
+ */
+function skipInlineImage(c: Cursor): void {
+  for (;;) {
+    const token = parseToken(c);
+    if (token === undefined || isKeyword(token, 'ID')) break;
+  }
+  c.pos++;
+  for (; c.pos < c.bytes.length - 1; c.pos++) {
+    if (c.bytes[c.pos] === 0x45 && c.bytes[c.pos + 1] === 0x49 && WHITESPACE.has(c.bytes[c.pos - 1])
+      && (c.pos + 2 >= c.bytes.length || WHITESPACE.has(c.bytes[c.pos + 2]))) {
+      c.pos += 2;
+      return;
+    }
+  }
+}
+
+async function collectImages(
+  doc: PdfDocument,
+  content: Uint8Array,
+  resources: PdfDict,
+  ctm: Matrix,
+  images: PlacedImage[],
+  depth: number
+): Promise<void> {
+  const c: Cursor = { bytes: content, pos: 0 };
+  const stack: Matrix[] = [];
+  let operands: Token[] = [];
+  const xObjects = getDict(doc, resources, 'XObject');
+
+  for (;;) {
+    const token = parseToken(c);
+    if (token === undefined) break;
+    if (!isKeyword(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case 'q':
+        stack.push(ctm);
+        break;
+      case 'Q':
+        ctm = stack.pop() ?? ctm;
+        break;
+      case 'cm':
+        if (operands.length >= 6 && operands.slice(-6).every((v) => typeof v === 'number')) {
+          ctm = multiply(operands.slice(-6) as Matrix, ctm);
+        }
+        break;
+      case 'BI':
+        skipInlineImage(c);
+        break;
+      case 'Do': {
+        const name = operands[operands.length - 1];
+        const xObject = isName(name) ? get(doc, xObjects, name.value) : undefined;
+        if (!isStream(xObject)) break;
+        const subtype = getName(doc, xObject.dict, 'Subtype');
+        if (subtype === 'Image') {
+          images.push({ stream: xObject, ctm });
+        } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+          const matrix = get(doc, xObject.dict, 'Matrix');
+          const formMatrix = Array.isArray(matrix) && matrix.length === 6 && matrix.every((v) => typeof v === 'number')
+            ? (matrix as Matrix)
+            : ([1, 0, 0, 1, 0, 0] as Matrix);
+          const formContent = (await decodeStream(doc, xObject)).data;
+          const formResources = getDict(doc, xObject.dict, 'Resources') ?? resources;
+          await collectImages(doc, formContent, formResources, multiply(formMatrix, ctm), images, depth + 1);
+        }
+        break;
+      }
+    }
+    operands = [];
+  }
+}
+
+async function layoutPage(doc: PdfDocument, page: PdfPage): Promise<PlacedImage[]> {
+  const parts = await Promise.all(page.contents.map((stream) => decodeStream(doc, stream)));
+  const total = parts.reduce((sum, part) => sum + part.data.length + 1, 0);
+  const content = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    content.set(part.data, offset);
+    content[offset + part.data.length] = 10;
+    offset += part.data.length + 1;
+  }
+
+  const images: PlacedImage[] = [];
+  await collectImages(doc, content, page.resources, [1, 0, 0, 1, 0, 0], images, 0);
+  return images;
+}
+
+/**
+ * Pixels per point that keeps the sharpest image at its native resolution
+ */
+function renderScale(doc: PdfDocument, page: PdfPage, images: PlacedImage[]): number {
+  let scale = MIN_RENDER_SCALE;
+  for (const { stream, ctm } of images) {
+    const width = getNumber(doc, stream.dict, 'Width', 0);
+    const height = getNumber(doc, stream.dict, 'Height', 0);
+    const placedWidth = Math.hypot(ctm[0], ctm[1]);
+    const placedHeight = Math.hypot(ctm[2], ctm[3]);
+    if (placedWidth > 0) scale = Math.max(scale, width / placedWidth);
+    if (placedHeight > 0) scale = Math.max(scale, height / placedHeight);
+  }
+  const [x0, y0, x1, y1] = page.box;
+  return Math.min(scale, MAX_RENDER_SIDE / Math.max(x1 - x0, y1 - y0, 1));
+}
+
+function renderSize(page: PdfPage, scale: number): { width: number; height: number } {
+  const [x0, y0, x1, y1] = page.box;
+  const width = Math.max(1, Math.round((x1 - x0) * scale));
+  const height = Math.max(1, Math.round((y1 - y0) * scale));
+  return page.rotate % 180 === 0 ? { width, height } : { width: height, height: width };
+}
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+interface ColourSpace {
+  components: number;
+  toRgb: (samples: number[], out: Uint8ClampedArray, o: number) => void; // Samples 0-255
+}
+
+const GREY: ColourSpace = { components: 1, toRgb: (s, out, o) => { out[o] = out[o + 1] = out[o + 2] = s[0]; } };
+const RGB: ColourSpace = { components: 3, toRgb: (s, out, o) => { out[o] = s[0]; out[o + 1] = s[1]; out[o + 2] = s[2]; } };
+const CMYK: ColourSpace = {
+  components: 4,
+  toRgb: (s, out, o) => {
+    const k = 255 - s[3];
+    out[o] = ((255 - s[0]) * k) / 255;
+    out[o + 1] = ((255 - s[1]) * k) / 255;
+    out[o + 2] = ((255 - s[2]) * k) / 255;
+  },
+};
+// Single ink (Separation): full tint is black
+const INK: ColourSpace = { components: 1, toRgb: (s, out, o) => { out[o] = out[o + 1] = out[o + 2] = 255 - s[0]; } };
+
+function readColourSpace(doc: PdfDocument, value: PdfValue | undefined, depth = 0): ColourSpace {
+  value = resolve(doc, value);
+  if (isName(value)) {
+    switch (value.value) {
+      case 'DeviceGray': case 'G': case 'CalGray': return GREY;
+      case 'DeviceRGB': case 'RGB': case 'CalRGB': return RGB;
+      case 'DeviceCMYK': case 'CMYK': return CMYK;
+    }
+    throw new Error(`PDF colour space ${value.value} is not supported`);
+  }
+  if (Array.isArray(value) && value.length > 0 && depth < 4) {
+    const family = resolve(doc, value[0]);
+    const name = isName(family) ? family.value : '';
+    if (name === 'ICCBased') {
+      const profile = resolve(doc, value[1]);
+      const components = isStream(profile) ? getNumber(doc, profile.dict, 'N', 3) : 3;
+      return components === 1 ? GREY : components === 4 ? CMYK : RGB;
+    }
+    if (name === 'CalRGB') return RGB;
+    if (name === 'CalGray') return GREY;
+    if (name === 'Separation') return INK;
+    if (name === 'Indexed' || name === 'I') {
+      const base = readColourSpace(doc, value[1], depth + 1);
+      const lookupValue = resolve(doc, value[3]);
+      const lookup = typeof lookupValue === 'string'
+        ? Uint8Array.from(lookupValue, (ch) => ch.charCodeAt(0))
+        : isStream(lookupValue) ? decodedStreams.get(lookupValue)?.data ?? lookupValue.data : new Uint8Array(0);
+      return {
+        components: 1,
+        toRgb: (s, out, o) => {
+          const start = s[0] * base.components;
+          base.toRgb(Array.from(lookup.subarray(start, start + base.components)), out, o);
+        },
+      };
+    }
+    throw new Error(`PDF colour space ${name} is not supported`);
+  }
+  return RGB;
+}
+
+async function decodeImage(doc: PdfDocument, stream: PdfStream): Promise<CanvasImageSource> {
+  const { data, codec } = await decodeStream(doc, stream);
+
+  if (codec === 'DCTDecode') {
+    return createImageBitmap(new Blob([data.slice()], { type: 'image/jpeg' }));
+  }
+  if (codec) {
+    throw new Error(`This PDF stores its scan as ${CODEC_LABELS[codec] ?? codec}, which can't be opened here - export the page as JPEG or PNG instead`);
+  }
+
+  const width = getNumber(doc, stream.dict, 'Width', 0);
+  const height = getNumber(doc, stream.dict, 'Height', 0);
+  if (width <= 0 || height <= 0) throw new Error('A PDF image has no size');
+  const isMask = get(doc, stream.dict, 'ImageMask') === true || get(doc, stream.dict, 'IM') === true;
+  const bits = isMask ? 1 : getNumber(doc, stream.dict, 'BitsPerComponent', 8);
+
+  // Indexed lookups may live in Flate streams: decode them before reading
+  const csValue = get(doc, stream.dict, 'ColorSpace') ?? get(doc, stream.dict, 'CS');
+  if (Array.isArray(csValue)) {
+    const lookup = resolve(doc, csValue[3]);
+    if (isStream(lookup)) await decodeStream(doc, lookup);
+  }
+  const colourSpace = isMask ? GREY : readColourSpace(doc, csValue);
+  const indexed = Array.isArray(csValue) && isName(resolve(doc, csValue[0])) && ['Indexed', 'I'].includes((resolve(doc, csValue[0]) as PdfName).value);
+
+  // Decode [1 0]: inverted samples (image masks paint where the sample is 0)
+  const decode = get(doc, stream.dict, 'Decode') ?? get(doc, stream.dict, 'D');
+  const inverted = Array.isArray(decode) && typeof decode[0] === 'number' && typeof decode[1] === 'number' && decode[0] > decode[1];
+
+  const components = colourSpace.components;
+  const rowBytes = Math.ceil((width * components * bits) / 8);
+  const maxValue = (1 << Math.min(bits, 8)) - 1;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const samples = new Array<number>(components);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      for (let s = 0; s < components; s++) {
+        const index = x * components + s;
+        let value: number;
+        if (bits === 8) value = data[rowStart + index] ?? 0;
+        else if (bits === 16) value = data[rowStart + index * 2] ?? 0;
+        else {
+          const bit = index * bits;
+          value = ((data[rowStart + (bit >> 3)] ?? 0) >> (8 - bits - (bit & 7))) & maxValue;
+        }
+        if (inverted) value = (bits === 16 ? 255 : maxValue) - value;
+        samples[s] = indexed || bits >= 8 ? value : Math.round((value * 255) / maxValue);
+      }
+      const o = (y * width + x) * 4;
+      colourSpace.toRgb(samples, pixels, o);
+      pixels[o + 3] = 255;
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return canvas;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Pages of a PDF with the pixel size they render at
+ */
+export async function listPdfPages(bytes: Uint8Array): Promise<ImagePage[]> {
+  const doc = await loadDocument(bytes);
+  const pages: ImagePage[] = [];
+  for (let index = 0; index < doc.pages.length; index++) {
+    const page = doc.pages[index];
+    const size = renderSize(page, renderScale(doc, page, await layoutPage(doc, page)));
+    pages.push({ index, ...size });
+  }
+  return pages;
+}
+
+/**
+ * Render one page's scanned images onto a white canvas
+ */
+export async function renderPdfPage(bytes: Uint8Array, pageIndex: number): Promise<HTMLCanvasElement> {
+  const doc = await loadDocument(bytes);
+  const page = doc.pages[pageIndex];
+  if (!page) throw new Error(`This PDF has no page ${pageIndex + 1}`);
+
+  const images = await layoutPage(doc, page);
+  if (images.length === 0) {
+    throw new Error(`Page ${pageIndex + 1} has no scanned image - only scanned PDFs can be opened`);
+  }
+
+  const scale = renderScale(doc, page, images);
+  const { width, height } = renderSize(page, scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+
+  // Page rotation (clockwise), then PDF space (y up, origin at the box corner) to pixels
+  const [x0, , , y1] = page.box;
+  const rotation: Record<number, Matrix> = {
+    0: [1, 0, 0, 1, 0, 0],
+    90: [0, 1, -1, 0, width, 0],
+    180: [-1, 0, 0, -1, width, height],
+    270: [0, -1, 1, 0, 0, height],
+  };
+  const device = multiply([scale, 0, 0, -scale, -x0 * scale, y1 * scale], rotation[page.rotate]);
+
+  // One undecodable image (a JBIG2 logo, say) shouldn't cost the rest of the page
+  let drawn = 0;
+  let firstError: unknown = null;
+  for (const { stream, ctm } of images) {
+    let image: CanvasImageSource;
+    try {
+      image = await decodeImage(doc, stream);
+    } catch (error) {
+      console.warn('⚠️ Skipped a PDF image:', error instanceof Error ? error.message : error);
+      firstError ??= error;
+      continue;
+    }
+    const imageWidth = getNumber(doc, stream.dict, 'Width', 1);
+    const imageHeight = getNumber(doc, stream.dict, 'Height', 1);
+    ctx.setTransform(...device);
+    ctx.transform(...ctm);
+    ctx.transform(1 / imageWidth, 0, 0, -1 / imageHeight, 0, 1); // Image rows run top-down
+    ctx.drawImage(image, 0, 0);
+    if ('close' in image && typeof image.close === 'function') image.close();
+    drawn++;
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (drawn === 0) throw firstError;
+
+  const skipped = images.length - drawn;
+  console.log(`📄 Rendered PDF page ${pageIndex + 1} at ${width}x${height} (${drawn} image${drawn === 1 ? '' : 's'}${skipped ? `, ${skipped} skipped` : ''})`);
+  return canvas;
+}
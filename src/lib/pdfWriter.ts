@@ -0,0 +1,108 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Wraps a single JPEG in a one-page PDF. The JPEG bytes are embedded
+ * untouched as a DCTDecode image XObject, so the PDF is only a few hundred
+ * bytes larger than the image itself - which lets the KB limiter treat
+ * PDF output as "JPEG plus a fixed overhead".
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Build the PDF byte parts around the image data
+ * Page size is given in points (1/72 inch)
+ */
+function buildPdfParts(
+  imageBytes: Uint8Array,
+  pixelWidth: number,
+  pixelHeight: number,
+  dpi: number
+): Uint8Array[] {
+  const pageWidth = ((pixelWidth * 72) / dpi).toFixed(2);
+  const pageHeight = ((pixelHeight * 72) / dpi).toFixed(2);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (bytes: Uint8Array) => {
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const pushText = (text: string) => push(encoder.encode(text));
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    pushText(`${id} 0 obj\n`);
+  };
+
+  // Header + binary marker comment so transfer tools treat the file as binary
+  pushText('%PDF-1.4\n');
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  beginObject(1);
+  pushText('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  pushText('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+
+  beginObject(3);
+  pushText(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n'
+  );
+
+  beginObject(4);
+  pushText(
+    `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${imageBytes.length} >>\nstream\n`
+  );
+  push(imageBytes);
+  pushText('\nendstream\nendobj\n');
+
+  beginObject(5);
+  pushText(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  // Cross-reference table: each entry is exactly 20 bytes
+  const xrefOffset = length;
+  let xref = 'xref\n0 6\n0000000000 65535 f \n';
+  for (let id = 1; id <= 5; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pushText(xref);
+  pushText(`trailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return parts;
+}
+
+/**
+ * Number of bytes the PDF wrapper adds on top of the JPEG
+ * Used to shrink the KB budget before searching for JPEG quality
+ */
+export function getPdfOverheadBytes(pixelWidth: number, pixelHeight: number, dpi: number = 72): number {
+  // Length digits vary with the image size; assume the widest plausible value
+  const parts = buildPdfParts(new Uint8Array(0), pixelWidth, pixelHeight, dpi);
+  return parts.reduce((sum, part) => sum + part.length, 0) + 8;
+}
+
+/**
+ * Wrap JPEG data in a single-page PDF sized to the image
+ */
+export async function wrapJpegInPdf(
+  jpeg: Blob,
+  pixelWidth: number,
+  pixelHeight: number,
+  dpi: number = 72
+): Promise<Blob> {
+  const imageBytes = new Uint8Array(await jpeg.arrayBuffer());
+  const parts = buildPdfParts(imageBytes, pixelWidth, pixelHeight, dpi);
+  
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return new Blob([output], { type: 'application/pdf' });
+}
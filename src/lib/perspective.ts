@@ -0,0 +1,345 @@
+/**
+ * Perspective Correction
+ *
+ * Turns a sheet photographed at an angle (a trapezoid) back into a flat scan
+ * before cropping:
+ * 1. Paper detection on a downscaled copy: Otsu threshold, the region of the
+ *    class covering the centre, its four extreme points as the corners
+ * 2. Homography from the output rectangle to the chosen quadrilateral
+ * 3. Inverse-mapped bilinear warp over ImageData
+ *
+ * The upload itself is never replaced: the corners travel with the crop
+ * (CropArea.perspective) and the processor flattens the decoded image before
+ * rotating and cropping it, so the corners can be revisited and the photo is
+ * only encoded once. Corners are in image pixels, clockwise from top-left.
+ */
+
+import type { Quad, QuadPoint } from '@/types';
+
+type FlattenSource = HTMLImageElement | HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+
+const ANALYSIS_SIZE = 480; // Longest side the paper is searched at
+const CENTRE_WINDOW = 0.3; // Share of each side sampled to decide the paper's class
+const MIN_PAPER_AREA = 0.1; // Region shares outside these are not a sheet on a background
+const MAX_PAPER_AREA = 0.97;
+const MAX_OUTPUT_SIDE = 6000;
+const PREVIEW_QUALITY = 0.92;
+
+/**
+ * The whole image as a quad (no correction)
+ */
+export function fullImageQuad(width: number, height: number): Quad {
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+}
+
+/**
+ * True when the quad is the image's own outline (flattening would change nothing)
+ */
+export function isFullImageQuad(quad: Quad, width: number, height: number): boolean {
+  return fullImageQuad(width, height).every((corner, i) =>
+    Math.abs(corner.x - quad[i].x) < 0.5 && Math.abs(corner.y - quad[i].y) < 0.5
+  );
+}
+
+/**
+ * True when the corners form a convex quad in clockwise order
+ */
+export function isValidQuad(quad: Quad): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-6) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return sign > 0;
+}
+
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let total = 0;
+  for (let v = 0; v < 256; v++) total += v * histogram[v];
+
+  let best = 128, bestVariance = -1;
+  let weightBelow = 0, sumBelow = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = gray.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (total - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
+
+/**
+ * Paper corners in an image, or null when no sheet stands out from its background
+ * Works on any ImageData; callers scale the result back to their image
+ */
+export function findPaperQuad(imageData: ImageData): Quad | null {
+  const { data, width, height } = imageData;
+  const gray = new Uint8Array(width * height);
+  for (let p = 0; p < gray.length; p++) {
+    gray[p] = Math.round(0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2]);
+  }
+  const threshold = otsuThreshold(gray);
+
+  // The paper is whichever class (bright or dark) dominates the middle of the frame;
+  // ink on it is a different class, so the fill grows around it and leaves holes
+  const x0 = Math.round(width * (0.5 - CENTRE_WINDOW / 2));
+  const x1 = Math.round(width * (0.5 + CENTRE_WINDOW / 2));
+  const y0 = Math.round(height * (0.5 - CENTRE_WINDOW / 2));
+  const y1 = Math.round(height * (0.5 + CENTRE_WINDOW / 2));
+  let bright = 0, samples = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (gray[y * width + x] > threshold) bright++;
+      samples++;
+    }
+  }
+  if (samples === 0) return null;
+  const paperIsBright = bright * 2 >= samples;
+  const isPaper = (p: number) => (gray[p] > threshold) === paperIsBright;
+
+  // Seed: the paper pixel nearest the centre
+  let seed = -1, seedDistance = Infinity;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = y * width + x;
+      const distance = (x - width / 2) ** 2 + (y - height / 2) ** 2;
+      if (isPaper(p) && distance < seedDistance) {
+        seed = p;
+        seedDistance = distance;
+      }
+    }
+  }
+  if (seed < 0) return null;
+
+  const visited = new Uint8Array(width * height);
+  const stack = [seed];
+  visited[seed] = 1;
+  let area = 0;
+  // Extreme points along the diagonals are the corners of a roughly upright sheet
+  let tl = seed, tr = seed, br = seed, bl = seed;
+  const sum = (p: number) => (p % width) + Math.floor(p / width);
+  const diff = (p: number) => (p % width) - Math.floor(p / width);
+
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    area++;
+    if (sum(p) < sum(tl)) tl = p;
+    if (sum(p) > sum(br)) br = p;
+    if (diff(p) > diff(tr)) tr = p;
+    if (diff(p) < diff(bl)) bl = p;
+
+    const x = p % width;
+    const neighbours = [
+      x > 0 ? p - 1 : -1,
+      x < width - 1 ? p + 1 : -1,
+      p >= width ? p - width : -1,
+      p < width * (height - 1) ? p + width : -1,
+    ];
+    for (const n of neighbours) {
+      if (n < 0 || visited[n] || !isPaper(n)) continue;
+      visited[n] = 1;
+      stack.push(n);
+    }
+  }
+
+  const share = area / (width * height);
+  if (share < MIN_PAPER_AREA || share > MAX_PAPER_AREA) return null;
+
+  // Pixel centres; the outer corner of a corner pixel is half a pixel further out
+  const corner = (p: number, dx: number, dy: number): QuadPoint => ({
+    x: Math.min(width, Math.max(0, (p % width) + 0.5 + dx * 0.5)),
+    y: Math.min(height, Math.max(0, Math.floor(p / width) + 0.5 + dy * 0.5)),
+  });
+  const quad: Quad = [corner(tl, -1, -1), corner(tr, 1, -1), corner(br, 1, 1), corner(bl, -1, 1)];
+  return isValidQuad(quad) ? quad : null;
+}
+
+/**
+ * Detect the paper in a decoded image, in its natural pixels
+ */
+export function detectPaperQuad(image: HTMLImageElement): Quad | null {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const quad = findPaperQuad(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  if (!quad) return null;
+  const scaleX = image.naturalWidth / canvas.width;
+  const scaleY = image.naturalHeight / canvas.height;
+  return quad.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY })) as Quad;
+}
+
+/**
+ * Output size for a quad: its longer top / bottom and left / right edges
+ */
+export function flattenedSize(quad: Quad): { width: number; height: number } {
+  const length = (a: QuadPoint, b: QuadPoint) => Math.hypot(b.x - a.x, b.y - a.y);
+  let width = Math.max(length(quad[0], quad[1]), length(quad[3], quad[2]));
+  let height = Math.max(length(quad[0], quad[3]), length(quad[1], quad[2]));
+  const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+  return { width, height };
+}
+
+/**
+ * Homography taking each `from` corner to the matching `to` corner
+ * Returned row-major with h[8] = 1
+ */
+export function computeHomography(from: Quad, to: Quad): number[] {
+  // Eight equations in h0..h7: u = (h0 x + h1 y + h2) / (h6 x + h7 y + 1), likewise v
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) throw new Error('Corners must form a quadrilateral');
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+/**
+ * Warp the quad of a source image onto a flat rectangle
+ * Each output pixel is mapped back into the source and sampled bilinearly;
+ * anything outside the source comes out white.
+ */
+export function warpPerspective(source: ImageData, quad: Quad, width: number, height: number): ImageData {
+  const h = computeHomography(fullImageQuad(width, height), quad);
+  const { data: src, width: srcWidth, height: srcHeight } = source;
+  const output = new ImageData(width, height);
+  const out = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cx = x + 0.5;
+      const cy = y + 0.5;
+      const w = h[6] * cx + h[7] * cy + h[8];
+      const sx = (h[0] * cx + h[1] * cy + h[2]) / w - 0.5;
+      const sy = (h[3] * cx + h[4] * cy + h[5]) / w - 0.5;
+      const o = (y * width + x) * 4;
+
+      if (sx < -0.5 || sy < -0.5 || sx > srcWidth - 0.5 || sy > srcHeight - 0.5) {
+        out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.max(0, Math.floor(sx));
+      const y0 = Math.max(0, Math.floor(sy));
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const y1 = Math.min(srcHeight - 1, y0 + 1);
+      const fx = Math.min(1, Math.max(0, sx - x0));
+      const fy = Math.min(1, Math.max(0, sy - y0));
+      const i00 = (y0 * srcWidth + x0) * 4;
+      const i10 = (y0 * srcWidth + x1) * 4;
+      const i01 = (y1 * srcWidth + x0) * 4;
+      const i11 = (y1 * srcWidth + x1) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+  return output;
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function get2d(canvas: HTMLCanvasElement | OffscreenCanvas) {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx;
+}
+
+/**
+ * Flatten the quad of a decoded image (worker-safe: uses OffscreenCanvas where available)
+ * Alpha is kept, so transparent uploads stay transparent for the pipeline's white fill
+ */
+export function flattenImage(source: FlattenSource, quad: Quad): HTMLCanvasElement | OffscreenCanvas {
+  if (!isValidQuad(quad)) throw new Error('Corners must form a quadrilateral');
+  // No HTMLImageElement in workers, so test for the property instead of the class
+  const sourceWidth = 'naturalWidth' in source ? source.naturalWidth : source.width;
+  const sourceHeight = 'naturalHeight' in source ? source.naturalHeight : source.height;
+
+  const input = createCanvas(sourceWidth, sourceHeight);
+  const inputCtx = get2d(input);
+  inputCtx.drawImage(source, 0, 0);
+
+  const { width, height } = flattenedSize(quad);
+  const output = createCanvas(width, height);
+  get2d(output).putImageData(warpPerspective(inputCtx.getImageData(0, 0, sourceWidth, sourceHeight), quad, width, height), 0, 0);
+  return output;
+}
+
+/**
+ * Flattened copy of an image for the cropper, as an object URL
+ * Composited over white (like the processor's output) so transparency doesn't turn black
+ */
+export async function createFlattenedImageUrl(imageUrl: string, quad: Quad): Promise<string> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = imageUrl;
+  });
+
+  const flattened = flattenImage(image, quad);
+  const canvas = document.createElement('canvas');
+  canvas.width = flattened.width;
+  canvas.height = flattened.height;
+  const ctx = get2d(canvas);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(flattened, 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', PREVIEW_QUALITY));
+  if (!blob) throw new Error('Failed to encode image');
+  console.log(`📐 Perspective flattened (${canvas.width}x${canvas.height})`);
+  return URL.createObjectURL(blob);
+}
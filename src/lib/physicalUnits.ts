@@ -0,0 +1,84 @@
+/**
+ * Physical Units
+ *
+ * Converts between print sizes (cm / mm / inch) at a given DPI and the pixel
+ * sizes the pipeline works in. A spec that declares both physicalSize and
+ * dpi gets its pixel size computed from them, e.g. 3.5 × 4.5 cm at 300 DPI
+ * is 413 × 531 px.
+ */
+
+import type { CustomDimensions, ExamPreset, ImageSpec, PhysicalUnit } from '@/types';
+
+export const PHYSICAL_UNITS: PhysicalUnit[] = ['cm', 'mm', 'in'];
+export const DPI_OPTIONS = [72, 96, 150, 200, 240, 300, 600];
+export const DEFAULT_DPI = 300;
+
+const UNITS_PER_INCH: Record<PhysicalUnit, number> = {
+  cm: 2.54,
+  mm: 25.4,
+  in: 1,
+};
+
+export function toPixels(value: number, unit: PhysicalUnit, dpi: number): number {
+  return Math.max(1, Math.round((value / UNITS_PER_INCH[unit]) * dpi));
+}
+
+export function toPhysical(pixels: number, unit: PhysicalUnit, dpi: number): number {
+  return (pixels / dpi) * UNITS_PER_INCH[unit];
+}
+
+/**
+ * Apply physicalSize + dpi to the pixel size (other specs pass through)
+ */
+export function resolveSpecPixels<T extends ImageSpec>(spec: T): T {
+  if (!spec.physicalSize || !spec.dpi) return spec;
+  const { width, height, unit } = spec.physicalSize;
+  return {
+    ...spec,
+    widthPx: toPixels(width, unit, spec.dpi),
+    heightPx: toPixels(height, unit, spec.dpi),
+  };
+}
+
+export function resolvePresetPixels(preset: ExamPreset): ExamPreset {
+  return {
+    ...preset,
+    specs: {
+      photo: resolveSpecPixels(preset.specs.photo),
+      signature: preset.specs.signature ? resolveSpecPixels(preset.specs.signature) : null,
+      ...(preset.specs.extras && { extras: preset.specs.extras.map((extra) => resolveSpecPixels(extra)) }),
+    },
+  };
+}
+
+/**
+ * "3.50 × 4.50 cm" - the size a pixel image prints at the given DPI
+ */
+export function formatPrintSize(widthPx: number, heightPx: number, dpi: number, unit: PhysicalUnit = 'cm'): string {
+  const digits = unit === 'mm' ? 0 : 2;
+  const width = toPhysical(widthPx, unit, dpi).toFixed(digits);
+  const height = toPhysical(heightPx, unit, dpi).toFixed(digits);
+  return `${width} × ${height} ${unit}`;
+}
+
+/**
+ * Build the spec for custom mode from the px or physical inputs
+ */
+export function customDimensionsToSpec(dims: CustomDimensions): ImageSpec {
+  const spec: ImageSpec = {
+    widthPx: dims.width,
+    heightPx: dims.height,
+    minSizeKB: dims.minKB,
+    maxSizeKB: dims.maxKB,
+    dateFormat: false,
+  };
+  if (dims.unit === 'px') {
+    if (dims.dpi) spec.dpi = dims.dpi;
+    return spec;
+  }
+  return resolveSpecPixels({
+    ...spec,
+    physicalSize: { width: dims.physicalWidth, height: dims.physicalHeight, unit: dims.unit },
+    dpi: dims.dpi ?? DEFAULT_DPI,
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Process Options
+ *
+ * Shared between the single-image flow and batch mode: turns a preset spec
+ * plus the user's settings into ProcessOptions for the pipeline, and a raw
+ * ProcessResult into the ProcessedResult the UI displays.
+ */
+
+import type { ProcessOptions, ProcessResult } from './wasmProcessor';
+import type { CaptionRender } from './captionBand';
+import { parseOutputFormat } from './outputFormats';
+import { parseBackgroundColor } from './backgroundReplacer';
+import { SHARPEN_PRESETS } from './resampler';
+import type { ImageSpec, CropArea, ProcessedResult, JpegSettings, SignatureCleanupSettings, FitSettings, ResampleSettings, ToneAdjustments } from '@/types';
+
+export interface ProcessSettings {
+  addDate?: boolean;
+  caption?: CaptionRender; // Band contents when addDate is on (default: today's date)
+  signatureColor?: string | null;
+  signatureCleanup?: SignatureCleanupSettings | null; // Signatures only
+  qualityPreference?: number; // 0-100, where 100 = max quality
+  replaceBackground?: boolean; // Repaint the backdrop in spec.background
+  backgroundTolerance?: number; // 0-100
+  jpeg?: JpegSettings; // JPEG encoder choice (the app's setting defaults to built-in; omitted = the browser's)
+  fit?: FitSettings; // Cover / contain / stretch into the photo area (default: cover)
+  resample?: ResampleSettings; // Downscaling kernel (default: Lanczos3, no sharpening)
+  documentType?: 'photo' | 'signature'; // Picks the sharpening preset (default: photo)
+  tone?: ToneAdjustments | null; // Per-image tonal corrections
+}
+
+/**
+ * Build pipeline options for one image
+ */
+export function buildProcessOptions(spec: ImageSpec, settings: ProcessSettings, cropArea?: CropArea | null): ProcessOptions {
+  const addDate = settings.addDate ?? false;
+  return {
+    targetWidth: spec.widthPx,
+    targetHeight: spec.heightPx,
+    minSizeKB: spec.minSizeKB,
+    maxSizeKB: spec.maxSizeKB,
+    addDate,
+    caption: addDate ? settings.caption : undefined,
+    signatureColor: settings.signatureColor ?? null,
+    signatureCleanup: settings.signatureCleanup ?? null,
+    backgroundColor: settings.replaceBackground ? parseBackgroundColor(spec.background) : null,
+    backgroundTolerance: settings.backgroundTolerance ?? 50,
+    qualityPreference: settings.qualityPreference ?? 85,
+    outputFormat: parseOutputFormat(spec.format),
+    dpi: spec.dpi,
+    sizeFloor: spec.sizeFloor,
+    jpeg: settings.jpeg,
+    fit: settings.fit,
+    resample: settings.resample ? {
+      kernel: settings.resample.kernel,
+      sharpen: settings.resample.sharpen ? SHARPEN_PRESETS[settings.documentType ?? 'photo'] : null,
+    } : undefined,
+    tone: settings.tone ?? null,
+    cropArea: cropArea ? {
+      x: cropArea.x,
+      y: cropArea.y,
+      width: cropArea.width,
+      height: cropArea.height,
+      rotation: cropArea.rotation,
+      perspective: cropArea.perspective,
+    } : undefined,
+  };
+}
+
+/**
+ * Create object URLs for download and display (PDF previews the embedded JPEG)
+ */
+export function toProcessedResult(result: ProcessResult): ProcessedResult {
+  const dataUrl = URL.createObjectURL(result.blob);
+  const previewUrl = result.previewBlob ? URL.createObjectURL(result.previewBlob) : dataUrl;
+
+  return {
+    blob: result.blob,
+    dataUrl,
+    previewUrl,
+    format: result.format,
+    metadataStripped: result.metadataStripped,
+    sizeKB: result.sizeKB,
+    dimensions: {
+      width: result.width,
+      height: result.height,
+    },
+    imageArea: result.imageArea,
+    dpi: result.dpi,
+    sizeFloor: result.sizeFloor,
+  };
+}
+
+/**
+ * Release the object URLs held by a result
+ */
+export function revokeProcessedResult(result: ProcessedResult): void {
+  URL.revokeObjectURL(result.dataUrl);
+  if (result.previewUrl !== result.dataUrl) {
+    URL.revokeObjectURL(result.previewUrl);
+  }
+}
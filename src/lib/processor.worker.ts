@@ -0,0 +1,70 @@
+/**
+ * Processing Worker
+ *
+ * Runs processImageWASM off the main thread so the crop/resize and the
+ * binary-search encode loop never freeze the page. Only loaded when
+ * OffscreenCanvas is available (see workerProcessor.ts).
+ */
+
+import { processImageWASM, type ProcessOptions } from './wasmProcessor';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+// Jobs currently running, and the ones the main thread asked us to abandon
+const activeJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+/**
+ * Thrown from the progress callback to unwind a cancelled job
+ * at the next pipeline checkpoint
+ */
+class JobCancelled extends Error {}
+
+async function runJob(id: number, file: File, options: ProcessOptions): Promise<void> {
+  activeJobs.add(id);
+  try {
+    const result = await processImageWASM(file, options, (progress) => {
+      if (cancelledJobs.has(id)) {
+        throw new JobCancelled();
+      }
+      post({ type: 'progress', id, progress });
+    });
+
+    if (cancelledJobs.has(id)) {
+      post({ type: 'cancelled', id });
+    } else {
+      post({ type: 'result', id, result });
+    }
+  } catch (error) {
+    if (error instanceof JobCancelled || cancelledJobs.has(id)) {
+      post({ type: 'cancelled', id });
+    } else {
+      post({
+        type: 'error',
+        id,
+        message: error instanceof Error ? error.message : 'Processing failed',
+      });
+    }
+  } finally {
+    activeJobs.delete(id);
+    cancelledJobs.delete(id);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'process':
+      runJob(message.id, message.file, message.options);
+      break;
+    case 'cancel':
+      if (activeJobs.has(message.id)) {
+        cancelledJobs.add(message.id);
+      }
+      break;
+  }
+});
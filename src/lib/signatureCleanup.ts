@@ -0,0 +1,379 @@
+/**
+ * Signature Cleanup
+ *
+ * Phone photos of a signature on paper come with shadows, uneven light and
+ * often notebook lines, which a fixed luminance threshold turns into grey
+ * smudges. This stage separates ink from paper before the image is scaled:
+ *
+ * 1. Flat-field: estimate the paper brightness per region (bright percentile
+ *    on a coarse grid, interpolated) and divide it out - removes shadows and
+ *    illumination gradients
+ * 2. Sauvola threshold on the flattened image (local mean / deviation from
+ *    integral images), gated by a global Otsu level so flat paper stays clean
+ * 3. Ruled / graph line removal: long thin horizontal or vertical runs are
+ *    dropped, except where a stroke crosses them
+ * 4. Deskew: rotate so the ink's principal axis is level
+ *
+ * Works on ImageData so the processor and the live preview share it.
+ */
+
+import type { SignatureCleanupSettings } from '@/types';
+
+export const DEFAULT_SIGNATURE_CLEANUP: SignatureCleanupSettings = {
+  enabled: true,
+  sensitivity: 50,
+  removeLines: true,
+  deskew: true,
+};
+
+// Mask values
+export const MASK_PAPER = 0;
+export const MASK_INK = 1;
+export const MASK_LINE = 2; // Ink removed as a ruled line
+
+const SAUVOLA_RANGE = 128; // Dynamic range of the standard deviation (R)
+const LINE_MIN_SPAN = 0.6; // A ruled line crosses at least this share of the image
+const LINE_MAX_GAP = 2; // Gaps (px) bridged inside a ruled line
+const LINE_DARKNESS = 235; // Flattened level below which a pixel may belong to a line
+const MAX_DESKEW_DEGREES = 15;
+const MIN_DESKEW_DEGREES = 0.3;
+const MIN_DESKEW_ELONGATION = 2; // Principal / minor axis variance ratio
+
+export interface SignatureMask {
+  mask: Uint8Array; // One MASK_* value per pixel
+  background: Float32Array; // Estimated paper brightness per pixel
+  angle: number; // Degrees the ink is tilted (0 when deskew is off or unsure)
+}
+
+function toLuminance(data: Uint8ClampedArray, pixelCount: number): Float32Array {
+  const gray = new Float32Array(pixelCount);
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    // Transparent pixels count as paper
+    gray[p] = data[i + 3] < 128 ? 255 : 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+/**
+ * Paper brightness per pixel: the 90th percentile of each grid cell,
+ * bilinearly interpolated between cell centres
+ */
+function estimateBackground(gray: Float32Array, width: number, height: number): Float32Array {
+  const cellSize = Math.max(8, Math.round(Math.min(width, height) / 8));
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const cells = new Float32Array(cols * rows);
+  const histogram = new Uint32Array(256);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      histogram.fill(0);
+      const x0 = col * cellSize;
+      const y0 = row * cellSize;
+      const x1 = Math.min(width, x0 + cellSize);
+      const y1 = Math.min(height, y0 + cellSize);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[Math.round(gray[y * width + x])]++;
+      }
+
+      const target = (x1 - x0) * (y1 - y0) * 0.9;
+      let count = 0;
+      let level = 0;
+      while (level < 255 && count + histogram[level] < target) count += histogram[level++];
+      cells[row * cols + col] = level;
+    }
+  }
+
+  const background = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(rows - 1, Math.max(0, (y + 0.5) / cellSize - 0.5));
+    const r0 = Math.floor(fy);
+    const r1 = Math.min(rows - 1, r0 + 1);
+    const ty = fy - r0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(cols - 1, Math.max(0, (x + 0.5) / cellSize - 0.5));
+      const c0 = Math.floor(fx);
+      const c1 = Math.min(cols - 1, c0 + 1);
+      const tx = fx - c0;
+      const top = cells[r0 * cols + c0] * (1 - tx) + cells[r0 * cols + c1] * tx;
+      const bottom = cells[r1 * cols + c0] * (1 - tx) + cells[r1 * cols + c1] * tx;
+      background[y * width + x] = Math.max(1, top * (1 - ty) + bottom * ty);
+    }
+  }
+  return background;
+}
+
+/**
+ * Global Otsu level of a 0-255 image
+ */
+function otsuThreshold(values: Float32Array): number {
+  const histogram = new Float64Array(256);
+  for (let i = 0; i < values.length; i++) histogram[Math.round(values[i])]++;
+
+  let sum = 0;
+  for (let level = 0; level < 256; level++) sum += level * histogram[level];
+
+  let weightBelow = 0;
+  let sumBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = values.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const between = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Sauvola binarisation: ink where value < mean * (1 + k * (sd / R - 1))
+ */
+function sauvolaMask(flat: Float32Array, width: number, height: number, sensitivity: number): Uint8Array {
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const value = flat[y * width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares;
+    }
+  }
+
+  // Higher sensitivity keeps fainter ink: k 0.5 (strict) .. 0.1 (lenient)
+  const k = 0.5 - (sensitivity / 100) * 0.4;
+  const ceiling = otsuThreshold(flat) + (sensitivity - 50) * 0.6;
+  const radius = Math.max(7, Math.round(Math.min(width, height) / 10));
+
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const value = flat[y * width + x];
+      if (value >= ceiling) continue;
+
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0];
+      const sumSquares = squares[y1 * stride + x1] - squares[y0 * stride + x1] - squares[y1 * stride + x0] + squares[y0 * stride + x0];
+      const mean = sum / area;
+      const deviation = Math.sqrt(Math.max(0, sumSquares / area - mean * mean));
+      if (value < mean * (1 + k * (deviation / SAUVOLA_RANGE - 1))) mask[y * width + x] = MASK_INK;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Mark long thin runs along one axis as MASK_LINE
+ * Runs are traced on the flattened image rather than the mask, since printed
+ * lines are faint and only partly pass the ink threshold.
+ * `index` maps (position along the run, lane) to a pixel so rows and columns share the code
+ */
+function removeLinesAlongAxis(
+  mask: Uint8Array,
+  flat: Float32Array,
+  length: number,
+  lanes: number,
+  index: (along: number, lane: number) => number
+): void {
+  const minRun = Math.max(24, Math.round(length * LINE_MIN_SPAN));
+  const maxThickness = Math.max(3, Math.round(lanes / 60));
+  const candidate = new Uint8Array(mask.length);
+  let found = false;
+
+  for (let lane = 0; lane < lanes; lane++) {
+    let start = -1;
+    let lastDark = -1;
+    for (let along = 0; along <= length; along++) {
+      const isDark = along < length && flat[index(along, lane)] < LINE_DARKNESS;
+      if (isDark) {
+        if (start < 0) start = along;
+        lastDark = along;
+      } else if (start >= 0 && (along === length || along - lastDark > LINE_MAX_GAP)) {
+        if (lastDark - start + 1 >= minRun) {
+          for (let a = start; a <= lastDark; a++) candidate[index(a, lane)] = 1;
+          found = true;
+        }
+        start = -1;
+      }
+    }
+  }
+  if (!found) return;
+
+  // Across each run position, drop thin bands unless a stroke continues past them.
+  // A thicker band is a bold stroke (a long underline flourish), never a ruled line.
+  for (let along = 0; along < length; along++) {
+    let lane = 0;
+    while (lane < lanes) {
+      if (!candidate[index(along, lane)]) {
+        lane++;
+        continue;
+      }
+      const bandStart = lane;
+      while (lane < lanes && candidate[index(along, lane)]) lane++;
+      const bandEnd = lane - 1;
+
+      const thin = bandEnd - bandStart + 1 <= maxThickness;
+      const strokeBefore = bandStart > 0 && mask[index(along, bandStart - 1)] !== MASK_PAPER;
+      const strokeAfter = bandEnd < lanes - 1 && mask[index(along, bandEnd + 1)] !== MASK_PAPER;
+      if (thin && !strokeBefore && !strokeAfter) {
+        for (let l = bandStart; l <= bandEnd; l++) {
+          const i = index(along, l);
+          if (mask[i] === MASK_INK) mask[i] = MASK_LINE;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Tilt of the ink's principal axis in degrees (0 when the ink isn't
+ * elongated enough to tell)
+ */
+function principalAxisAngle(mask: Uint8Array, width: number, height: number): number {
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] !== MASK_INK) continue;
+      count++;
+      sumX += x;
+      sumY += y;
+    }
+  }
+  if (count < 50) return 0;
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] !== MASK_INK) continue;
+      const dx = x - meanX;
+      const dy = y - meanY;
+      xx += dx * dx;
+      yy += dy * dy;
+      xy += dx * dy;
+    }
+  }
+
+  // Eigenvalues of the covariance matrix
+  const trace = xx + yy;
+  const spread = Math.sqrt((xx - yy) ** 2 + 4 * xy * xy);
+  const major = (trace + spread) / 2;
+  const minor = Math.max(1e-6, (trace - spread) / 2);
+  if (major / minor < MIN_DESKEW_ELONGATION) return 0;
+
+  const degrees = (0.5 * Math.atan2(2 * xy, xx - yy) * 180) / Math.PI;
+  if (Math.abs(degrees) < MIN_DESKEW_DEGREES || Math.abs(degrees) > MAX_DESKEW_DEGREES) return 0;
+  return degrees;
+}
+
+/**
+ * Classify every pixel as paper, ink or removed line
+ */
+export function buildSignatureMask(imageData: ImageData, settings: SignatureCleanupSettings): SignatureMask {
+  const { width, height, data } = imageData;
+  const gray = toLuminance(data, width * height);
+  const background = estimateBackground(gray, width, height);
+
+  const flat = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) flat[i] = Math.min(255, (gray[i] * 255) / background[i]);
+
+  const mask = sauvolaMask(flat, width, height, settings.sensitivity);
+
+  if (settings.removeLines) {
+    removeLinesAlongAxis(mask, flat, width, height, (x, y) => y * width + x);
+    removeLinesAlongAxis(mask, flat, height, width, (y, x) => y * width + x);
+  }
+
+  const angle = settings.deskew ? principalAxisAngle(mask, width, height) : 0;
+  return { mask, background, angle };
+}
+
+/**
+ * Rotate by -degrees about the centre (bilinear), filling uncovered corners white
+ */
+function rotateImageData(imageData: ImageData, degrees: number): void {
+  const { width, height, data } = imageData;
+  const source = new Uint8ClampedArray(data);
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Output pixel -> source position, rotated by +degrees
+      const dx = x - cx;
+      const dy = y - cy;
+      const sx = cx + dx * cos - dy * sin;
+      const sy = cy + dx * sin + dy * cos;
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const tx = sx - x0;
+      const ty = sy - y0;
+      const i = (y * width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        let value = 0;
+        for (let k = 0; k < 4; k++) {
+          const px = x0 + (k & 1);
+          const py = y0 + (k >> 1);
+          const weight = (k & 1 ? tx : 1 - tx) * (k >> 1 ? ty : 1 - ty);
+          const sample = px >= 0 && py >= 0 && px < width && py < height ? source[(py * width + px) * 4 + c] : 255;
+          value += sample * weight;
+        }
+        data[i + c] = value;
+      }
+      data[i + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Clean a signature in place: paper becomes white, ink keeps its colour
+ * with shadows divided out, ruled lines go, and the ink is levelled.
+ * Returns the deskew angle that was applied.
+ */
+export function applySignatureCleanup(imageData: ImageData, settings: SignatureCleanupSettings): number {
+  const { mask, background, angle } = buildSignatureMask(imageData, settings);
+  const data = imageData.data;
+
+  for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+    if (mask[p] === MASK_INK) {
+      const gain = 255 / background[p];
+      data[i] = data[i] * gain;
+      data[i + 1] = data[i + 1] * gain;
+      data[i + 2] = data[i + 2] * gain;
+    } else {
+      data[i] = 255;
+      data[i + 1] = 255;
+      data[i + 2] = 255;
+    }
+    data[i + 3] = 255;
+  }
+
+  if (angle !== 0) rotateImageData(imageData, angle);
+  return angle;
+}
@@ -0,0 +1,125 @@
+/**
+ * Signature Strokes
+ *
+ * Stroke model and renderer for the draw-a-signature pad. Points are stored
+ * in pad-width units (x and y both divided by the pad's width), so the same
+ * strokes redraw crisply at screen size and at export size.
+ *
+ * Each stroke is drawn as a Catmull-Rom spline (converted to cubic Béziers)
+ * through its points; segment width follows pen pressure, with round caps
+ * hiding the joins between segments.
+ */
+
+export interface StrokePoint {
+  x: number; // Pad-width units (0 = left edge, 1 = right edge)
+  y: number; // Pad-width units (pad height = 1 / aspect ratio)
+  pressure: number; // 0-1 (mice report 0.5 while pressed)
+}
+
+export interface SignatureStroke {
+  points: StrokePoint[];
+  width: number; // Pen width in PEN_WIDTH_SCALE units
+}
+
+export const PEN_WIDTHS = { min: 1, max: 10, default: 3 };
+
+// Pen width 1 = 1/500 of the pad width (1 px on a 500 px wide pad)
+const PEN_WIDTH_SCALE = 1 / 500;
+
+// Longest side of the exported image, well above any signature preset
+const EXPORT_MAX_SIDE = 1600;
+
+/**
+ * Width multiplier for a pressure reading: light touches thin the line,
+ * firm ones thicken it; a plain mouse (0.5) draws at the chosen width
+ */
+function pressureFactor(pressure: number): number {
+  return 0.4 + 1.2 * pressure;
+}
+
+/**
+ * Draw strokes onto a context whose transform maps pad-width units to pixels
+ */
+function traceStrokes(ctx: CanvasRenderingContext2D, strokes: SignatureStroke[], color: string): void {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const stroke of strokes) {
+    const { points } = stroke;
+    const baseWidth = stroke.width * PEN_WIDTH_SCALE;
+    if (points.length === 0) continue;
+
+    // A tap leaves a dot
+    if (points.length === 1) {
+      ctx.beginPath();
+      ctx.arc(points[0].x, points[0].y, (baseWidth * pressureFactor(points[0].pressure)) / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const p0 = points[Math.max(0, i - 1)];
+      const p1 = points[i];
+      const p2 = points[i + 1];
+      const p3 = points[Math.min(points.length - 1, i + 2)];
+
+      // Catmull-Rom tangents as Bézier control points
+      const c1x = p1.x + (p2.x - p0.x) / 6;
+      const c1y = p1.y + (p2.y - p0.y) / 6;
+      const c2x = p2.x - (p3.x - p1.x) / 6;
+      const c2y = p2.y - (p3.y - p1.y) / 6;
+
+      ctx.lineWidth = baseWidth * pressureFactor((p1.pressure + p2.pressure) / 2);
+      ctx.beginPath();
+      ctx.moveTo(p1.x, p1.y);
+      ctx.bezierCurveTo(c1x, c1y, c2x, c2y, p2.x, p2.y);
+      ctx.stroke();
+    }
+  }
+}
+
+/**
+ * Redraw the pad: white background, then every stroke
+ */
+export function renderStrokes(
+  canvas: HTMLCanvasElement,
+  strokes: SignatureStroke[],
+  color = '#000000'
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(canvas.width, 0, 0, canvas.width, 0, 0);
+  traceStrokes(ctx, strokes, color);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+export interface ExportedSignature {
+  file: File;
+  width: number;
+  height: number;
+}
+
+/**
+ * Render the strokes as a PNG at the given aspect ratio
+ * The long side is EXPORT_MAX_SIDE so the pipeline scales down, never up
+ */
+export async function exportStrokes(strokes: SignatureStroke[], aspectRatio: number): Promise<ExportedSignature> {
+  const canvas = document.createElement('canvas');
+  canvas.width = aspectRatio >= 1 ? EXPORT_MAX_SIDE : Math.round(EXPORT_MAX_SIDE * aspectRatio);
+  canvas.height = aspectRatio >= 1 ? Math.round(EXPORT_MAX_SIDE / aspectRatio) : EXPORT_MAX_SIDE;
+  renderStrokes(canvas, strokes);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not export the signature');
+  return {
+    file: new File([blob], 'signature-drawn.png', { type: 'image/png' }),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Signature Trim
+ *
+ * Finds the signature on a photo of a whole sheet and proposes a tight crop
+ * at the preset's aspect ratio, so users don't have to hunt for it in the
+ * cropper:
+ *
+ * 1. Ink mask from the cleanup stage (shadows flattened, ruled lines removed)
+ * 2. Connected components of the ink; the largest one seeds the cluster
+ * 3. Components near the cluster (i-dots, separate initials) join it, specks
+ *    far away are ignored; substantial strokes may sit a little further off,
+ *    but a stamp or printed name across the sheet stays out
+ * 4. Pad the cluster box, then grow it to the aspect ratio inside the image
+ */
+
+import type { CropArea } from '@/types';
+import { buildSignatureMask, DEFAULT_SIGNATURE_CLEANUP, MASK_INK } from './signatureCleanup';
+
+export const DEFAULT_TRIM_PADDING = 10; // Percent of the ink box on each side
+export const MAX_TRIM_PADDING = 50;
+
+const JOIN_DISTANCE = 0.15; // Gap (share of the larger image side) a component may sit from the cluster
+const SUBSTANTIAL_COMPONENT = 0.2; // Share of the largest component's area that joins from further away
+const SUBSTANTIAL_JOIN_FACTOR = 3; // How many join distances a substantial component may sit away
+const MIN_COMPONENT_PIXELS = 4; // Smaller blobs are sensor noise
+const INK_ANALYSIS_SIZE = 800; // Longest side the sheet is analysed at
+
+export interface InkBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Component {
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 8-connected components of the ink mask
+ */
+function findComponents(mask: Uint8Array, width: number, height: number): Component[] {
+  const visited = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  const components: Component[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== MASK_INK || visited[start]) continue;
+
+    const component: Component = { area: 0, minX: width, minY: height, maxX: 0, maxY: 0 };
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+      component.area++;
+      if (x < component.minX) component.minX = x;
+      if (x > component.maxX) component.maxX = x;
+      if (y < component.minY) component.minY = y;
+      if (y > component.maxY) component.maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = ny * width + nx;
+          if (mask[n] === MASK_INK && !visited[n]) {
+            visited[n] = 1;
+            stack[top++] = n;
+          }
+        }
+      }
+    }
+
+    if (component.area >= MIN_COMPONENT_PIXELS) components.push(component);
+  }
+  return components;
+}
+
+function boxGap(a: Component, b: Component): number {
+  const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+  const dy = Math.max(0, a.minY - b.maxY, b.minY - a.maxY);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Bounding box of the main stroke cluster, or null when there is no ink
+ */
+export function findInkBounds(imageData: ImageData): InkBounds | null {
+  const { width, height } = imageData;
+  const { mask } = buildSignatureMask(imageData, { ...DEFAULT_SIGNATURE_CLEANUP, removeLines: true, deskew: false });
+  const components = findComponents(mask, width, height);
+  if (components.length === 0) return null;
+
+  components.sort((a, b) => b.area - a.area);
+  const largest = components[0];
+  const cluster: Component = { ...largest };
+  const joinDistance = JOIN_DISTANCE * Math.max(width, height);
+  const pending = components.slice(1);
+
+  // Keep absorbing until no remaining component is close enough
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const component = pending[i];
+      const substantial = component.area >= largest.area * SUBSTANTIAL_COMPONENT;
+      if (boxGap(component, cluster) > (substantial ? SUBSTANTIAL_JOIN_FACTOR : 1) * joinDistance) continue;
+
+      cluster.area += component.area;
+      cluster.minX = Math.min(cluster.minX, component.minX);
+      cluster.minY = Math.min(cluster.minY, component.minY);
+      cluster.maxX = Math.max(cluster.maxX, component.maxX);
+      cluster.maxY = Math.max(cluster.maxY, component.maxY);
+      pending.splice(i, 1);
+      grew = true;
+    }
+  }
+
+  return {
+    x: cluster.minX,
+    y: cluster.minY,
+    width: cluster.maxX - cluster.minX + 1,
+    height: cluster.maxY - cluster.minY + 1,
+  };
+}
+
+/**
+ * Find the signature in an image (main thread only), in image pixels
+ */
+export function detectSignatureBounds(source: HTMLImageElement | HTMLCanvasElement): InkBounds | null {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.min(1, INK_ANALYSIS_SIZE / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const bounds = findInkBounds(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  if (!bounds) return null;
+
+  const toImage = canvas.width / sourceWidth;
+  return {
+    x: bounds.x / toImage,
+    y: bounds.y / toImage,
+    width: bounds.width / toImage,
+    height: bounds.height / toImage,
+  };
+}
+
+/**
+ * Propose a crop (image pixels, no rotation) around the ink
+ * The box is padded by paddingPercent of its size on each side, then widened
+ * or heightened to the aspect ratio; it always stays inside the image
+ */
+export function proposeSignatureCrop(
+  bounds: InkBounds,
+  imageWidth: number,
+  imageHeight: number,
+  aspectRatio: number,
+  paddingPercent: number = DEFAULT_TRIM_PADDING
+): CropArea {
+  const padding = clamp(paddingPercent, 0, MAX_TRIM_PADDING) / 100;
+  let width = bounds.width * (1 + 2 * padding);
+  let height = bounds.height * (1 + 2 * padding);
+
+  if (width / height > aspectRatio) {
+    height = width / aspectRatio;
+  } else {
+    width = height * aspectRatio;
+  }
+
+  // Larger than the photo: use the biggest crop that fits
+  if (width > imageWidth) {
+    width = imageWidth;
+    height = width / aspectRatio;
+  }
+  if (height > imageHeight) {
+    height = imageHeight;
+    width = height * aspectRatio;
+  }
+
+  const centreX = bounds.x + bounds.width / 2;
+  const centreY = bounds.y + bounds.height / 2;
+  return {
+    x: Math.round(clamp(centreX - width / 2, 0, imageWidth - width)),
+    y: Math.round(clamp(centreY - height / 2, 0, imageHeight - height)),
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+}
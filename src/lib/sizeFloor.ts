@@ -0,0 +1,139 @@
+/**
+ * Size Floor
+ *
+ * Tiny or flat images (a clean signature at 140×60, a white backdrop) can
+ * stay under minSizeKB even at quality 1.0. Portals reject those files, so
+ * the encoder output is brought up to the minimum without visible change:
+ * - padding: filler JPEG COM segments / a private PNG chunk, ignored by decoders
+ * - grain: faint luminance noise (±1-6 levels) so the encoder spends more bytes
+ * The strategy is set per preset (ImageSpec.sizeFloor); 'none' keeps the
+ * undersized file and leaves the warning to the result screen.
+ */
+
+import type { SizeFloorStrategy } from '@/types';
+import { crc32 } from './zipWriter';
+
+export const SIZE_FLOOR_STRATEGIES: SizeFloorStrategy[] = ['padding', 'grain', 'none'];
+export const DEFAULT_SIZE_FLOOR: SizeFloorStrategy = 'padding';
+
+// Noise amplitudes tried in order, in 8-bit levels
+export const GRAIN_LEVELS = [1, 2, 3, 4, 6];
+
+export const SIZE_FLOOR_LABELS: Record<SizeFloorStrategy, string> = {
+  padding: 'Padding (invisible filler bytes)',
+  grain: 'Grain (faint noise)',
+  none: 'None (allow undersized)',
+};
+
+const JPEG_SEGMENT_MAX = 0xffff + 2; // Marker + 65535-byte length field
+const JPEG_SEGMENT_OVERHEAD = 4; // Marker and length
+const PNG_CHUNK_OVERHEAD = 12; // Length, type and CRC
+const PNG_PADDING_TYPE = [0x70, 0x61, 0x44, 0x64]; // "paDd": ancillary, private, safe to copy
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * COM segments of zero bytes, placed after SOI / JFIF APP0
+ */
+function padJpeg(bytes: Uint8Array, deficit: number): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  // Keep JFIF APP0 directly after SOI, as the spec requires
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    if (insertAt > bytes.length) return null;
+  }
+
+  const segments: Uint8Array[] = [];
+  let remaining = Math.max(deficit, JPEG_SEGMENT_OVERHEAD);
+  while (remaining > 0) {
+    let total = Math.max(JPEG_SEGMENT_OVERHEAD, Math.min(remaining, JPEG_SEGMENT_MAX));
+    // Never leave a remainder too small for a segment of its own
+    if (remaining - total > 0 && remaining - total < JPEG_SEGMENT_OVERHEAD) total -= JPEG_SEGMENT_OVERHEAD;
+    const segment = new Uint8Array(total);
+    segment[0] = 0xff;
+    segment[1] = 0xfe; // COM
+    segment[2] = ((total - 2) >> 8) & 0xff;
+    segment[3] = (total - 2) & 0xff;
+    segments.push(segment);
+    remaining -= total;
+  }
+
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+/**
+ * One private ancillary chunk of zero bytes, placed before IEND
+ */
+function padPng(bytes: Uint8Array, deficit: number): Uint8Array | null {
+  if (bytes.length < 20 || bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) return null;
+
+  const iend = bytes.length - PNG_CHUNK_OVERHEAD;
+  if (bytes[iend + 4] !== 0x49 || bytes[iend + 5] !== 0x45 || bytes[iend + 6] !== 0x4e || bytes[iend + 7] !== 0x44) return null;
+
+  const payload = Math.max(0, deficit - PNG_CHUNK_OVERHEAD);
+  const chunk = new Uint8Array(payload + PNG_CHUNK_OVERHEAD);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, payload);
+  chunk.set(PNG_PADDING_TYPE, 4);
+  view.setUint32(8 + payload, crc32(chunk.subarray(4, 8 + payload)));
+
+  return concat([bytes.subarray(0, iend), chunk, bytes.subarray(iend)]);
+}
+
+/**
+ * Pad an encoded image up to minBytes
+ * Returns null for containers without a safe place for filler (WebP)
+ */
+export async function padToMinimumSize(blob: Blob, minBytes: number): Promise<Blob | null> {
+  const deficit = Math.ceil(minBytes) - blob.size;
+  if (deficit <= 0) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let padded: Uint8Array | null = null;
+  switch (blob.type) {
+    case 'image/jpeg': padded = padJpeg(bytes, deficit); break;
+    case 'image/png': padded = padPng(bytes, deficit); break;
+  }
+  if (!padded) return null;
+
+  const out = new Uint8Array(padded.length);
+  out.set(padded);
+  return new Blob([out], { type: blob.type });
+}
+
+/**
+ * Seeded PRNG so the same crop always gets the same grain
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Add uniform luminance noise of ±amplitude levels in place
+ */
+export function addGrain(data: Uint8ClampedArray, amplitude: number, seed = 0x5eed): void {
+  const random = mulberry32(seed);
+  for (let i = 0; i < data.length; i += 4) {
+    const noise = Math.round((random() * 2 - 1) * amplitude);
+    data[i] += noise;
+    data[i + 1] += noise;
+    data[i + 2] += noise;
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Straighten
+ *
+ * Free-angle rotation support for the cropper:
+ * - Photos: tilt of the eye line (detector landmarks, else the darkest spot
+ *   in each half of the face's eye band), else of the shoulder line where
+ *   the silhouette leaves the backdrop
+ * - Signatures and documents: dominant edge direction (baselines, ruled
+ *   lines, paper edges) from a gradient-orientation histogram
+ * - Crop geometry: keep a crop inside the rotated image so the white
+ *   corners a fine rotation introduces never reach the output
+ *
+ * Angles are clockwise degrees, like the cropper and the processor.
+ */
+
+import type { CropArea } from '@/types';
+import { detectFace, type DetectedFace } from './faceDetector';
+
+export const MAX_FINE_ROTATION = 45;
+export const FINE_ROTATION_STEP = 0.1;
+
+export type StraightenSubject = 'photo' | 'document';
+
+export interface TiltEstimate {
+  angle: number; // Clockwise tilt of the content; rotate by -angle to level it
+  source: 'eyes' | 'shoulders' | 'edges';
+}
+
+const ANALYSIS_SIZE = 640; // Longest side the image is analysed at
+const MAX_FEATURE_TILT = 25; // Eye / shoulder lines steeper than this are misdetections
+const EYE_BAND = 0.12; // Half-height of the eye band, as a share of the face height
+const EYE_DARK_SHARE = 0.08; // Darkest share of each half-band taken as the eye
+const SHOULDER_OFFSET = 1.2; // Shoulder probes, in face widths from the face centre
+const BACKDROP_DISTANCE = 60; // RGB distance at which the silhouette starts
+const EDGE_BINS_PER_DEGREE = 4;
+const MIN_EDGE_MAGNITUDE = 40;
+const MIN_EDGE_PEAK = 2; // Peak height over the histogram mean for a confident answer
+
+function luma(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * The image after the cropper's quarter turns, downscaled for analysis
+ */
+function renderForAnalysis(image: HTMLImageElement, quarterRotation: number): HTMLCanvasElement {
+  const turns = ((Math.round(quarterRotation / 90) % 4) + 4) % 4;
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = turns % 2 ? height : width;
+  canvas.height = turns % 2 ? width : height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  return canvas;
+}
+
+/**
+ * Centroid of the darkest pixels in a box (an eye within its half of the band)
+ */
+function darkCentroid(imageData: ImageData, x0: number, y0: number, x1: number, y1: number): { x: number; y: number } | null {
+  const { data, width } = imageData;
+  const histogram = new Uint32Array(256);
+  let counted = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      histogram[Math.round(luma(data, (y * width + x) * 4))]++;
+      counted++;
+    }
+  }
+  if (counted < 16) return null;
+
+  let cutoff = 0;
+  for (let seen = 0; cutoff < 255; cutoff++) {
+    seen += histogram[cutoff];
+    if (seen >= counted * EYE_DARK_SHARE) break;
+  }
+
+  let sumX = 0, sumY = 0, n = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (luma(data, (y * width + x) * 4) > cutoff) continue;
+      sumX += x;
+      sumY += y;
+      n++;
+    }
+  }
+  return n > 0 ? { x: sumX / n, y: sumY / n } : null;
+}
+
+/**
+ * Eye line angle from the face box alone (skin detector, no landmarks)
+ */
+function eyeLineFromFace(imageData: ImageData, face: DetectedFace): number | null {
+  const { width, height } = imageData;
+  const y0 = Math.max(0, Math.round(face.eyeY - face.height * EYE_BAND));
+  const y1 = Math.min(height, Math.round(face.eyeY + face.height * EYE_BAND));
+  const left = Math.max(0, Math.round(face.x + face.width * 0.1));
+  const middle = Math.round(face.x + face.width / 2);
+  const right = Math.min(width, Math.round(face.x + face.width * 0.9));
+  if (y1 <= y0 || middle <= left || right <= middle) return null;
+
+  const leftEye = darkCentroid(imageData, left, y0, middle, y1);
+  const rightEye = darkCentroid(imageData, middle, y0, right, y1);
+  if (!leftEye || !rightEye) return null;
+  return toDegrees(Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x));
+}
+
+/**
+ * Shoulder line angle: the first row below the chin where each side of the
+ * frame stops matching the backdrop colour (sampled along the top edge)
+ */
+function shoulderLine(imageData: ImageData, face: DetectedFace): number | null {
+  const { data, width, height } = imageData;
+
+  const backdrop = [0, 0, 0];
+  const topRows = Math.max(1, Math.round(height * 0.04));
+  for (let y = 0; y < topRows; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      backdrop[0] += data[i];
+      backdrop[1] += data[i + 1];
+      backdrop[2] += data[i + 2];
+    }
+  }
+  for (let c = 0; c < 3; c++) backdrop[c] /= topRows * width;
+
+  const centre = face.x + face.width / 2;
+  const offset = Math.min(face.width * SHOULDER_OFFSET, centre - 2, width - 3 - centre);
+  if (offset < face.width * 0.6) return null;
+
+  const startY = Math.round(face.chinY + face.height * 0.1);
+  const edgeAt = (x: number): number | null => {
+    let run = 0;
+    for (let y = startY; y < height; y++) {
+      const i = (y * width + Math.round(x)) * 4;
+      const distance = Math.hypot(data[i] - backdrop[0], data[i + 1] - backdrop[1], data[i + 2] - backdrop[2]);
+      run = distance > BACKDROP_DISTANCE ? run + 1 : 0;
+      if (run === 3) return y - 2;
+    }
+    return null;
+  };
+
+  const leftY = edgeAt(centre - offset);
+  const rightY = edgeAt(centre + offset);
+  if (leftY === null || rightY === null) return null;
+  return toDegrees(Math.atan2(rightY - leftY, 2 * offset));
+}
+
+// [1, 4, 6, 4, 1] pass along one axis (stride 1 = rows, width = columns), edges clamped
+function blur(values: Float32Array, width: number, height: number, stride: number): Float32Array {
+  const out = new Float32Array(values.length);
+  const length = stride === 1 ? width : height;
+  for (let p = 0; p < values.length; p++) {
+    const position = stride === 1 ? p % width : Math.floor(p / width);
+    let sum = 0;
+    for (let k = -2; k <= 2; k++) {
+      const offset = Math.min(length - 1, Math.max(0, position + k)) - position;
+      sum += values[p + offset * stride] * [1, 4, 6, 4, 1][k + 2];
+    }
+    out[p] = sum / 16;
+  }
+  return out;
+}
+
+/**
+ * Dominant edge direction, folded so horizontal and vertical edges agree
+ * Returns the tilt in [-45, 45), or null when no direction stands out
+ */
+export function dominantEdgeAngle(imageData: ImageData): number | null {
+  const { data, width, height } = imageData;
+  const raw = new Float32Array(width * height);
+  for (let p = 0; p < raw.length; p++) raw[p] = luma(data, p * 4);
+  // Soften first: Sobel alone snaps thin, near-level strokes to 0°
+  const gray = blur(blur(raw, width, height, 1), width, height, width);
+
+  const bins = 90 * EDGE_BINS_PER_DEGREE;
+  const histogram = new Float64Array(bins);
+  // Skip a border so the frame edge itself doesn't vote for 0°
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const p = y * width + x;
+      const gx = gray[p - width + 1] + 2 * gray[p + 1] + gray[p + width + 1]
+        - gray[p - width - 1] - 2 * gray[p - 1] - gray[p + width - 1];
+      const gy = gray[p + width - 1] + 2 * gray[p + width] + gray[p + width + 1]
+        - gray[p - width - 1] - 2 * gray[p - width] - gray[p - width + 1];
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude < MIN_EDGE_MAGNITUDE) continue;
+
+      // Fold the gradient direction modulo 90° into [-45, 45)
+      let angle = toDegrees(Math.atan2(gy, gx)) % 90;
+      if (angle >= 45) angle -= 90;
+      if (angle < -45) angle += 90;
+      histogram[Math.round((angle + 45) * EDGE_BINS_PER_DEGREE) % bins] += magnitude;
+    }
+  }
+
+  // Circular smoothing (±45° wrap onto each other)
+  const smoothed = new Float64Array(bins);
+  const weights = [1, 2, 3, 2, 1];
+  let total = 0;
+  for (let b = 0; b < bins; b++) {
+    for (let k = -2; k <= 2; k++) smoothed[b] += histogram[(b + k + bins) % bins] * weights[k + 2];
+    total += smoothed[b];
+  }
+  if (total === 0) return null;
+
+  let peak = 0;
+  for (let b = 1; b < bins; b++) if (smoothed[b] > smoothed[peak]) peak = b;
+  if (smoothed[peak] < (total / bins) * MIN_EDGE_PEAK) return null;
+
+  // Parabolic refinement between the neighbouring bins
+  const before = smoothed[(peak - 1 + bins) % bins];
+  const after = smoothed[(peak + 1) % bins];
+  const curvature = before - 2 * smoothed[peak] + after;
+  const shift = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+  const angle = (peak + shift) / EDGE_BINS_PER_DEGREE - 45;
+  return angle >= 45 ? angle - 90 : angle < -45 ? angle + 90 : angle;
+}
+
+/**
+ * Estimate how far the content is tilted, after the cropper's quarter turns
+ * Photos try the eye line, then the shoulders, then fall back to edges
+ */
+export async function estimateTilt(
+  image: HTMLImageElement,
+  quarterRotation: number,
+  subject: StraightenSubject
+): Promise<TiltEstimate | null> {
+  const canvas = renderForAnalysis(image, quarterRotation);
+  const imageData = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+  if (subject === 'photo') {
+    const face = await detectFace(canvas);
+    if (face) {
+      const eyes = face.eyes
+        ? toDegrees(Math.atan2(face.eyes[1].y - face.eyes[0].y, face.eyes[1].x - face.eyes[0].x))
+        : eyeLineFromFace(imageData, face);
+      if (eyes !== null && Math.abs(eyes) <= MAX_FEATURE_TILT) return { angle: eyes, source: 'eyes' };
+
+      const shoulders = shoulderLine(imageData, face);
+      if (shoulders !== null && Math.abs(shoulders) <= MAX_FEATURE_TILT) return { angle: shoulders, source: 'shoulders' };
+    }
+  }
+
+  const edges = dominantEdgeAngle(imageData);
+  return edges === null ? null : { angle: edges, source: 'edges' };
+}
+
+/**
+ * Size of the rotated image's bounding box (the cropper's crop space)
+ */
+export function rotatedBounds(width: number, height: number, rotation: number): { width: number; height: number } {
+  const radians = (rotation * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+}
+
+// Crop space <-> image pixels (rotate about the centres, as the processor draws)
+function cropToImage(x: number, y: number, width: number, height: number, rotation: number) {
+  const bounds = rotatedBounds(width, height, rotation);
+  const radians = (rotation * Math.PI) / 180;
+  const dx = x - bounds.width / 2;
+  const dy = y - bounds.height / 2;
+  return {
+    x: dx * Math.cos(radians) + dy * Math.sin(radians) + width / 2,
+    y: -dx * Math.sin(radians) + dy * Math.cos(radians) + height / 2,
+  };
+}
+
+function imageToCrop(x: number, y: number, width: number, height: number, rotation: number) {
+  const bounds = rotatedBounds(width, height, rotation);
+  const radians = (rotation * Math.PI) / 180;
+  const dx = x - width / 2;
+  const dy = y - height / 2;
+  return {
+    x: dx * Math.cos(radians) - dy * Math.sin(radians) + bounds.width / 2,
+    y: dx * Math.sin(radians) + dy * Math.cos(radians) + bounds.height / 2,
+  };
+}
+
+function isInsideImage(crop: CropArea, width: number, height: number, rotation: number): boolean {
+  const tolerance = 0.5;
+  const corners = [
+    [crop.x, crop.y],
+    [crop.x + crop.width, crop.y],
+    [crop.x, crop.y + crop.height],
+    [crop.x + crop.width, crop.y + crop.height],
+  ];
+  return corners.every(([x, y]) => {
+    const point = cropToImage(x, y, width, height, rotation);
+    return point.x >= -tolerance && point.x <= width + tolerance
+      && point.y >= -tolerance && point.y <= height + tolerance;
+  });
+}
+
+/**
+ * Largest crop of the given aspect, centred, with no background showing
+ */
+export function largestInscribedCrop(width: number, height: number, rotation: number, aspect: number): CropArea {
+  const radians = (rotation * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const cropWidth = Math.min(width / (cos + sin / aspect), height / (sin + cos / aspect));
+  const bounds = rotatedBounds(width, height, rotation);
+  return {
+    x: (bounds.width - cropWidth) / 2,
+    y: (bounds.height - cropWidth / aspect) / 2,
+    width: cropWidth,
+    height: cropWidth / aspect,
+    rotation,
+  };
+}
+
+/**
+ * Carry a crop to a new rotation without white corners
+ * Keeps the crop's centre on the same image point and shrinks it until every
+ * corner lies on the photo; falls back to the centred inscribed crop when the
+ * centre would leave the image or the crop would shrink to under half.
+ * The crop's own rotation (default 0) says which crop space it is in.
+ */
+export function fitCropToRotation(crop: CropArea, width: number, height: number, rotation: number): CropArea {
+  const aspect = crop.width / crop.height;
+  const centre = cropToImage(crop.x + crop.width / 2, crop.y + crop.height / 2, width, height, crop.rotation ?? 0);
+  const { x: cx, y: cy } = imageToCrop(centre.x, centre.y, width, height, rotation);
+  const at = (scale: number): CropArea => ({
+    x: cx - (crop.width * scale) / 2,
+    y: cy - (crop.height * scale) / 2,
+    width: crop.width * scale,
+    height: crop.height * scale,
+    rotation,
+  });
+
+  const centreInside = centre.x > 0 && centre.x < width && centre.y > 0 && centre.y < height;
+  if (centreInside && isInsideImage(at(1), width, height, rotation)) return at(1);
+
+  let low = 0;
+  let high = 1;
+  if (centreInside) {
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (isInsideImage(at(mid), width, height, rotation)) low = mid;
+      else high = mid;
+    }
+  }
+  if (low >= 0.5) return at(low);
+
+  const inscribed = largestInscribedCrop(width, height, rotation, aspect);
+  const scale = Math.min(1, crop.width / inscribed.width);
+  return {
+    x: inscribed.x + (inscribed.width * (1 - scale)) / 2,
+    y: inscribed.y + (inscribed.height * (1 - scale)) / 2,
+    width: inscribed.width * scale,
+    height: inscribed.height * scale,
+    rotation,
+  };
+}
@@ -0,0 +1,495 @@
+/**
+ * TIFF Decoder
+ *
+ * Pure-TS baseline TIFF decoder for scanner output. Browsers other than
+ * Safari can't decode TIFF at all, and none of them expose pages past the
+ * first, so multi-page scans always come through here:
+ * - Pages: every full-resolution IFD in the chain (thumbnails are skipped)
+ * - Layout: strips or tiles, chunky or planar
+ * - Compression: none, PackBits, LZW and Deflate, with horizontal predictor,
+ *   and CCITT fax (Modified Huffman, Group 3 and Group 4) for bilevel pages
+ * - Colour: bilevel / greyscale (either polarity), palette, RGB, CMYK,
+ *   1-16 bits per sample, with an optional alpha channel
+ *
+ * JPEG-in-TIFF is reported as unsupported.
+ */
+
+import type { DecodedImage } from './imageDecoder';
+import { decodeCcitt, type CcittOptions } from './ccittDecoder';
+
+const MAX_PIXELS = 100_000_000; // Refuse pages that would exhaust memory
+const MAX_PAGES = 500;
+
+// Tags
+const TAG_SUBFILE_TYPE = 254;
+const TAG_WIDTH = 256;
+const TAG_HEIGHT = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_FILL_ORDER = 266;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIG = 284;
+const TAG_T4_OPTIONS = 292;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_EXTRA_SAMPLES = 338;
+const TAG_SAMPLE_FORMAT = 339;
+
+// Compression schemes
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_OLD = 32946;
+const COMPRESSION_PACKBITS = 32773;
+const COMPRESSION_CCITT_RLE = 2;
+const COMPRESSION_CCITT_T4 = 3;
+const COMPRESSION_CCITT_T6 = 4;
+const JPEG_COMPRESSIONS = [6, 7];
+
+// Photometric interpretations
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+const PHOTOMETRIC_CMYK = 5;
+
+// Field type -> byte size
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+type Ifd = Map<number, number[]>;
+
+export interface TiffPage {
+  index: number;
+  width: number;
+  height: number;
+}
+
+interface TiffFile {
+  view: DataView;
+  little: boolean;
+  ifds: Ifd[]; // Full-resolution pages only
+}
+
+export function isTiff(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+}
+
+function readFieldValue(view: DataView, type: number, offset: number, little: boolean): number {
+  switch (type) {
+    case 3: return view.getUint16(offset, little);
+    case 4: case 13: return view.getUint32(offset, little);
+    case 5: return view.getUint32(offset, little) / (view.getUint32(offset + 4, little) || 1);
+    case 6: return view.getInt8(offset);
+    case 8: return view.getInt16(offset, little);
+    case 9: return view.getInt32(offset, little);
+    case 10: return view.getInt32(offset, little) / (view.getInt32(offset + 4, little) || 1);
+    case 11: return view.getFloat32(offset, little);
+    case 12: return view.getFloat64(offset, little);
+    default: return view.getUint8(offset);
+  }
+}
+
+/**
+ * Read one IFD's entries; returns the tags and the next IFD offset
+ */
+function readIfd(view: DataView, offset: number, little: boolean): { tags: Ifd; next: number } {
+  const tags: Ifd = new Map();
+  const count = view.getUint16(offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const inline = size * valueCount <= 4;
+    const valueOffset = inline ? entry + 8 : view.getUint32(entry + 8, little);
+    if (valueOffset + size * valueCount > view.byteLength) continue;
+
+    const values: number[] = new Array(valueCount);
+    for (let v = 0; v < valueCount; v++) values[v] = readFieldValue(view, type, valueOffset + v * size, little);
+    tags.set(tag, values);
+  }
+
+  const nextAt = offset + 2 + count * 12;
+  return { tags, next: nextAt + 4 <= view.byteLength ? view.getUint32(nextAt, little) : 0 };
+}
+
+function parseTiff(bytes: Uint8Array): TiffFile {
+  if (!isTiff(bytes)) {
+    if (bytes.length >= 4 && bytes[2] + bytes[3] === 43) throw new Error('BigTIFF files are not supported');
+    throw new Error('Not a TIFF file');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const ifds: Ifd[] = [];
+  const visited = new Set<number>();
+
+  let offset = view.getUint32(4, little);
+  while (offset > 0 && offset + 2 <= view.byteLength && !visited.has(offset) && visited.size < MAX_PAGES) {
+    visited.add(offset);
+    const { tags, next } = readIfd(view, offset, little);
+    // Bit 0 marks a reduced-resolution copy, bit 2 a transparency mask
+    const subfileType = tags.get(TAG_SUBFILE_TYPE)?.[0] ?? 0;
+    if ((subfileType & 0b101) === 0 && tags.has(TAG_WIDTH)) ifds.push(tags);
+    offset = next;
+  }
+
+  if (ifds.length === 0) throw new Error('This TIFF has no pages');
+  return { view, little, ifds };
+}
+
+/**
+ * Pages of a TIFF with their sizes, without decoding any pixels
+ */
+export function listTiffPages(bytes: Uint8Array): TiffPage[] {
+  return parseTiff(bytes).ifds.map((tags, index) => ({
+    index,
+    width: tags.get(TAG_WIDTH)?.[0] ?? 0,
+    height: tags.get(TAG_HEIGHT)?.[0] ?? 0,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Decompression
+// ---------------------------------------------------------------------------
+
+function decodePackBits(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let p = 0;
+  let o = 0;
+  while (p < input.length && o < expected) {
+    const n = (input[p++] << 24) >> 24;
+    if (n >= 0) {
+      const end = Math.min(p + n + 1, input.length);
+      while (p < end && o < expected) output[o++] = input[p++];
+    } else if (n !== -128) {
+      const value = input[p++];
+      for (let i = 0; i < 1 - n && o < expected; i++) output[o++] = value;
+    }
+  }
+  return output;
+}
+
+const LZW_CLEAR = 256;
+const LZW_EOI = 257;
+
+/**
+ * TIFF LZW: MSB-first codes of 9-12 bits, widened one code early
+ */
+function decodeLzw(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  const totalBits = input.length * 8;
+  let bitPos = 0;
+  let codeWidth = 9;
+  let next = 258;
+  let previous = -1;
+  let o = 0;
+
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++) {
+      const bit = (input[(bitPos + i) >> 3] >> (7 - ((bitPos + i) & 7))) & 1;
+      code = (code << 1) | bit;
+    }
+    bitPos += codeWidth;
+    return code;
+  };
+
+  const writeEntry = (code: number) => {
+    const len = length[code];
+    let c = code;
+    for (let i = len - 1; i >= 0; i--) {
+      if (o + i < expected) output[o + i] = suffix[c];
+      c = prefix[c];
+    }
+    o += len;
+  };
+
+  while (bitPos + codeWidth <= totalBits && o < expected) {
+    const code = readCode();
+    if (code === LZW_EOI) break;
+    if (code === LZW_CLEAR) {
+      codeWidth = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      if (code > 255) break;
+      writeEntry(code);
+      previous = code;
+      continue;
+    }
+    if (code > next || next >= 4096) break;
+
+    // New entry: previous string + first byte of the current one (KwKwK when code === next)
+    prefix[next] = previous;
+    suffix[next] = code < next ? first[code] : first[previous];
+    first[next] = first[previous];
+    length[next] = length[previous] + 1;
+    next++;
+    writeEntry(code);
+
+    if (next >= (1 << codeWidth) - 1 && codeWidth < 12) codeWidth++;
+    previous = code;
+  }
+  return output;
+}
+
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompressChunk(compression: number, input: Uint8Array, expected: number): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION_NONE: return input;
+    case COMPRESSION_PACKBITS: return decodePackBits(input, expected);
+    case COMPRESSION_LZW: return decodeLzw(input, expected);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_OLD: return inflate(input);
+  }
+  if (JPEG_COMPRESSIONS.includes(compression)) throw new Error('JPEG-compressed TIFFs are not supported - rescan as uncompressed or LZW');
+  throw new Error(`TIFF compression ${compression} is not supported`);
+}
+
+/**
+ * Fax coding for the CCITT compressions (each chunk adds its size), null for the rest
+ */
+function faxOptions(compression: number, t4Options: number, photometric: number): Omit<CcittOptions, 'columns' | 'rows'> | null {
+  // Fax samples are written in the page's polarity, so the colour conversion below applies as usual
+  const blackIs1 = photometric === PHOTOMETRIC_WHITE_IS_ZERO;
+  switch (compression) {
+    case COMPRESSION_CCITT_RLE: return { k: 0, byteAlign: true, blackIs1 }; // Rows padded to whole bytes, no EOLs
+    case COMPRESSION_CCITT_T4: return { k: t4Options & 1 ? 1 : 0, byteAlign: false, blackIs1 };
+    case COMPRESSION_CCITT_T6: return { k: -1, byteAlign: false, blackIs1 };
+    default: return null;
+  }
+}
+
+/**
+ * FillOrder 2 stores each byte's bits lowest first
+ */
+function reverseBits(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    let b = input[i];
+    b = ((b & 0xf0) >> 4) | ((b & 0x0f) << 4);
+    b = ((b & 0xcc) >> 2) | ((b & 0x33) << 2);
+    output[i] = ((b & 0xaa) >> 1) | ((b & 0x55) << 1);
+  }
+  return output;
+}
+
+/**
+ * Undo horizontal differencing in place (8 and 16-bit samples)
+ */
+function undoPredictor(chunk: Uint8Array, rowBytes: number, rows: number, samples: number, bits: number, little: boolean): void {
+  for (let row = 0; row < rows; row++) {
+    const start = row * rowBytes;
+    if (bits === 8) {
+      for (let i = start + samples; i < start + rowBytes && i < chunk.length; i++) {
+        chunk[i] = (chunk[i] + chunk[i - samples]) & 0xff;
+      }
+    } else if (bits === 16) {
+      const step = samples * 2;
+      for (let i = start + step; i + 1 < start + rowBytes && i + 1 < chunk.length; i += 2) {
+        const hi = little ? 1 : 0;
+        const lo = little ? 0 : 1;
+        const value = ((chunk[i + hi] << 8) | chunk[i + lo]) + ((chunk[i - step + hi] << 8) | chunk[i - step + lo]);
+        chunk[i + hi] = (value >> 8) & 0xff;
+        chunk[i + lo] = value & 0xff;
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode one page of a TIFF to RGBA pixels
+ */
+export async function decodeTiff(bytes: Uint8Array, pageIndex = 0): Promise<DecodedImage> {
+  const { view, little, ifds } = parseTiff(bytes);
+  const tags = ifds[pageIndex];
+  if (!tags) throw new Error(`This TIFF has no page ${pageIndex + 1}`);
+  const tag = (id: number, fallback: number) => tags.get(id)?.[0] ?? fallback;
+
+  const width = tag(TAG_WIDTH, 0);
+  const height = tag(TAG_HEIGHT, 0);
+  if (width <= 0 || height <= 0) throw new Error('This TIFF page has no pixels');
+  if (width * height > MAX_PIXELS) throw new Error('This TIFF page is too large to open');
+
+  const samplesPerPixel = tag(TAG_SAMPLES_PER_PIXEL, 1);
+  const bits = tag(TAG_BITS_PER_SAMPLE, 1);
+  const compression = tag(TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = tag(TAG_PHOTOMETRIC, PHOTOMETRIC_BLACK_IS_ZERO);
+  const planar = tag(TAG_PLANAR_CONFIG, 1) === 2;
+  const predictor = tag(TAG_PREDICTOR, 1);
+  const sampleFormat = tag(TAG_SAMPLE_FORMAT, 1);
+
+  if (![1, 2, 4, 8, 16].includes(bits) || (tags.get(TAG_BITS_PER_SAMPLE) ?? []).some((b) => b !== bits)) {
+    throw new Error(`TIFFs with ${bits}-bit samples are not supported`);
+  }
+  if (sampleFormat !== 1) throw new Error('Floating-point and signed TIFFs are not supported');
+  if (predictor !== 1 && predictor !== 2) throw new Error('This TIFF uses an unsupported predictor');
+  const fax = faxOptions(compression, tag(TAG_T4_OPTIONS, 0), photometric);
+  if (fax && (bits !== 1 || samplesPerPixel !== 1)) throw new Error('This fax-compressed TIFF has an unsupported layout');
+  const lsbFirst = tag(TAG_FILL_ORDER, 1) === 2;
+
+  const colourSamples = {
+    [PHOTOMETRIC_WHITE_IS_ZERO]: 1,
+    [PHOTOMETRIC_BLACK_IS_ZERO]: 1,
+    [PHOTOMETRIC_PALETTE]: 1,
+    [PHOTOMETRIC_RGB]: 3,
+    [PHOTOMETRIC_CMYK]: 4,
+  }[photometric];
+  if (!colourSamples || samplesPerPixel < colourSamples) {
+    throw new Error('This TIFF uses an unsupported colour space');
+  }
+  // The first extra sample is alpha when it is marked associated (1) or unassociated (2)
+  const extraType = tags.get(TAG_EXTRA_SAMPLES)?.[0] ?? 0;
+  const hasAlpha = samplesPerPixel > colourSamples && (extraType === 1 || extraType === 2);
+  const premultiplied = extraType === 1;
+
+  // Strips are treated as full-width tiles
+  const tiled = tags.has(TAG_TILE_OFFSETS);
+  const chunkWidth = tiled ? tag(TAG_TILE_WIDTH, width) : width;
+  const chunkHeight = tiled ? tag(TAG_TILE_LENGTH, height) : Math.min(height, tag(TAG_ROWS_PER_STRIP, height));
+  const offsets = tags.get(tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS) ?? [];
+  const byteCounts = tags.get(tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS) ?? [];
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const perPlane = across * down;
+  const chunkSamples = planar ? 1 : samplesPerPixel;
+  const rowBytes = Math.ceil((chunkWidth * chunkSamples * bits) / 8);
+
+  // Samples at native precision up to 8 bits (palette indices stay intact), 16-bit reduced to 8
+  const samples = new Uint8Array(width * height * samplesPerPixel);
+  const highByte = little ? 1 : 0;
+
+  for (let chunkIndex = 0; chunkIndex < offsets.length; chunkIndex++) {
+    const plane = planar ? Math.floor(chunkIndex / perPlane) : 0;
+    if (plane >= samplesPerPixel) break;
+    const position = chunkIndex % perPlane;
+    const chunkX = (position % across) * chunkWidth;
+    const chunkY = Math.floor(position / across) * chunkHeight;
+    const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - chunkY);
+
+    const start = offsets[chunkIndex];
+    const end = Math.min(bytes.length, start + (byteCounts[chunkIndex] ?? rowBytes * rows));
+    if (start >= bytes.length) continue;
+    const input = lsbFirst ? reverseBits(bytes.subarray(start, end)) : bytes.subarray(start, end);
+    const chunk = fax
+      ? decodeCcitt(input, { ...fax, columns: chunkWidth, rows })
+      : await decompressChunk(compression, input, rowBytes * rows);
+    if (predictor === 2) undoPredictor(chunk, rowBytes, rows, chunkSamples, bits, little);
+
+    for (let row = 0; row < rows; row++) {
+      const y = chunkY + row;
+      if (y >= height) break;
+      const rowStart = row * rowBytes;
+
+      for (let col = 0; col < chunkWidth; col++) {
+        const x = chunkX + col;
+        if (x >= width) break;
+        for (let s = 0; s < chunkSamples; s++) {
+          const sampleIndex = col * chunkSamples + s;
+          let value: number;
+          if (bits === 8) {
+            value = chunk[rowStart + sampleIndex];
+          } else if (bits === 16) {
+            value = chunk[rowStart + sampleIndex * 2 + highByte];
+          } else {
+            const bit = sampleIndex * bits;
+            value = (chunk[rowStart + (bit >> 3)] >> (8 - bits - (bit & 7))) & ((1 << bits) - 1);
+          }
+          samples[(y * width + x) * samplesPerPixel + (planar ? plane : s)] = value ?? 0;
+        }
+      }
+    }
+  }
+
+  // Convert to RGBA
+  const maxValue = bits >= 8 ? 255 : (1 << bits) - 1;
+  const scale = (value: number) => (bits >= 8 ? value : Math.round((value * 255) / maxValue));
+  const colorMap = tags.get(TAG_COLOR_MAP);
+  if (photometric === PHOTOMETRIC_PALETTE && (!colorMap || colorMap.length < 3 << bits)) {
+    throw new Error('This palette TIFF has no colour map');
+  }
+  const paletteSize = 1 << bits;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const s = i * samplesPerPixel;
+    const o = i * 4;
+    let r: number, g: number, b: number;
+
+    switch (photometric) {
+      case PHOTOMETRIC_WHITE_IS_ZERO:
+        r = g = b = 255 - scale(samples[s]);
+        break;
+      case PHOTOMETRIC_BLACK_IS_ZERO:
+        r = g = b = scale(samples[s]);
+        break;
+      case PHOTOMETRIC_PALETTE: {
+        const index = samples[s];
+        r = colorMap![index] >> 8;
+        g = colorMap![paletteSize + index] >> 8;
+        b = colorMap![paletteSize * 2 + index] >> 8;
+        break;
+      }
+      case PHOTOMETRIC_CMYK: {
+        const k = 255 - scale(samples[s + 3]);
+        r = ((255 - scale(samples[s])) * k) / 255;
+        g = ((255 - scale(samples[s + 1])) * k) / 255;
+        b = ((255 - scale(samples[s + 2])) * k) / 255;
+        break;
+      }
+      default:
+        r = scale(samples[s]);
+        g = scale(samples[s + 1]);
+        b = scale(samples[s + 2]);
+    }
+
+    const alpha = hasAlpha ? scale(samples[s + colourSamples]) : 255;
+    if (premultiplied && alpha > 0 && alpha < 255) {
+      r = (r * 255) / alpha;
+      g = (g * 255) / alpha;
+      b = (b * 255) / alpha;
+    }
+    data[o] = r;
+    data[o + 1] = g;
+    data[o + 2] = b;
+    data[o + 3] = alpha;
+  }
+
+  return { width, height, data };
+}
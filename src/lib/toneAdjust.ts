@@ -0,0 +1,170 @@
+/**
+ * Tone Adjustments
+ *
+ * Fixes the usual phone-photo problems before encoding: yellow / green casts
+ * under tube lights and dark or flat exposures. Runs on the cropped, resized
+ * photo (cheap at exam sizes) and on the live preview with the same code:
+ * - Auto white balance: scales R/G/B so the brightest non-clipped pixels
+ *   (usually the backdrop) come out neutral
+ * - Auto levels: stretches luma between its 0.5% and 99.5% percentiles,
+ *   the same for every channel so hues don't shift
+ * - Manual brightness, contrast, gamma (one lookup table per channel) and
+ *   saturation (mix towards / away from each pixel's luma)
+ */
+
+import type { ToneAdjustments } from '@/types';
+
+export const DEFAULT_TONE_ADJUSTMENTS: ToneAdjustments = {
+  autoLevels: false,
+  autoWhiteBalance: false,
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  gamma: 1,
+};
+
+export const GAMMA_RANGE = { min: 0.5, max: 2, step: 0.05 };
+
+// White balance: share of brightest pixels used as the white reference, and gain limits
+const WHITE_PATCH_SHARE = 0.05;
+const MIN_WB_GAIN = 0.6;
+const MAX_WB_GAIN = 1.6;
+
+// Auto levels: percentiles clipped at each end, and the narrowest range worth stretching
+const LEVELS_CLIP = 0.005;
+const MIN_LEVELS_RANGE = 16;
+// How far the points may move, so a photo without true blacks / whites isn't crushed
+const MAX_BLACK_POINT = 64;
+const MIN_WHITE_POINT = 160;
+
+function luma(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+/**
+ * True when the adjustments leave every pixel unchanged
+ */
+export function isNeutralTone(tone: ToneAdjustments): boolean {
+  return !tone.autoLevels
+    && !tone.autoWhiteBalance
+    && tone.brightness === 0
+    && tone.contrast === 0
+    && tone.saturation === 0
+    && tone.gamma === 1;
+}
+
+/**
+ * Per-channel gains that make the brightest non-clipped pixels grey
+ */
+export function measureWhiteBalance(data: Uint8ClampedArray): [number, number, number] {
+  const histogram = new Uint32Array(256);
+  let counted = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0 || data[i] >= 254 || data[i + 1] >= 254 || data[i + 2] >= 254) continue;
+    histogram[Math.round(luma(data[i], data[i + 1], data[i + 2]))]++;
+    counted++;
+  }
+  if (counted === 0) return [1, 1, 1];
+
+  // Luma above which the brightest WHITE_PATCH_SHARE of pixels sit
+  let cutoff = 255;
+  for (let seen = 0; cutoff > 0; cutoff--) {
+    seen += histogram[cutoff];
+    if (seen >= counted * WHITE_PATCH_SHARE) break;
+  }
+
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0 || data[i] >= 254 || data[i + 1] >= 254 || data[i + 2] >= 254) continue;
+    if (luma(data[i], data[i + 1], data[i + 2]) < cutoff) continue;
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+    n++;
+  }
+  if (n === 0 || r === 0 || g === 0 || b === 0) return [1, 1, 1];
+
+  // Keep the reference's brightness, only remove its tint
+  const grey = (r + g + b) / 3;
+  const gain = (channel: number) => Math.min(MAX_WB_GAIN, Math.max(MIN_WB_GAIN, grey / channel));
+  return [gain(r), gain(g), gain(b)];
+}
+
+/**
+ * Black and white points of the luma histogram after the given gains
+ */
+export function measureLevels(data: Uint8ClampedArray, gains: [number, number, number] = [1, 1, 1]): [number, number] {
+  const histogram = new Uint32Array(256);
+  let counted = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const value = luma(clamp255(data[i] * gains[0]), clamp255(data[i + 1] * gains[1]), clamp255(data[i + 2] * gains[2]));
+    histogram[Math.round(value)]++;
+    counted++;
+  }
+  if (counted === 0) return [0, 255];
+
+  const clip = counted * LEVELS_CLIP;
+  let low = 0;
+  for (let seen = 0; low < 255; low++) {
+    seen += histogram[low];
+    if (seen > clip) break;
+  }
+  let high = 255;
+  for (let seen = 0; high > 0; high--) {
+    seen += histogram[high];
+    if (seen > clip) break;
+  }
+  low = Math.min(low, MAX_BLACK_POINT);
+  high = Math.max(high, MIN_WHITE_POINT);
+  return high - low < MIN_LEVELS_RANGE ? [0, 255] : [low, high];
+}
+
+/**
+ * Apply the adjustments in place (alpha untouched)
+ * Order: white balance, levels, gamma, contrast, brightness, saturation
+ */
+export function applyToneAdjustments(imageData: ImageData, tone: ToneAdjustments): void {
+  if (isNeutralTone(tone)) return;
+  const { data } = imageData;
+
+  const gains = tone.autoWhiteBalance ? measureWhiteBalance(data) : [1, 1, 1] as [number, number, number];
+  const [black, white] = tone.autoLevels ? measureLevels(data, gains) : [0, 255];
+
+  // Contrast -100..100 maps to a slope of 0..3 around mid-grey
+  const slope = tone.contrast >= 0 ? 1 + tone.contrast / 50 : 1 + tone.contrast / 100;
+  const offset = tone.brightness * 1.28;
+  const inverseGamma = 1 / tone.gamma;
+
+  const luts = gains.map((gain) => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      let x = clamp255(v * gain);
+      x = clamp255(((x - black) * 255) / (white - black));
+      x = 255 * Math.pow(x / 255, inverseGamma);
+      x = (x - 128) * slope + 128 + offset;
+      lut[v] = x;
+    }
+    return lut;
+  });
+
+  const saturation = 1 + tone.saturation / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = luts[0][data[i]];
+    let g = luts[1][data[i + 1]];
+    let b = luts[2][data[i + 2]];
+    if (saturation !== 1) {
+      const l = luma(r, g, b);
+      r = l + (r - l) * saturation;
+      g = l + (g - l) * saturation;
+      b = l + (b - l) * saturation;
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * User Presets
+ *
+ * Named presets the user defines for notifications the bundled list doesn't
+ * cover yet. They carry the full ImageSpec for photo and signature, live in
+ * local storage with the rest of the app state, and can be shared as JSON.
+ *
+ * Export format:
+ * { "type": "presetphoto-presets", "version": 1, "presets": [ExamPreset, ...] }
+ * A bare array of presets is accepted on import as well.
+ */
+
+import type { ExamPreset, ImageSpec, CaptionLayout, FaceFraming, PhysicalSize, SizeFloorStrategy } from '@/types';
+import { PHYSICAL_UNITS, resolveSpecPixels } from './physicalUnits';
+import { SIZE_FLOOR_STRATEGIES } from './sizeFloor';
+
+export const USER_PRESET_CATEGORY = '⭐ My Presets';
+export const USER_PRESET_FILE_TYPE = 'presetphoto-presets';
+const USER_PRESET_PREFIX = 'user_';
+
+const CAPTION_POSITIONS = ['top', 'bottom'];
+const CAPTION_LINES = ['date', 'name', 'name-date'];
+const CAPTION_DATE_FORMATS = ['DD-MM-YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'YYYY-MM-DD', 'DD MMM YYYY'];
+
+export function isUserPreset(preset: ExamPreset | null | undefined): boolean {
+  return !!preset && preset.id.startsWith(USER_PRESET_PREFIX);
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+}
+
+export function createUserPresetId(label: string): string {
+  return `${USER_PRESET_PREFIX}${slugify(label) || 'preset'}_${Date.now().toString(36)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readPositive(source: Record<string, unknown>, key: string, context: string): number {
+  const value = source[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${context}: "${key}" must be a positive number`);
+  }
+  return value;
+}
+
+function readString(source: Record<string, unknown>, key: string): string | undefined {
+  const value = source[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readCaption(value: unknown): CaptionLayout | undefined {
+  if (!isRecord(value)) return undefined;
+  const { position, lines, dateFormat } = value;
+  if (
+    typeof position === 'string' && CAPTION_POSITIONS.includes(position) &&
+    typeof lines === 'string' && CAPTION_LINES.includes(lines) &&
+    typeof dateFormat === 'string' && CAPTION_DATE_FORMATS.includes(dateFormat)
+  ) {
+    return { position, lines, dateFormat } as CaptionLayout;
+  }
+  return undefined;
+}
+
+function readFaceFraming(value: unknown): FaceFraming | undefined {
+  if (!isRecord(value)) return undefined;
+  const { headHeightRatio, eyeLine } = value;
+  if (
+    typeof headHeightRatio === 'number' && headHeightRatio > 0 && headHeightRatio < 1 &&
+    typeof eyeLine === 'number' && eyeLine > 0 && eyeLine < 1
+  ) {
+    return { headHeightRatio, eyeLine };
+  }
+  return undefined;
+}
+
+function readPhysicalSize(value: unknown): PhysicalSize | undefined {
+  if (!isRecord(value)) return undefined;
+  const { width, height, unit } = value;
+  if (
+    typeof width === 'number' && width > 0 &&
+    typeof height === 'number' && height > 0 &&
+    typeof unit === 'string' && (PHYSICAL_UNITS as string[]).includes(unit)
+  ) {
+    return { width, height, unit } as PhysicalSize;
+  }
+  return undefined;
+}
+
+/**
+ * Validate one spec; unknown or malformed optional fields are dropped
+ * Pixel sizes may be left out when physicalSize and dpi are given
+ */
+export function validateImageSpec(value: unknown, context: string): ImageSpec {
+  if (!isRecord(value)) throw new Error(`${context}: spec is missing`);
+
+  const physicalSize = readPhysicalSize(value.physicalSize);
+  const dpi = typeof value.dpi === 'number' && value.dpi > 0 ? Math.round(value.dpi) : undefined;
+  const fromPhysical = !!physicalSize && !!dpi;
+
+  const spec: ImageSpec = {
+    widthPx: fromPhysical ? 0 : Math.round(readPositive(value, 'widthPx', context)),
+    heightPx: fromPhysical ? 0 : Math.round(readPositive(value, 'heightPx', context)),
+    minSizeKB: readPositive(value, 'minSizeKB', context),
+    maxSizeKB: readPositive(value, 'maxSizeKB', context),
+  };
+  if (spec.minSizeKB > spec.maxSizeKB) {
+    throw new Error(`${context}: minSizeKB is larger than maxSizeKB`);
+  }
+
+  if (typeof value.dateFormat === 'boolean') spec.dateFormat = value.dateFormat;
+  const aspectRatio = readString(value, 'aspectRatio');
+  if (aspectRatio) spec.aspectRatio = aspectRatio;
+  const format = readString(value, 'format');
+  if (format) spec.format = format;
+  const background = readString(value, 'background');
+  if (background) spec.background = background;
+  const caption = readCaption(value.caption);
+  if (caption) spec.caption = caption;
+  const faceFraming = readFaceFraming(value.faceFraming);
+  if (faceFraming) spec.faceFraming = faceFraming;
+  if (physicalSize) spec.physicalSize = physicalSize;
+  if (dpi) spec.dpi = dpi;
+  if (typeof value.sizeFloor === 'string' && (SIZE_FLOOR_STRATEGIES as string[]).includes(value.sizeFloor)) {
+    spec.sizeFloor = value.sizeFloor as SizeFloorStrategy;
+  }
+
+  return resolveSpecPixels(spec);
+}
+
+/**
+ * Validate a preset and move it into the user namespace and category
+ */
+export function validateUserPreset(value: unknown, index = 0): ExamPreset {
+  if (!isRecord(value)) throw new Error(`Preset ${index + 1} is not an object`);
+
+  const label = readString(value, 'label');
+  if (!label) throw new Error(`Preset ${index + 1}: "label" is required`);
+  if (!isRecord(value.specs)) throw new Error(`${label}: "specs" is missing`);
+
+  const id = readString(value, 'id');
+  return {
+    id: id && id.startsWith(USER_PRESET_PREFIX) ? id : createUserPresetId(label),
+    label,
+    category: USER_PRESET_CATEGORY,
+    description: readString(value, 'description'),
+    source: readString(value, 'source') ?? 'User Defined',
+    specs: {
+      photo: validateImageSpec(value.specs.photo, `${label} photo`),
+      signature: value.specs.signature ? validateImageSpec(value.specs.signature, `${label} signature`) : null,
+    },
+  };
+}
+
+/**
+ * Parse an exported presets file
+ */
+export function parseUserPresets(text: string): ExamPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.presets)
+      ? data.presets
+      : null;
+  if (!list) throw new Error('No presets found in this file');
+  if (list.length === 0) throw new Error('This file contains no presets');
+
+  return list.map((preset, index) => validateUserPreset(preset, index));
+}
+
+export function serializeUserPresets(presets: ExamPreset[]): string {
+  return JSON.stringify({ type: USER_PRESET_FILE_TYPE, version: 1, presets }, null, 2);
+}
@@ -3,11 +3,11 @@
 /**
  * WASM-Based Image Processor
  * 
- * This module provides high-performance image processing using WebAssembly.
+ * This module provides high-performance image processing in the browser.
  * It uses multiple strategies with fallbacks:
  * 
  * 1. OffscreenCanvas + createImageBitmap (hardware-accelerated)
- * 2. Web Workers for parallel processing
+ * 2. Web Workers for parallel processing (see workerProcessor.ts)
  * 3. Canvas API fallback
  * 
  * Technologies Used:
@@ -15,29 +15,73 @@
  * - createImageBitmap: Async image decoding (uses browser's native decoders)
  * - Web Workers: Parallel processing without blocking UI
  * - Canvas API: Universal fallback
+ * - Bundled JPEG encoder (jpegEncoder.ts): identical bytes in every browser,
+ *   with subsampling / progressive control and a finer size search
+ * - Resampler (resampler.ts): Lanczos3 / Mitchell / area / halving downscaling
+ *   instead of a single drawImage, with optional unsharp mask
+ * - Perspective (perspective.ts): photographed sheets are flattened to their
+ *   corners before rotation and crop
  */
 
+import type { OutputFormat, SizeFloorStrategy, SizeFloorResult, JpegSettings, SignatureCleanupSettings, FitSettings, ToneAdjustments, Quad } from '@/types';
+import { FORMAT_INFO } from './outputFormats';
+import { getPdfOverheadBytes, wrapJpegInPdf } from './pdfWriter';
+import { replaceBackground } from './backgroundReplacer';
+import { applySignatureCleanup } from './signatureCleanup';
+import { stripMetadata } from './metadataStripper';
+import { setImageDensity, DENSITY_RESERVE_BYTES } from './densityWriter';
+import { padToMinimumSize, addGrain, GRAIN_LEVELS, DEFAULT_SIZE_FLOOR } from './sizeFloor';
+import { prepareJpeg, encodeJpeg, type PreparedJpeg } from './jpegEncoder';
+import {
+  DEFAULT_CAPTION_LAYOUT,
+  drawCaptionBand,
+  formatCaptionDate,
+  type CaptionRender,
+} from './captionBand';
+import { DEFAULT_FIT_SETTINGS, fitToArea, getImageArea, type Rect } from './fitGeometry';
+import { DEFAULT_RESAMPLE_SETTINGS, resampleRegion, type ResampleOptions } from './resampler';
+import { flattenImage } from './perspective';
+import { applyToneAdjustments, isNeutralTone } from './toneAdjust';
+
 export interface ProcessOptions {
   targetWidth: number;
   targetHeight: number;
   minSizeKB: number;
   maxSizeKB: number;
-  addDate: boolean;
+  addDate: boolean; // Reserve a caption band (name/date)
+  caption?: CaptionRender; // Band contents; defaults to today's date at the top
   signatureColor?: string | null; // Color to apply to signature (null = keep original)
+  signatureCleanup?: SignatureCleanupSettings | null; // Binarise / deskew the signature before scaling
+  backgroundColor?: string | null; // Repaint the photo backdrop in this colour (null = keep original)
+  backgroundTolerance?: number; // 0-100, how aggressively the backdrop is matched
   qualityPreference?: number; // 0-100, where 100 = max quality within size limit
+  outputFormat?: OutputFormat; // Encoder to use (default: jpeg)
+  dpi?: number; // Density to declare in the output (default: leave the encoder's)
+  sizeFloor?: SizeFloorStrategy; // How to reach minSizeKB when the encoder can't (default: padding)
+  jpeg?: JpegSettings; // JPEG encoder (the app's setting defaults to built-in; omitted = the browser's)
+  fit?: FitSettings; // How the crop fills the photo area (default: cover)
+  resample?: ResampleOptions; // Downscaling kernel and sharpening (default: Lanczos3, no sharpening)
+  tone?: ToneAdjustments | null; // Levels / white balance / brightness etc. after the resize
   cropArea?: {
     x: number;
     y: number;
     width: number;
     height: number;
     rotation?: number;
+    perspective?: Quad; // Sheet corners flattened first; x / y / width / height are in the flattened image
   };
 }
 
 export interface ProcessResult {
   blob: Blob;
+  format: OutputFormat; // Format actually produced (WebP falls back to JPEG if unsupported)
+  previewBlob?: Blob; // Displayable image when blob itself isn't one (PDF)
+  metadataStripped: boolean; // Output container was rewritten without metadata blocks
   width: number;
   height: number;
+  imageArea: { top: number; height: number }; // Rows holding the photo (excludes the caption band)
+  dpi: number | null; // Density written into the output
+  sizeFloor: SizeFloorResult | null; // Set when the encode was raised to minSizeKB
   sizeKB: number;
   processingTimeMs: number;
 }
@@ -48,6 +92,9 @@ const supportsOffscreenCanvas = typeof OffscreenCanvas !== 'undefined';
 // Check for createImageBitmap support (async image decoding)
 const supportsImageBitmap = typeof createImageBitmap !== 'undefined';
 
+// Longest side the signature is cleaned at - enough for thin strokes, bounded cost
+const SIGNATURE_CLEANUP_MAX_SIDE = 1600;
+
 /**
  * Parse hex color to RGB
  */
@@ -123,6 +170,129 @@ function applySignatureColor(
   ctx.putImageData(imageData, 0, 0);
 }
 
+/**
+ * Clean the cropped signature at working resolution, then scale it into the
+ * image area - thresholding the final 140×60 canvas would lose thin strokes
+ */
+function drawCleanedSignature(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas,
+  crop: Rect,
+  settings: SignatureCleanupSettings,
+  dest: Rect,
+  resample: ResampleOptions
+): void {
+  const scale = Math.min(1, SIGNATURE_CLEANUP_MAX_SIDE / Math.max(crop.width, crop.height));
+  const workWidth = Math.max(1, Math.round(crop.width * scale));
+  const workHeight = Math.max(1, Math.round(crop.height * scale));
+
+  let workCanvas: HTMLCanvasElement | OffscreenCanvas;
+  let workCtx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  if (supportsOffscreenCanvas) {
+    workCanvas = new OffscreenCanvas(workWidth, workHeight);
+    workCtx = workCanvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+  } else {
+    workCanvas = document.createElement('canvas');
+    workCanvas.width = workWidth;
+    workCanvas.height = workHeight;
+    workCtx = workCanvas.getContext('2d') as CanvasRenderingContext2D;
+  }
+
+  workCtx.fillStyle = '#FFFFFF';
+  workCtx.fillRect(0, 0, workWidth, workHeight);
+  workCtx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, workWidth, workHeight);
+
+  const imageData = workCtx.getImageData(0, 0, workWidth, workHeight);
+  const angle = applySignatureCleanup(imageData, settings);
+  workCtx.putImageData(imageData, 0, 0);
+  console.log(`🖋️ Signature cleaned at ${workWidth}×${workHeight}${angle ? `, deskewed ${angle.toFixed(1)}°` : ''}`);
+
+  drawResampled(ctx, workCanvas, { x: 0, y: 0, width: workWidth, height: workHeight }, dest, resample);
+}
+
+/**
+ * Resize a source region into the destination with the chosen kernel
+ * (the destination is snapped to whole pixels so the result isn't re-filtered)
+ */
+function drawResampled(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas,
+  crop: Rect,
+  dest: Rect,
+  resample: ResampleOptions
+): void {
+  const x = Math.round(dest.x);
+  const y = Math.round(dest.y);
+  const width = Math.max(1, Math.round(dest.x + dest.width) - x);
+  const height = Math.max(1, Math.round(dest.y + dest.height) - y);
+  const resized = resampleRegion(source, crop, width, height, resample);
+  ctx.drawImage(resized, x, y);
+}
+
+/**
+ * Draw the crop (or the whole source) into the photo area using the fit mode
+ * Contain mode paints the pad colour behind the photo first
+ * Returns where the photo landed (inside the area)
+ */
+function drawPhoto(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas,
+  options: ProcessOptions,
+  area: Rect
+): Rect {
+  const fit = options.fit ?? DEFAULT_FIT_SETTINGS;
+  const crop = options.cropArea ?? { x: 0, y: 0, width: source.width, height: source.height };
+  const placement = fitToArea(crop, area, fit.mode);
+
+  if (fit.mode === 'contain') {
+    ctx.fillStyle = fit.padColor;
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+  }
+
+  const resample = options.resample ?? { kernel: DEFAULT_RESAMPLE_SETTINGS.kernel, sharpen: null };
+  if (options.signatureCleanup?.enabled) {
+    drawCleanedSignature(ctx, source, placement.source, options.signatureCleanup, placement.dest, resample);
+  } else {
+    drawResampled(ctx, source, placement.source, placement.dest, resample);
+  }
+  return placement.dest;
+}
+
+/**
+ * Tonal corrections on the placed photo only (not the band or contain padding)
+ */
+function applyTone(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  photo: Rect,
+  tone: ToneAdjustments
+): void {
+  const x = Math.round(photo.x);
+  const y = Math.round(photo.y);
+  const width = Math.max(1, Math.round(photo.x + photo.width) - x);
+  const height = Math.max(1, Math.round(photo.y + photo.height) - y);
+  const imageData = ctx.getImageData(x, y, width, height);
+  applyToneAdjustments(imageData, tone);
+  ctx.putImageData(imageData, x, y);
+  console.log('🎚️ Tone adjusted:', tone);
+}
+
+/**
+ * Replace the photo backdrop in the image area (excluding any caption band)
+ */
+function applyBackgroundReplacement(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  color: string,
+  tolerance: number,
+  top: number,
+  height: number
+): void {
+  const imageData = ctx.getImageData(0, top, canvas.width, height);
+  const replaced = replaceBackground(imageData, color, tolerance);
+  console.log(`🧹 Background replaced: ${(replaced * 100).toFixed(0)}% of pixels`);
+  ctx.putImageData(imageData, 0, top);
+}
+
 /**
  * Apply rotation to canvas
  * Rotates the image by the specified degrees
@@ -172,151 +342,100 @@ async function applyRotation(
 }
 
 /**
- * High-performance image resize using createImageBitmap
- * This uses the browser's native image decoders which are often SIMD-optimized
+ * Caption to draw for these options, or null when no band is requested
  */
-async function resizeWithImageBitmap(
-  source: Blob | ImageBitmap,
-  targetWidth: number,
-  targetHeight: number,
-  cropArea?: ProcessOptions['cropArea']
-): Promise<ImageBitmap> {
-  let bitmap: ImageBitmap;
-  
-  if (source instanceof Blob) {
-    if (cropArea) {
-      // Create full bitmap first, then crop
-      const fullBitmap = await createImageBitmap(source);
-      bitmap = await createImageBitmap(
-        fullBitmap,
-        cropArea.x,
-        cropArea.y,
-        cropArea.width,
-        cropArea.height,
-        {
-          resizeWidth: targetWidth,
-          resizeHeight: targetHeight,
-          resizeQuality: 'high', // 'pixelated' | 'low' | 'medium' | 'high'
-        }
-      );
-      fullBitmap.close();
-    } else {
-      bitmap = await createImageBitmap(source, {
-        resizeWidth: targetWidth,
-        resizeHeight: targetHeight,
-        resizeQuality: 'high',
-      });
-    }
-  } else {
-    if (cropArea) {
-      bitmap = await createImageBitmap(
-        source,
-        cropArea.x,
-        cropArea.y,
-        cropArea.width,
-        cropArea.height,
-        {
-          resizeWidth: targetWidth,
-          resizeHeight: targetHeight,
-          resizeQuality: 'high',
-        }
-      );
-    } else {
-      bitmap = await createImageBitmap(source, {
-        resizeWidth: targetWidth,
-        resizeHeight: targetHeight,
-        resizeQuality: 'high',
-      });
-    }
-  }
-  
-  return bitmap;
+function getActiveCaption(options: ProcessOptions): CaptionRender | null {
+  if (!options.addDate) return null;
+  return options.caption ?? {
+    position: DEFAULT_CAPTION_LAYOUT.position,
+    lines: [formatCaptionDate(new Date(), DEFAULT_CAPTION_LAYOUT.dateFormat)],
+  };
 }
 
 /**
- * Calculate the height reserved for date band
- * This is called BEFORE scaling so we know how much space to leave
+ * Encode a canvas to a blob of the given MIME type
  */
-function getDateBandHeight(targetHeight: number): number {
-  return Math.round(targetHeight * 0.08);
+async function canvasToBlob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  type: string,
+  quality?: number
+): Promise<Blob> {
+  if (supportsOffscreenCanvas && canvas instanceof OffscreenCanvas) {
+    return await canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    (canvas as HTMLCanvasElement).toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
+      type,
+      quality
+    );
+  });
+}
+
+function readPixels(canvas: HTMLCanvasElement | OffscreenCanvas): ImageData {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
 }
 
 /**
- * Add date band to the TOP of the image (within existing canvas dimensions)
- * The image should already be positioned below the band area
+ * Map the 30-100 quality preference onto a byte target within the allowed range
  */
-function drawDateBand(
-  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
-  canvas: HTMLCanvasElement | OffscreenCanvas,
-  bandHeight: number
-): void {
-  // Fill band area with white
-  ctx.fillStyle = '#FFFFFF';
-  ctx.fillRect(0, 0, canvas.width, bandHeight);
-  
-  // Add date text
-  const today = new Date();
-  const dateStr = `${String(today.getDate()).padStart(2, '0')}-${String(today.getMonth() + 1).padStart(2, '0')}-${today.getFullYear()}`;
-  
-  ctx.fillStyle = '#000000';
-  const fontSize = Math.max(12, Math.round(bandHeight * 0.6));
-  ctx.font = `bold ${fontSize}px Arial, sans-serif`;
-  ctx.textAlign = 'center';
-  ctx.textBaseline = 'middle';
-  ctx.fillText(dateStr, canvas.width / 2, bandHeight / 2);
+function getTargetBytes(minBytes: number, maxBytes: number, qualityPreference: number): number {
+  // Normalize preference from 30-100 to 0-1
+  const normalizedPreference = Math.max(0, Math.min(1, (qualityPreference - 30) / 70));
+  return minBytes + (maxBytes - minBytes) * normalizedPreference;
 }
 
 /**
- * Binary search for optimal JPEG quality to hit target file size
- * ALWAYS ensures output is within minSizeKB and maxSizeKB bounds
+ * Binary search for optimal JPEG/WebP quality to hit target file size
+ * Never exceeds maxSizeKB; flat images may stay under minSizeKB even at
+ * quality 1.0, which encodeForFormat then fixes with the size floor
  * 
  * @param qualityPreference 30-100, controls target size within the allowed range
  *   - 30 = aim for minSizeKB (smallest allowed)
  *   - 100 = aim for maxSizeKB (largest allowed, best quality)
+ * @param mimeType Any lossy type with a quality knob (image/jpeg, image/webp)
+ * @param jpeg Encoder settings; the built-in encoder searches a finer quality grid
  */
 async function findOptimalQuality(
   canvas: HTMLCanvasElement | OffscreenCanvas,
   minSizeKB: number,
   maxSizeKB: number,
   qualityPreference: number = 80,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  mimeType: string = 'image/jpeg',
+  jpeg?: JpegSettings
 ): Promise<Blob> {
   const maxBytes = maxSizeKB * 1024;
   const minBytes = minSizeKB * 1024;
   
   // Calculate target size based on quality preference (30-100 maps to min-max range)
-  // Normalize preference from 30-100 to 0-1
-  const normalizedPreference = Math.max(0, Math.min(1, (qualityPreference - 30) / 70));
-  const targetBytes = minBytes + (maxBytes - minBytes) * normalizedPreference;
+  const targetBytes = getTargetBytes(minBytes, maxBytes, qualityPreference);
   
   console.log(`🎯 Target: ${(targetBytes / 1024).toFixed(1)}KB (range: ${minSizeKB}-${maxSizeKB}KB, preference: ${qualityPreference}%)`);
   
   // Helper to get blob from canvas
+  // The built-in encoder transforms the pixels once and only re-quantises per step
+  const useBuiltin = mimeType === 'image/jpeg' && jpeg?.engine === 'builtin';
+  let prepared: PreparedJpeg | null = null;
   const getBlob = async (quality: number): Promise<Blob> => {
-    if (canvas instanceof OffscreenCanvas) {
-      return await canvas.convertToBlob({ type: 'image/jpeg', quality });
-    } else {
-      return new Promise((resolve, reject) => {
-        canvas.toBlob(
-          (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
-          'image/jpeg',
-          quality
-        );
-      });
-    }
+    if (!useBuiltin) return canvasToBlob(canvas, mimeType, quality);
+    prepared ??= prepareJpeg(readPixels(canvas), jpeg.subsampling);
+    return new Blob([encodeJpeg(prepared, { quality: quality * 100, progressive: jpeg.progressive })], { type: mimeType });
   };
   
   onProgress?.(65);
   
-  // Binary search to find JPEG quality that produces target file size
+  // Binary search to find the quality that produces target file size
   let lowQuality = 0.1;
   let highQuality = 1.0;
   let bestBlob: Blob | null = null;
   let bestDiff = Infinity;
   let attempts = 0;
-  const maxAttempts = 12;
+  const maxAttempts = useBuiltin ? 16 : 12;
+  const precision = useBuiltin ? 0.001 : 0.01;
   
-  while (attempts < maxAttempts && highQuality - lowQuality > 0.01) {
+  while (attempts < maxAttempts && highQuality - lowQuality > precision) {
     const quality = (lowQuality + highQuality) / 2;
     const blob = await getBlob(quality);
     const sizeBytes = blob.size;
@@ -379,6 +498,288 @@ async function findOptimalQuality(
   return bestBlob;
 }
 
+/**
+ * Reduce each colour channel to the given number of levels
+ * Fewer distinct colours = longer runs for PNG's DEFLATE = smaller file
+ */
+function posterizeCanvas(
+  source: HTMLCanvasElement | OffscreenCanvas,
+  levels: number
+): HTMLCanvasElement | OffscreenCanvas {
+  let canvas: HTMLCanvasElement | OffscreenCanvas;
+  let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  
+  if (supportsOffscreenCanvas) {
+    canvas = new OffscreenCanvas(source.width, source.height);
+    ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  }
+  
+  ctx.drawImage(source, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+  const step = 255 / (levels - 1);
+  
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.round(Math.round(data[i] / step) * step);
+    data[i + 1] = Math.round(Math.round(data[i + 1] / step) * step);
+    data[i + 2] = Math.round(Math.round(data[i + 2] / step) * step);
+  }
+  
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+/**
+ * PNG has no quality knob, so search over colour depth instead
+ * Starts lossless and reduces levels per channel until the file fits
+ */
+async function findOptimalPngDepth(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  minSizeKB: number,
+  maxSizeKB: number,
+  qualityPreference: number = 80,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const maxBytes = maxSizeKB * 1024;
+  const minBytes = minSizeKB * 1024;
+  const targetBytes = getTargetBytes(minBytes, maxBytes, qualityPreference);
+  
+  // 256 = lossless, down to 2 levels per channel (8 colours)
+  const levelSteps = [256, 128, 64, 32, 16, 8, 4, 2];
+  let withinMax: Blob | null = null;
+  let smallest: Blob | null = null;
+  
+  onProgress?.(65);
+  
+  for (let i = 0; i < levelSteps.length; i++) {
+    const levels = levelSteps[i];
+    const source = levels === 256 ? canvas : posterizeCanvas(canvas, levels);
+    const blob = await canvasToBlob(source, 'image/png');
+    
+    onProgress?.(65 + ((i + 1) / levelSteps.length) * 30);
+    
+    if (!smallest || blob.size < smallest.size) {
+      smallest = blob;
+    }
+    
+    // Deepest colour depth that stays at or under the preference target
+    if (blob.size <= targetBytes && blob.size >= minBytes) {
+      console.log(`📏 PNG: ${levels} levels/channel, ${(blob.size / 1024).toFixed(1)}KB`);
+      return blob;
+    }
+    
+    // Otherwise remember the deepest one that fits the hard limit
+    if (!withinMax && blob.size <= maxBytes) {
+      withinMax = blob;
+    }
+    
+    // Fewer levels only gets smaller from here
+    if (blob.size < minBytes) {
+      break;
+    }
+  }
+  
+  return withinMax ?? smallest!;
+}
+
+/**
+ * Copy of the canvas with faint luminance grain for the size floor
+ */
+function grainCanvas(
+  source: HTMLCanvasElement | OffscreenCanvas,
+  amplitude: number
+): HTMLCanvasElement | OffscreenCanvas {
+  let canvas: HTMLCanvasElement | OffscreenCanvas;
+  let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  
+  if (supportsOffscreenCanvas) {
+    canvas = new OffscreenCanvas(source.width, source.height);
+    ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  }
+  
+  ctx.drawImage(source, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  addGrain(imageData.data, amplitude);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+// Cached WebP encoder probe (Safari silently returns PNG instead)
+let webpSupported: boolean | null = null;
+
+async function supportsWebPEncoding(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<boolean> {
+  if (webpSupported === null) {
+    const probe = await canvasToBlob(canvas, FORMAT_INFO.webp.mimeType, 0.5);
+    webpSupported = probe.type === FORMAT_INFO.webp.mimeType;
+  }
+  return webpSupported;
+}
+
+interface EncodedOutput {
+  blob: Blob;
+  format: OutputFormat;
+  previewBlob?: Blob;
+  metadataStripped: boolean;
+  sizeFloor?: SizeFloorResult;
+}
+
+async function withMetadataStripped(blob: Blob, format: OutputFormat, dpi?: number): Promise<EncodedOutput> {
+  const { blob: clean, stripped } = await stripMetadata(blob);
+  return { blob: dpi ? await setImageDensity(clean, dpi) : clean, format, metadataStripped: stripped };
+}
+
+/**
+ * Encode the final canvas in the requested format within the KB bounds
+ * Every output is passed through the metadata stripper, then gets the declared DPI
+ */
+async function encodeCanvas(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  format: OutputFormat,
+  minSizeKB: number,
+  requestedMaxSizeKB: number,
+  qualityPreference: number,
+  onProgress?: (progress: number) => void,
+  dpi?: number,
+  jpeg?: JpegSettings
+): Promise<EncodedOutput> {
+  // Leave room for a density block the encoder may not have written
+  const maxSizeKB = dpi ? requestedMaxSizeKB - DENSITY_RESERVE_BYTES / 1024 : requestedMaxSizeKB;
+
+  switch (format) {
+    case 'png': {
+      const blob = await findOptimalPngDepth(canvas, minSizeKB, maxSizeKB, qualityPreference, onProgress);
+      return withMetadataStripped(blob, format, dpi);
+    }
+    
+    case 'webp': {
+      if (await supportsWebPEncoding(canvas)) {
+        const blob = await findOptimalQuality(canvas, minSizeKB, maxSizeKB, qualityPreference, onProgress, FORMAT_INFO.webp.mimeType);
+        return withMetadataStripped(blob, format, dpi);
+      }
+      console.warn('⚠️ WebP encoding not supported by this browser, using JPEG');
+      const blob = await findOptimalQuality(canvas, minSizeKB, maxSizeKB, qualityPreference, onProgress, undefined, jpeg);
+      return withMetadataStripped(blob, 'jpeg', dpi);
+    }
+    
+    case 'pdf': {
+      // Search JPEG quality against the budget left after the PDF wrapper
+      // The page is sized to the print size when a DPI is declared
+      const pageDpi = dpi ?? 72;
+      const overheadKB = getPdfOverheadBytes(canvas.width, canvas.height, pageDpi) / 1024;
+      const encodedJpeg = await findOptimalQuality(
+        canvas,
+        Math.max(0, minSizeKB - overheadKB),
+        maxSizeKB - overheadKB,
+        qualityPreference,
+        onProgress,
+        undefined,
+        jpeg
+      );
+      const { blob: strippedJpeg, stripped } = await stripMetadata(encodedJpeg);
+      const cleanJpeg = dpi ? await setImageDensity(strippedJpeg, dpi) : strippedJpeg;
+      const blob = await wrapJpegInPdf(cleanJpeg, canvas.width, canvas.height, pageDpi);
+      return { blob, format, previewBlob: cleanJpeg, metadataStripped: stripped };
+    }
+    
+    default: {
+      const blob = await findOptimalQuality(canvas, minSizeKB, maxSizeKB, qualityPreference, onProgress, undefined, jpeg);
+      return withMetadataStripped(blob, 'jpeg', dpi);
+    }
+  }
+}
+
+/**
+ * Put the filler into the file (PDF: into the embedded JPEG, then re-wrap)
+ */
+async function padEncodedOutput(
+  output: EncodedOutput,
+  minBytes: number,
+  width: number,
+  height: number,
+  dpi?: number
+): Promise<EncodedOutput | null> {
+  if (output.format === 'pdf' && output.previewBlob) {
+    // The wrapper's lengths and offsets can grow by a digit, so re-check
+    let jpeg = output.previewBlob;
+    let blob = output.blob;
+    for (let attempt = 0; attempt < 3 && blob.size < minBytes; attempt++) {
+      const padded = await padToMinimumSize(jpeg, jpeg.size + (minBytes - blob.size));
+      if (!padded) return null;
+      jpeg = padded;
+      blob = await wrapJpegInPdf(jpeg, width, height, dpi ?? 72);
+    }
+    return { ...output, blob, previewBlob: jpeg };
+  }
+  
+  const blob = await padToMinimumSize(output.blob, minBytes);
+  return blob ? { ...output, blob } : null;
+}
+
+/**
+ * Re-encode with increasing grain until the encoder spends enough bytes
+ */
+async function grainToMinimum(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  encode: (source: HTMLCanvasElement | OffscreenCanvas) => Promise<EncodedOutput>,
+  minBytes: number
+): Promise<EncodedOutput | null> {
+  for (const amplitude of GRAIN_LEVELS) {
+    const output = await encode(grainCanvas(canvas, amplitude));
+    if (output.blob.size >= minBytes) return output;
+  }
+  return null;
+}
+
+/**
+ * Encode, then raise an undersized file to minSizeKB with the preset's size floor
+ * The other strategy is tried when the preferred one can't get there
+ * (WebP has no padding slot; grain may not add enough to a tiny canvas)
+ */
+async function encodeForFormat(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  format: OutputFormat,
+  minSizeKB: number,
+  maxSizeKB: number,
+  qualityPreference: number,
+  onProgress?: (progress: number) => void,
+  dpi?: number,
+  sizeFloor: SizeFloorStrategy = DEFAULT_SIZE_FLOOR,
+  jpeg?: JpegSettings
+): Promise<EncodedOutput> {
+  const output = await encodeCanvas(canvas, format, minSizeKB, maxSizeKB, qualityPreference, onProgress, dpi, jpeg);
+  const minBytes = minSizeKB * 1024;
+  const maxBytes = maxSizeKB * 1024;
+  if (output.blob.size >= minBytes || sizeFloor === 'none') return output;
+  
+  const reencode = (source: HTMLCanvasElement | OffscreenCanvas) =>
+    encodeCanvas(source, format, minSizeKB, maxSizeKB, qualityPreference, undefined, dpi, jpeg);
+  const strategies = sizeFloor === 'grain' ? ['grain', 'padding'] as const : ['padding', 'grain'] as const;
+  
+  for (const strategy of strategies) {
+    const raised = strategy === 'padding'
+      ? await padEncodedOutput(output, minBytes, canvas.width, canvas.height, dpi)
+      : await grainToMinimum(canvas, reencode, minBytes);
+    
+    if (raised && raised.blob.size >= minBytes && raised.blob.size <= maxBytes) {
+      console.log(`🧱 Size floor (${strategy}): ${(output.blob.size / 1024).toFixed(1)}KB → ${(raised.blob.size / 1024).toFixed(1)}KB`);
+      return { ...raised, sizeFloor: { strategy, addedBytes: raised.blob.size - output.blob.size } };
+    }
+  }
+  
+  console.warn(`⚠️ Could not raise ${(output.blob.size / 1024).toFixed(1)}KB to the ${minSizeKB}KB minimum`);
+  return output;
+}
+
 /**
  * Main processing function - uses the best available method
  */
@@ -399,8 +800,11 @@ export async function processImageWASM(
   if (supportsImageBitmap) {
     onProgress?.(10);
     
-    // First, load the full image
-    const fullBitmap = await createImageBitmap(file);
+    // First, load the full image (flattening a photographed sheet if corners were set)
+    const decoded = await createImageBitmap(file);
+    const perspective = options.cropArea?.perspective;
+    const fullBitmap = perspective ? flattenImage(decoded, perspective) : decoded;
+    if (perspective) decoded.close();
     
     onProgress?.(15);
     
@@ -431,7 +835,7 @@ export async function processImageWASM(
       sourceCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
       sourceCtx.rotate(radians);
       sourceCtx.drawImage(fullBitmap, -fullBitmap.width / 2, -fullBitmap.height / 2);
-      fullBitmap.close();
+      if (fullBitmap instanceof ImageBitmap) fullBitmap.close();
     } else {
       // No rotation, just use bitmap directly
       if (supportsOffscreenCanvas) {
@@ -444,7 +848,7 @@ export async function processImageWASM(
         sourceCtx = sourceCanvas.getContext('2d') as CanvasRenderingContext2D;
       }
       sourceCtx.drawImage(fullBitmap, 0, 0);
-      fullBitmap.close();
+      if (fullBitmap instanceof ImageBitmap) fullBitmap.close();
     }
     
     onProgress?.(25);
@@ -453,9 +857,10 @@ export async function processImageWASM(
     let canvas: HTMLCanvasElement | OffscreenCanvas;
     let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
     
-    // Calculate date band height if needed (BEFORE creating canvas)
-    const dateBandHeight = options.addDate ? getDateBandHeight(options.targetHeight) : 0;
-    const imageAreaHeight = options.targetHeight - dateBandHeight;
+    // Calculate caption band height if needed (BEFORE creating canvas)
+    const caption = getActiveCaption(options);
+    const { top: imageTop, height: imageAreaHeight, bandHeight: captionBandHeight } =
+      getImageArea(options.targetHeight, caption?.lines.length ?? 0, caption?.position);
     
     if (supportsOffscreenCanvas) {
       canvas = new OffscreenCanvas(options.targetWidth, options.targetHeight);
@@ -472,26 +877,21 @@ export async function processImageWASM(
     ctx.fillRect(0, 0, canvas.width, canvas.height);
     
     // Apply crop and resize from rotated source
-    // Image is drawn BELOW the date band area (if date is enabled)
-    if (options.cropArea) {
-      ctx.drawImage(
-        sourceCanvas,
-        options.cropArea.x,
-        options.cropArea.y,
-        options.cropArea.width,
-        options.cropArea.height,
-        0,
-        dateBandHeight, // Start below date band
-        options.targetWidth,
-        imageAreaHeight // Use remaining height for image
-      );
-    } else {
-      // No crop, just resize
-      ctx.drawImage(sourceCanvas, 0, dateBandHeight, options.targetWidth, imageAreaHeight);
+    // Image is drawn beside the caption band area (if enabled)
+    const photo = drawPhoto(ctx, sourceCanvas, options, { x: 0, y: imageTop, width: options.targetWidth, height: imageAreaHeight });
+    
+    // Levels / white balance / brightness ahead of backdrop and ink recolouring
+    if (options.tone && !isNeutralTone(options.tone)) {
+      applyTone(ctx, photo, options.tone);
     }
     
     onProgress?.(40);
     
+    // Whiten (or recolour) the backdrop if the preset demands it
+    if (options.backgroundColor) {
+      applyBackgroundReplacement(ctx, canvas, options.backgroundColor, options.backgroundTolerance ?? 50, imageTop, imageAreaHeight);
+    }
+    
     // Apply signature color if specified
     if (options.signatureColor) {
       console.log('🎨 Applying signature color:', options.signatureColor);
@@ -500,20 +900,24 @@ export async function processImageWASM(
     
     onProgress?.(45);
     
-    // Draw date band at top if requested (image is already positioned below)
-    if (options.addDate) {
-      drawDateBand(ctx, canvas, dateBandHeight);
+    // Draw caption band if requested (image is already positioned beside it)
+    if (caption) {
+      drawCaptionBand(ctx, canvas, caption, captionBandHeight);
     }
     
     onProgress?.(50);
     
-    // Find optimal quality for target size
-    const blob = await findOptimalQuality(
+    // Find optimal quality for target size in the requested format
+    const { blob, format, previewBlob, metadataStripped, sizeFloor } = await encodeForFormat(
       canvas,
+      options.outputFormat ?? 'jpeg',
       options.minSizeKB,
       options.maxSizeKB,
       options.qualityPreference ?? 85,
-      onProgress
+      onProgress,
+      options.dpi,
+      options.sizeFloor,
+      options.jpeg
     );
     
     onProgress?.(95);
@@ -522,8 +926,14 @@ export async function processImageWASM(
     
     return {
       blob,
+      format,
+      previewBlob,
+      metadataStripped,
       width: finalWidth,
       height: finalHeight,
+      imageArea: { top: imageTop, height: imageAreaHeight },
+      dpi: options.dpi ?? null,
+      sizeFloor: sizeFloor ?? null,
       sizeKB: Math.round((blob.size / 1024) * 100) / 100,
       processingTimeMs: Math.round(processingTimeMs),
     };
@@ -550,15 +960,16 @@ export async function processImageWASM(
   
   onProgress?.(30);
   
-  // First apply rotation if needed
-  let sourceImage: HTMLImageElement | HTMLCanvasElement = img;
+  // Flatten a photographed sheet first, then apply rotation if needed
+  const flattened = options.cropArea?.perspective ? flattenImage(img, options.cropArea.perspective) : img;
+  let sourceImage: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas = flattened;
   
   if (rotation !== 0) {
     const radians = (rotation * Math.PI) / 180;
     const sin = Math.abs(Math.sin(radians));
     const cos = Math.abs(Math.cos(radians));
-    const rotatedWidth = Math.round(img.width * cos + img.height * sin);
-    const rotatedHeight = Math.round(img.width * sin + img.height * cos);
+    const rotatedWidth = Math.round(flattened.width * cos + flattened.height * sin);
+    const rotatedHeight = Math.round(flattened.width * sin + flattened.height * cos);
     
     const rotatedCanvas = document.createElement('canvas');
     rotatedCanvas.width = rotatedWidth;
@@ -569,14 +980,15 @@ export async function processImageWASM(
     rotatedCtx.fillRect(0, 0, rotatedWidth, rotatedHeight);
     rotatedCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
     rotatedCtx.rotate(radians);
-    rotatedCtx.drawImage(img, -img.width / 2, -img.height / 2);
+    rotatedCtx.drawImage(flattened, -flattened.width / 2, -flattened.height / 2);
     
     sourceImage = rotatedCanvas;
   }
   
-  // Calculate date band height if needed (BEFORE creating canvas)
-  const dateBandHeight = options.addDate ? getDateBandHeight(options.targetHeight) : 0;
-  const imageAreaHeight = options.targetHeight - dateBandHeight;
+  // Calculate caption band height if needed (BEFORE creating canvas)
+  const caption = getActiveCaption(options);
+  const { top: imageTop, height: imageAreaHeight, bandHeight: captionBandHeight } =
+    getImageArea(options.targetHeight, caption?.lines.length ?? 0, caption?.position);
   
   const canvas = document.createElement('canvas');
   canvas.width = options.targetWidth;
@@ -587,41 +999,21 @@ export async function processImageWASM(
   ctx.fillStyle = '#FFFFFF';
   ctx.fillRect(0, 0, canvas.width, canvas.height);
   
-  // Apply crop if provided - image is drawn BELOW the date band area
-  if (options.cropArea) {
-    ctx.drawImage(
-      sourceImage,
-      options.cropArea.x,
-      options.cropArea.y,
-      options.cropArea.width,
-      options.cropArea.height,
-      0,
-      dateBandHeight, // Start below date band
-      options.targetWidth,
-      imageAreaHeight // Use remaining height for image
-    );
-  } else {
-    // Calculate center crop using the source (possibly rotated) image
-    const srcWidth = sourceImage instanceof HTMLCanvasElement ? sourceImage.width : sourceImage.width;
-    const srcHeight = sourceImage instanceof HTMLCanvasElement ? sourceImage.height : sourceImage.height;
-    const targetRatio = options.targetWidth / imageAreaHeight;
-    const imgRatio = srcWidth / srcHeight;
-    
-    let sx = 0, sy = 0, sw = srcWidth, sh = srcHeight;
-    
-    if (imgRatio > targetRatio) {
-      sw = srcHeight * targetRatio;
-      sx = (srcWidth - sw) / 2;
-    } else {
-      sh = srcWidth / targetRatio;
-      sy = (srcHeight - sh) / 2;
-    }
-    
-    ctx.drawImage(sourceImage, sx, sy, sw, sh, 0, dateBandHeight, options.targetWidth, imageAreaHeight);
+  // Apply crop (or centre crop) - image is drawn beside the caption band area
+  const photo = drawPhoto(ctx, sourceImage, options, { x: 0, y: imageTop, width: options.targetWidth, height: imageAreaHeight });
+  
+  // Levels / white balance / brightness ahead of backdrop and ink recolouring
+  if (options.tone && !isNeutralTone(options.tone)) {
+    applyTone(ctx, photo, options.tone);
   }
   
   onProgress?.(50);
   
+  // Whiten (or recolour) the backdrop if the preset demands it
+  if (options.backgroundColor) {
+    applyBackgroundReplacement(ctx, canvas, options.backgroundColor, options.backgroundTolerance ?? 50, imageTop, imageAreaHeight);
+  }
+  
   // Apply signature color if specified
   if (options.signatureColor) {
     applySignatureColor(ctx, canvas, options.signatureColor);
@@ -629,20 +1021,24 @@ export async function processImageWASM(
   
   onProgress?.(55);
   
-  // Draw date band at top if requested (image is already positioned below)
-  if (options.addDate) {
-    drawDateBand(ctx, canvas, dateBandHeight);
+  // Draw caption band if requested (image is already positioned beside it)
+  if (caption) {
+    drawCaptionBand(ctx, canvas, caption, captionBandHeight);
   }
   
   onProgress?.(60);
   
-  // Find optimal quality
-  const blob = await findOptimalQuality(
+  // Find optimal quality in the requested format
+  const { blob, format, previewBlob, metadataStripped, sizeFloor } = await encodeForFormat(
     canvas,
+    options.outputFormat ?? 'jpeg',
     options.minSizeKB,
     options.maxSizeKB,
     options.qualityPreference ?? 85,
-    onProgress
+    onProgress,
+    options.dpi,
+    options.sizeFloor,
+    options.jpeg
   );
   
   onProgress?.(95);
@@ -651,8 +1047,14 @@ export async function processImageWASM(
   
   return {
     blob,
+    format,
+    previewBlob,
+    metadataStripped,
     width: finalWidth,
     height: finalHeight,
+    imageArea: { top: imageTop, height: imageAreaHeight },
+    dpi: options.dpi ?? null,
+    sizeFloor: sizeFloor ?? null,
     sizeKB: Math.round((blob.size / 1024) * 100) / 100,
     processingTimeMs: Math.round(processingTimeMs),
   };
@@ -0,0 +1,213 @@
+'use client';
+
+/**
+ * Worker-Backed Processor
+ *
+ * Drop-in replacement for processImageWASM that runs the pipeline inside
+ * dedicated Web Workers. Falls back to the main-thread path when workers or
+ * OffscreenCanvas are unavailable, or when a worker fails to start.
+ *
+ * - A small pool of workers, created lazily as jobs overlap (batch mode)
+ * - Each job goes to the least busy worker
+ * - Progress is streamed back through the typed protocol in workerProtocol.ts
+ * - Jobs can be cancelled with an AbortSignal (rejects with an AbortError)
+ * - A crashed worker is retired alone; its jobs finish on the main thread
+ */
+
+import {
+  processImageWASM,
+  getProcessorCapabilities,
+  type ProcessOptions,
+  type ProcessResult,
+} from './wasmProcessor';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+interface PoolWorker {
+  worker: Worker;
+  activeJobs: number;
+  responded: boolean; // Has sent a message, so the worker script loaded
+}
+
+interface PendingJob {
+  file: File;
+  options: ProcessOptions;
+  signal?: AbortSignal;
+  resolve: (result: ProcessResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+  owner: PoolWorker;
+}
+
+const pool: PoolWorker[] = [];
+let workerBroken = false;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+// Leave a core for the UI; more than four workers only adds memory pressure
+function getPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Processing cancelled', 'AbortError');
+}
+
+/**
+ * Check whether an error came from a cancelled job
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Whether processing can run off the main thread in this browser
+ */
+export function supportsWorkerProcessing(): boolean {
+  const caps = getProcessorCapabilities();
+  return caps.webWorkers && caps.offscreenCanvas && caps.imageBitmap && !workerBroken;
+}
+
+function settleJob(id: number): PendingJob | undefined {
+  const job = pendingJobs.get(id);
+  if (job) {
+    pendingJobs.delete(id);
+    job.owner.activeJobs--;
+  }
+  return job;
+}
+
+function handleWorkerMessage(entry: PoolWorker, event: MessageEvent<WorkerResponse>): void {
+  const message = event.data;
+  entry.responded = true;
+  if (!pendingJobs.has(message.id)) return; // Already settled (e.g. cancelled on our side)
+
+  switch (message.type) {
+    case 'progress':
+      pendingJobs.get(message.id)?.onProgress?.(message.progress);
+      break;
+    case 'result':
+      settleJob(message.id)?.resolve(message.result);
+      break;
+    case 'error':
+      settleJob(message.id)?.reject(new Error(message.message));
+      break;
+    case 'cancelled':
+      settleJob(message.id)?.reject(createAbortError());
+      break;
+  }
+}
+
+/**
+ * Retire a crashed worker and re-run its jobs on the main thread; the rest
+ * of the pool keeps going
+ */
+function handleWorkerError(entry: PoolWorker, event: ErrorEvent): void {
+  console.warn('⚠️ Processing worker failed, finishing its jobs on the main thread:', event.message);
+  entry.worker.terminate();
+  const index = pool.indexOf(entry);
+  if (index >= 0) pool.splice(index, 1);
+  // One that never answered most likely can't load at all: stop starting new ones
+  if (!entry.responded) workerBroken = true;
+
+  pendingJobs.forEach((job, id) => {
+    if (job.owner !== entry) return;
+    pendingJobs.delete(id);
+    processOnMainThread(job.file, job.options, job.onProgress, job.signal).then(job.resolve, job.reject);
+  });
+}
+
+/**
+ * Least busy worker, starting another one while the pool has room
+ */
+function getWorker(): PoolWorker | null {
+  const idle = pool.find((entry) => entry.activeJobs === 0);
+  if (idle) return idle;
+
+  if (pool.length < getPoolSize()) {
+    try {
+      const worker = new Worker(new URL('./processor.worker.ts', import.meta.url), { type: 'module' });
+      const entry: PoolWorker = { worker, activeJobs: 0, responded: false };
+      worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => handleWorkerMessage(entry, event));
+      worker.addEventListener('error', (event) => handleWorkerError(entry, event));
+      pool.push(entry);
+      return entry;
+    } catch (error) {
+      console.warn('⚠️ Could not start processing worker:', error);
+      if (pool.length === 0) {
+        workerBroken = true;
+        return null;
+      }
+    }
+  }
+
+  return pool.reduce((least, entry) => (entry.activeJobs < least.activeJobs ? entry : least));
+}
+
+/**
+ * Main-thread path with the same cancellation semantics as the worker:
+ * the job stops at the next progress checkpoint after the signal fires
+ */
+async function processOnMainThread(
+  file: File,
+  options: ProcessOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessResult> {
+  const result = await processImageWASM(file, options, (progress) => {
+    if (signal?.aborted) throw createAbortError();
+    onProgress?.(progress);
+  });
+
+  if (signal?.aborted) throw createAbortError();
+  return result;
+}
+
+/**
+ * Process an image, off the main thread when possible
+ */
+export function processImageInWorker(
+  file: File,
+  options: ProcessOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ProcessResult> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const owner = supportsWorkerProcessing() ? getWorker() : null;
+  if (!owner) {
+    return processOnMainThread(file, options, onProgress, signal);
+  }
+
+  const id = nextJobId++;
+  owner.activeJobs++;
+
+  return new Promise<ProcessResult>((resolve, reject) => {
+    const onAbort = () => {
+      if (!settleJob(id)) return;
+      owner.worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(createAbortError());
+    };
+
+    pendingJobs.set(id, {
+      file,
+      options,
+      signal,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress,
+      owner,
+    });
+
+    signal?.addEventListener('abort', onAbort);
+    owner.worker.postMessage({ type: 'process', id, file, options } satisfies WorkerRequest);
+  });
+}
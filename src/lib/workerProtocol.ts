@@ -0,0 +1,21 @@
+/**
+ * Worker Message Protocol
+ *
+ * Typed messages exchanged between the main thread (workerProcessor.ts)
+ * and the processing worker (processor.worker.ts). Every job carries an
+ * `id` so several requests can be in flight and cancelled independently.
+ */
+
+import type { ProcessOptions, ProcessResult } from './wasmProcessor';
+
+// Main thread -> worker
+export type WorkerRequest =
+  | { type: 'process'; id: number; file: File; options: ProcessOptions }
+  | { type: 'cancel'; id: number };
+
+// Worker -> main thread
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; result: ProcessResult }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'cancelled'; id: number };
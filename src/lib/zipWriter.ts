@@ -0,0 +1,118 @@
+/**
+ * ZIP Writer
+ *
+ * Minimal in-browser ZIP archive builder (no server, no dependencies).
+ * Entries are stored uncompressed - the outputs are JPEG/PNG/WebP/PDF files
+ * that are already compressed, so deflate would only cost time.
+ *
+ * - UTF-8 file names (general purpose flag bit 11)
+ * - CRC-32 per entry, DOS timestamps from the entry date
+ * - Single-disk archive, no ZIP64 (fine for a few MB of documents)
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Blob | string;
+  lastModified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time/date words (2-second resolution, years from 1980)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function toBytes(data: Blob | string) {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Build a ZIP archive from the given entries
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: BlobPart[] = [];
+  let offset = 0;
+  let directorySize = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = await toBytes(entry.data);
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // Local file header signature
+    lv.setUint16(4, 20, true); // Version needed (2.0)
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, 0, true); // Stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true); // Compressed size
+    lv.setUint32(22, data.length, true); // Uncompressed size
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // Extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // Central directory signature
+    cv.setUint16(4, 20, true); // Version made by
+    cv.setUint16(6, 20, true); // Version needed
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    // Extra, comment, disk number, internal/external attributes stay zero
+    cv.setUint32(42, offset, true); // Local header offset
+    central.set(name, 46);
+
+    parts.push(local, data);
+    centralDirectory.push(central);
+    offset += local.length + data.length;
+    directorySize += central.length;
+  }
+
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // End of central directory signature
+  ev.setUint16(8, entries.length, true); // Entries on this disk
+  ev.setUint16(10, entries.length, true); // Total entries
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true); // Central directory offset
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
@@ -2,7 +2,15 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { ExamPreset, ProcessedResult, CropArea } from '@/types';
+import type { ExamPreset, ProcessedResult, CropArea, CaptionSettings, ImageMetadata, BatchItem, CustomDimensions, JpegSettings, SignatureCleanupSettings, FitSettings, ResampleSettings, ToneAdjustments } from '@/types';
+import { DEFAULT_CAPTION_LAYOUT } from '@/lib/captionBand';
+import { DEFAULT_FILE_NAME_TEMPLATE } from '@/lib/exportBundle';
+import { DEFAULT_DPI } from '@/lib/physicalUnits';
+import { DEFAULT_FIT_SETTINGS } from '@/lib/fitGeometry';
+import { DEFAULT_RESAMPLE_SETTINGS } from '@/lib/resampler';
+import { DEFAULT_TONE_ADJUSTMENTS } from '@/lib/toneAdjust';
+import { DEFAULT_SIGNATURE_CLEANUP } from '@/lib/signatureCleanup';
+import { DEFAULT_TRIM_PADDING } from '@/lib/signatureTrim';
 
 interface AppState {
   // Preset selection
@@ -14,21 +22,54 @@ interface AppState {
   uploadedImageUrl: string | null;
   processedResult: ProcessedResult | null;
   lastCropArea: CropArea | null; // Store last crop for reprocessing
+  toneAdjustments: ToneAdjustments; // Per-image, kept with the crop for reprocessing
+  sourceMetadata: ImageMetadata | null; // EXIF found in the upload (stripped from output)
   
-  // Custom dimensions (for custom preset)
-  customDimensions: {
-    width: number;
-    height: number;
-    minKB: number;
-    maxKB: number;
-  };
+  // Custom dimensions (for custom preset), in px or cm / mm / in at a DPI
+  customDimensions: CustomDimensions;
   
   // Signature color (null = keep original)
   signatureColor: string | null;
   
+  // Signature enhancement (adaptive threshold, line removal, deskew)
+  signatureCleanup: SignatureCleanupSettings;
+  signatureTrimPadding: number; // Auto-trim margin, % of the ink box
+  
   // Output quality preference (0-100, where 100 = max quality within size limit)
   outputQuality: number;
   
+  // JPEG encoder (built-in for identical bytes across browsers)
+  jpegSettings: JpegSettings;
+  
+  // How the crop fills the photo area (cover / contain with padding / stretch)
+  fitSettings: FitSettings;
+  
+  // Downscaling kernel and optional sharpening
+  resampleSettings: ResampleSettings;
+  
+  // Background replacement (photos whose preset demands a background colour)
+  replaceBackground: boolean;
+  backgroundTolerance: number; // 0-100
+  
+  // Caption band (name/date) for photos
+  candidateName: string;
+  captionSettings: CaptionSettings;
+  
+  // Batch mode: every document of the preset in one queue
+  isBatchMode: boolean;
+  batchItems: BatchItem[];
+  
+  // Download / ZIP export naming, e.g. {name}_{preset}_{type}
+  fileNameTemplate: string;
+  
+  // Candidate workspace (records live in IndexedDB)
+  applicationNumber: string;
+  activeCandidateId: string | null; // Workspace record being edited
+  workspaceRetentionDays: number;
+  
+  // User-defined presets (saved locally, shareable as JSON)
+  userPresets: ExamPreset[];
+  
   // UI state
   showCropper: boolean;
   addDate: boolean;
@@ -38,12 +79,33 @@ interface AppState {
   // Actions
   setPreset: (preset: ExamPreset) => void;
   setType: (type: 'photo' | 'signature') => void;
-  setUploadedFile: (file: File | null, imageUrl: string | null) => void;
+  setUploadedFile: (file: File | null, imageUrl: string | null, metadata?: ImageMetadata | null) => void;
   setProcessedResult: (result: ProcessedResult | null) => void;
   setLastCropArea: (cropArea: CropArea | null) => void;
-  setCustomDimensions: (dims: Partial<AppState['customDimensions']>) => void;
+  setToneAdjustments: (adjustments: Partial<ToneAdjustments>) => void;
+  resetToneAdjustments: () => void;
+  setCustomDimensions: (dims: Partial<CustomDimensions>) => void;
   setSignatureColor: (color: string | null) => void;
+  setSignatureCleanup: (settings: Partial<SignatureCleanupSettings>) => void;
+  setSignatureTrimPadding: (padding: number) => void;
   setOutputQuality: (quality: number) => void;
+  setJpegSettings: (settings: Partial<JpegSettings>) => void;
+  setFitSettings: (settings: Partial<FitSettings>) => void;
+  setResampleSettings: (settings: Partial<ResampleSettings>) => void;
+  setReplaceBackground: (replace: boolean) => void;
+  setBackgroundTolerance: (tolerance: number) => void;
+  setCandidateName: (name: string) => void;
+  setCaptionSettings: (settings: Partial<CaptionSettings>) => void;
+  setBatchMode: (batch: boolean) => void;
+  setBatchItems: (items: BatchItem[]) => void;
+  updateBatchItem: (id: string, changes: Partial<BatchItem>) => void;
+  setFileNameTemplate: (template: string) => void;
+  setApplicationNumber: (value: string) => void;
+  setActiveCandidateId: (id: string | null) => void;
+  setWorkspaceRetentionDays: (days: number) => void;
+  saveUserPreset: (preset: ExamPreset) => void;
+  deleteUserPreset: (id: string) => void;
+  importUserPresets: (presets: ExamPreset[]) => void;
   setShowCropper: (show: boolean) => void;
   setAddDate: (add: boolean) => void;
   setDarkMode: (dark: boolean) => void;
@@ -58,14 +120,44 @@ const initialState = {
   uploadedImageUrl: null,
   processedResult: null,
   lastCropArea: null as CropArea | null,
+  toneAdjustments: DEFAULT_TONE_ADJUSTMENTS,
+  sourceMetadata: null as ImageMetadata | null,
   customDimensions: {
     width: 200,
     height: 230,
     minKB: 10,
     maxKB: 50,
-  },
+    unit: 'px',
+    physicalWidth: 3.5,
+    physicalHeight: 4.5,
+    dpi: null,
+  } as CustomDimensions,
   signatureColor: null as string | null,
+  signatureCleanup: DEFAULT_SIGNATURE_CLEANUP,
+  signatureTrimPadding: DEFAULT_TRIM_PADDING,
   outputQuality: 80, // Default to 80% (High quality preset)
+  jpegSettings: {
+    engine: 'builtin',
+    subsampling: '4:2:0',
+    progressive: false,
+  } as JpegSettings,
+  fitSettings: DEFAULT_FIT_SETTINGS,
+  resampleSettings: DEFAULT_RESAMPLE_SETTINGS,
+  replaceBackground: false,
+  backgroundTolerance: 50,
+  candidateName: '',
+  captionSettings: {
+    ...DEFAULT_CAPTION_LAYOUT,
+    dateSource: 'today',
+    manualDate: null,
+  } as CaptionSettings,
+  isBatchMode: false,
+  batchItems: [] as BatchItem[],
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  applicationNumber: '',
+  activeCandidateId: null as string | null,
+  workspaceRetentionDays: 7,
+  userPresets: [] as ExamPreset[],
   showCropper: false,
   addDate: false,
   darkMode: false,
@@ -77,22 +169,29 @@ export const useAppStore = create<AppState>()(
     (set) => ({
       ...initialState,
       
-      setPreset: (preset) => set({ 
+      setPreset: (preset) => set((state) => ({ 
         selectedPreset: preset,
         processedResult: null,
         addDate: preset?.specs.photo?.dateFormat ?? false,
         isCustomMode: preset?.id === 'custom',
-      }),
+        // Take the preset's band layout, keep the user's date source
+        captionSettings: {
+          ...state.captionSettings,
+          ...(preset?.specs.photo?.caption ?? DEFAULT_CAPTION_LAYOUT),
+        },
+      })),
       
       setType: (type) => set({ 
         selectedType: type,
         processedResult: null,
       }),
       
-      setUploadedFile: (file, imageUrl) => set({ 
+      setUploadedFile: (file, imageUrl, metadata = null) => set({ 
         uploadedFile: file,
         uploadedImageUrl: imageUrl,
         processedResult: null,
+        sourceMetadata: metadata,
+        toneAdjustments: DEFAULT_TONE_ADJUSTMENTS, // A new image starts uncorrected
         showCropper: !!file,
       }),
       
@@ -103,14 +202,89 @@ export const useAppStore = create<AppState>()(
       
       setLastCropArea: (cropArea) => set({ lastCropArea: cropArea }),
       
-      setCustomDimensions: (dims) => set((state) => ({
-        customDimensions: { ...state.customDimensions, ...dims },
+      setToneAdjustments: (adjustments) => set((state) => ({
+        toneAdjustments: { ...state.toneAdjustments, ...adjustments },
       })),
       
+      resetToneAdjustments: () => set({ toneAdjustments: DEFAULT_TONE_ADJUSTMENTS }),
+      
+      setCustomDimensions: (dims) => set((state) => {
+        const next = { ...state.customDimensions, ...dims };
+        // Physical sizes mean nothing without a density
+        if (next.unit !== 'px' && !next.dpi) next.dpi = DEFAULT_DPI;
+        return { customDimensions: next };
+      }),
+      
       setSignatureColor: (color) => set({ signatureColor: color }),
       
+      setSignatureCleanup: (settings) => set((state) => ({
+        signatureCleanup: { ...state.signatureCleanup, ...settings },
+      })),
+      
+      setSignatureTrimPadding: (padding) => set({ signatureTrimPadding: padding }),
+      
       setOutputQuality: (quality) => set({ outputQuality: quality }),
       
+      setJpegSettings: (settings) => set((state) => ({
+        jpegSettings: { ...state.jpegSettings, ...settings },
+      })),
+      
+      setFitSettings: (settings) => set((state) => ({
+        fitSettings: { ...state.fitSettings, ...settings },
+      })),
+      
+      setResampleSettings: (settings) => set((state) => ({
+        resampleSettings: { ...state.resampleSettings, ...settings },
+      })),
+      
+      setReplaceBackground: (replace) => set({ replaceBackground: replace }),
+      
+      setBackgroundTolerance: (tolerance) => set({ backgroundTolerance: tolerance }),
+      
+      setCandidateName: (name) => set({ candidateName: name }),
+      
+      setCaptionSettings: (settings) => set((state) => ({
+        captionSettings: { ...state.captionSettings, ...settings },
+      })),
+      
+      setBatchMode: (batch) => set({ isBatchMode: batch }),
+      
+      setBatchItems: (items) => set({ batchItems: items }),
+      
+      updateBatchItem: (id, changes) => set((state) => ({
+        batchItems: state.batchItems.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+      })),
+      
+      setFileNameTemplate: (template) => set({ fileNameTemplate: template }),
+      
+      setApplicationNumber: (value) => set({ applicationNumber: value }),
+      
+      setActiveCandidateId: (id) => set({ activeCandidateId: id }),
+      
+      setWorkspaceRetentionDays: (days) => set({ workspaceRetentionDays: days }),
+      
+      // Insert or replace by id; an edited preset that is selected takes effect at once
+      saveUserPreset: (preset) => set((state) => ({
+        userPresets: state.userPresets.some((p) => p.id === preset.id)
+          ? state.userPresets.map((p) => (p.id === preset.id ? preset : p))
+          : [...state.userPresets, preset],
+        selectedPreset: state.selectedPreset?.id === preset.id ? preset : state.selectedPreset,
+      })),
+      
+      deleteUserPreset: (id) => set((state) => ({
+        userPresets: state.userPresets.filter((p) => p.id !== id),
+      })),
+      
+      importUserPresets: (presets) => set((state) => {
+        const incoming = new Map(presets.map((p) => [p.id, p]));
+        return {
+          userPresets: [
+            ...state.userPresets.map((p) => incoming.get(p.id) ?? p),
+            ...presets.filter((p) => !state.userPresets.some((existing) => existing.id === p.id)),
+          ],
+        };
+      }),
+      
       setShowCropper: (show) => set({ showCropper: show }),
       
       setAddDate: (add) => set({ addDate: add }),
@@ -119,18 +293,46 @@ export const useAppStore = create<AppState>()(
       
       setIsCustomMode: (custom) => set({ isCustomMode: custom }),
       
-      reset: () => set({
+      reset: () => set((state) => ({
         ...initialState,
         // Preserve user preferences
         darkMode: false,
-      }),
+        fileNameTemplate: state.fileNameTemplate,
+        workspaceRetentionDays: state.workspaceRetentionDays,
+        userPresets: state.userPresets,
+        jpegSettings: state.jpegSettings,
+        fitSettings: state.fitSettings,
+        resampleSettings: state.resampleSettings,
+        signatureCleanup: state.signatureCleanup,
+        signatureTrimPadding: state.signatureTrimPadding,
+      })),
     }),
     {
       name: 'preset-photo-storage',
       partialize: (state) => ({ 
         darkMode: state.darkMode,
         customDimensions: state.customDimensions,
+        backgroundTolerance: state.backgroundTolerance,
+        fileNameTemplate: state.fileNameTemplate,
+        workspaceRetentionDays: state.workspaceRetentionDays,
+        userPresets: state.userPresets,
+        jpegSettings: state.jpegSettings,
+        fitSettings: state.fitSettings,
+        resampleSettings: state.resampleSettings,
+        signatureCleanup: state.signatureCleanup,
+        signatureTrimPadding: state.signatureTrimPadding,
       }),
+      // Older saves lack the unit / DPI fields of customDimensions, and may
+      // still hold a candidate name that must not reach the next candidate
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<AppState>;
+        return {
+          ...current,
+          ...saved,
+          customDimensions: { ...current.customDimensions, ...saved.customDimensions },
+          candidateName: current.candidateName,
+        };
+      },
     }
   )
 );
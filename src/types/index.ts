@@ -1,7 +1,59 @@
 // Type definitions for Exam Presets
 
+// Caption band (name and/or date) printed on photos
+export type CaptionPosition = 'top' | 'bottom';
+export type CaptionLines = 'date' | 'name' | 'name-date';
+export type CaptionDateFormat = 'DD-MM-YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'YYYY-MM-DD' | 'DD MMM YYYY';
+export type CaptionDateSource = 'today' | 'exif' | 'manual';
+
+export interface CaptionLayout {
+  position: CaptionPosition;
+  lines: CaptionLines;
+  dateFormat: CaptionDateFormat;
+}
+
+export interface CaptionSettings extends CaptionLayout {
+  dateSource: CaptionDateSource;
+  manualDate: string | null; // YYYY-MM-DD from a date input
+}
+
+// Face proportions from exam bulletins, as fractions of the photo height
+export interface FaceFraming {
+  headHeightRatio: number; // Crown-to-chin height / photo height (e.g. 0.75)
+  eyeLine: number; // Eye line distance from the top / photo height (e.g. 0.4)
+}
+
+// Print sizes for presets given in cm / mm / inches
+export type PhysicalUnit = 'cm' | 'mm' | 'in';
+
+export interface PhysicalSize {
+  width: number;
+  height: number;
+  unit: PhysicalUnit;
+}
+
+// Custom mode inputs; physical units convert to pixels at the given DPI
+export interface CustomDimensions {
+  width: number; // px
+  height: number; // px
+  minKB: number;
+  maxKB: number;
+  unit: 'px' | PhysicalUnit;
+  physicalWidth: number;
+  physicalHeight: number;
+  dpi: number | null; // Required for physical units, optional for px
+}
+
+// How an encode that stays under minSizeKB is brought up to it
+export type SizeFloorStrategy = 'padding' | 'grain' | 'none';
+
+export interface SizeFloorResult {
+  strategy: Exclude<SizeFloorStrategy, 'none'>;
+  addedBytes: number;
+}
+
 export interface ImageSpec {
-  widthPx: number;
+  widthPx: number; // Computed from physicalSize when both it and dpi are set
   heightPx: number;
   minSizeKB: number;
   maxSizeKB: number;
@@ -10,6 +62,65 @@ export interface ImageSpec {
   aspectRatio?: string;
   format?: string;
   background?: string;
+  caption?: CaptionLayout; // Layout of the band when dateFormat is set
+  faceFraming?: FaceFraming; // Drives the cropper's auto-framing (photos only)
+  physicalSize?: PhysicalSize; // Print size the portal asks for
+  dpi?: number; // Density written into the output (JFIF / pHYs / PDF page size)
+  sizeFloor?: SizeFloorStrategy; // Default: padding
+}
+
+// Extra uploads some presets require (thumb impression, declaration, ...)
+export interface ExtraDocumentSpec extends ImageSpec {
+  id: string;
+  label: string;
+}
+
+// How the crop fills the photo area beside the caption band
+// cover = trim to fit, contain = letterbox with a pad colour, stretch = distort
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+export interface FitSettings {
+  mode: FitMode;
+  padColor: string; // Hex fill around the photo in contain mode
+}
+
+// Tonal corrections between crop and encode (see toneAdjust.ts)
+export interface ToneAdjustments {
+  autoLevels: boolean; // Stretch the histogram to full range
+  autoWhiteBalance: boolean; // Neutralise the cast of the brightest area
+  brightness: number; // -100..100
+  contrast: number; // -100..100
+  saturation: number; // -100..100 (-100 = greyscale)
+  gamma: number; // 0.5..2, above 1 lifts the midtones
+}
+
+// Downscaling filter (see resampler.ts)
+export type ResampleKernel = 'halving' | 'lanczos3' | 'mitchell' | 'area';
+
+export interface ResampleSettings {
+  kernel: ResampleKernel;
+  sharpen: boolean; // Unsharp mask after the resize, tuned per document type
+}
+
+// Encoders the pipeline can produce (derived from ImageSpec.format)
+export type OutputFormat = 'jpeg' | 'png' | 'webp' | 'pdf';
+
+// JPEG encoding: the bundled encoder (same bytes in every browser) or canvas.toBlob
+export type JpegEngine = 'builtin' | 'browser';
+export type ChromaSubsampling = '4:4:4' | '4:2:2' | '4:2:0';
+
+export interface JpegSettings {
+  engine: JpegEngine;
+  subsampling: ChromaSubsampling; // Built-in encoder only
+  progressive: boolean; // Built-in encoder only; some portals reject progressive
+}
+
+// Signature enhancement ahead of scaling (see signatureCleanup.ts)
+export interface SignatureCleanupSettings {
+  enabled: boolean;
+  sensitivity: number; // 0-100, higher keeps fainter ink
+  removeLines: boolean; // Drop ruled / graph paper lines
+  deskew: boolean; // Level the ink's principal axis
 }
 
 export interface ExamPreset {
@@ -21,6 +132,7 @@ export interface ExamPreset {
   specs: {
     photo: ImageSpec;
     signature: ImageSpec | null;
+    extras?: ExtraDocumentSpec[];
   };
 }
 
@@ -36,14 +148,103 @@ export interface CropArea {
   width: number;
   height: number;
   rotation?: number;
+  perspective?: Quad; // Sheet corners flattened before rotation and crop (the crop is in the flattened image)
+}
+
+// Corners of a photographed sheet in image pixels
+export interface QuadPoint {
+  x: number;
+  y: number;
+}
+
+export type Quad = [QuadPoint, QuadPoint, QuadPoint, QuadPoint]; // Top-left, top-right, bottom-right, bottom-left
+
+// What the uploaded file carried (inspected on upload, never copied to output)
+export interface ImageMetadata {
+  hasExif: boolean;
+  orientation: number; // EXIF orientation 1-8 (1 = upright)
+  captureDate: string | null; // ISO string from DateTimeOriginal
+  camera: string | null; // Make + Model
+  hasGps: boolean;
+}
+
+// Compliance checker (photo analysed against the preset before download)
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceCheck {
+  id: 'background' | 'sharpness' | 'exposure' | 'face-centring' | 'head-size' | 'colour';
+  label: string;
+  status: ComplianceStatus;
+  detail: string;
+}
+
+export interface ComplianceReport {
+  status: ComplianceStatus; // Worst status across checks
+  checks: ComplianceCheck[];
 }
 
 export interface ProcessedResult {
   blob: Blob;
   dataUrl: string;
+  previewUrl: string; // Displayable image (differs from dataUrl for PDF output)
+  format: OutputFormat;
+  metadataStripped: boolean; // Output verified free of EXIF/text chunks
   sizeKB: number;
   dimensions: {
     width: number;
     height: number;
   };
+  imageArea: { top: number; height: number }; // Photo rows, excluding the caption band
+  dpi: number | null; // Density written into the file (null = encoder default)
+  sizeFloor: SizeFloorResult | null; // Set when the encode was raised to minSizeKB
+}
+
+// Batch mode: one queue item per document a preset needs
+export type BatchItemKind = 'photo' | 'signature' | 'extra';
+export type BatchItemStatus = 'empty' | 'ready' | 'processing' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string; // 'photo', 'signature' or the extra document id
+  kind: BatchItemKind;
+  label: string;
+  spec: ImageSpec;
+  file: File | null;
+  imageUrl: string | null;
+  sourceMetadata: ImageMetadata | null;
+  cropArea: CropArea | null; // null = centre crop
+  signatureColor: string | null; // Ink recolour (signatures and extras)
+  tone: ToneAdjustments; // Levels / white balance / sliders
+  quality: number; // 0-100
+  status: BatchItemStatus;
+  progress: number;
+  result: ProcessedResult | null;
+  error: string | null;
+}
+
+// Candidate workspace (IndexedDB) for operators handling many candidates
+export interface CandidateDocument {
+  type: string; // 'photo', 'signature' or the extra document id
+  kind: BatchItemKind;
+  label: string;
+  spec: ImageSpec;
+  original: Blob;
+  originalName: string;
+  sourceMetadata: ImageMetadata | null;
+  cropArea: CropArea | null;
+  signatureColor: string | null;
+  tone?: ToneAdjustments; // Absent on records saved before tonal adjustments
+  quality: number;
+  processed: Blob | null;
+  processedFormat: OutputFormat | null;
+  processedSizeKB: number | null;
+}
+
+export interface CandidateRecord {
+  id: string;
+  name: string;
+  applicationNumber: string;
+  preset: ExamPreset; // Snapshot, so custom presets and edits don't break re-opening
+  documents: CandidateDocument[];
+  createdAt: number;
+  updatedAt: number;
 }
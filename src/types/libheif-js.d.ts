@@ -0,0 +1,21 @@
+// Minimal typing for the libheif WebAssembly bundle (the package ships none)
+declare module 'libheif-js/wasm-bundle' {
+  interface HeifPixels {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+  }
+
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    display(target: HeifPixels, callback: (result: HeifPixels | null) => void): void;
+    free(): void; // Releases the image on the WebAssembly heap
+  }
+
+  const libheif: {
+    HeifDecoder: new () => { decode(bytes: Uint8Array): HeifImage[] };
+  };
+  export default libheif;
+}